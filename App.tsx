@@ -1,12 +1,35 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { ResultCard } from './components/ResultCard';
+import { JobCard } from './components/JobCard';
+import { ComplianceBadges } from './components/ComplianceBadges';
+import { ExportDialog } from './components/ExportDialog';
+import { ProductCatalog } from './components/ProductCatalog';
+import { MattePreview } from './components/MattePreview';
+import { VersionTreeModal } from './components/VersionTreeModal';
+import { Lightbox } from './components/Lightbox';
+import { DEFAULT_MATTING_SETTINGS } from './services/matting';
 import { ImageEditorModal } from './components/ImageEditorModal';
 import { ModelSelector } from './components/ModelSelector';
-import { LLMProvider, ScenarioPreset, ProcessingState, GeneratedImage, GlobalPromptSettings } from './types';
-import { LLMServiceFactory, expandPrompt, generateProductScene, recommendScenarios, DEFAULT_SYSTEM_INSTRUCTION, DEFAULT_USER_TEMPLATE, DEFAULT_GENERATION_TEMPLATE } from './services/llm';
+import { UsagePanel } from './components/UsagePanel';
+import { PromptTemplateEditor } from './components/PromptTemplateEditor';
+import { PromptReviewPanel } from './components/PromptReviewPanel';
+import { ProductProfileCard } from './components/ProductProfileCard';
+import { PresetTagPicker } from './components/PresetTagPicker';
+import { ABTestPanel } from './components/ABTestPanel';
+import { ABCompareModal } from './components/ABCompareModal';
+import { ScenarioPreset, PresetTag, ABVariant, ProcessingState, GeneratedImage, GlobalPromptSettings, GenerationJob, VariationSettings, ExportSettings, CatalogProduct, MattingSettings, BudgetSettings, RecommendationSettings, PromptReview, PromptReviewDecision } from './types';
+import { LLMServiceFactory, LLMTask, LLMUsage, TaskRouting, DEFAULT_TASK_ROUTING, sanitizeTaskRouting, MOCK_MODE, expandPrompt, generateProductScene, recommendScenarios, analyzeProduct, editImage, isAbortError, createAbortError, describeLLMError, DEFAULT_SYSTEM_INSTRUCTION, DEFAULT_USER_TEMPLATE, DEFAULT_GENERATION_TEMPLATE, TemplateVariables, templateVariableNames, validateTemplate, PRODUCT_TEMPLATE_VARIABLES, PROFILE_TEMPLATE_VARIABLES, ProductProfile, profileTemplateVariables, RecommendationDiversity, DEFAULT_RECOMMENDATION_COUNT, MAX_RECOMMENDATION_COUNT } from './services/llm';
+import { JobQueue } from './services/jobQueue';
+import { DEFAULT_FILE_NAME_TEMPLATE, exportImagesAsZip, downloadBlob } from './services/export';
+import { DEFAULT_BUDGET_SETTINGS, UsageContext, BudgetExceededError, loadUsageRecords, recordUsage, clearUsageRecords, sumUsage, getBudgetStatus, assertWithinBudget, formatTotalsCost } from './services/usageLedger';
+import { hashImage, loadCachedProfile, saveCachedProfile } from './services/productProfiles';
+import { PRESET_TAGS, PRESET_TAG_LABELS, suggestPresetTags, recommendationToPreset, PresetConflictStrategy, CONFLICT_STRATEGY_LABELS, createPresetLibraryFile, parsePresetLibraryFile, mergePresets, describeMergeResult } from './services/presetLibrary';
+import { PRESET_PACKS, PresetPack } from './services/presetPacks';
+import { VersionHistory, ABTestPlan, loadVersionHistory, saveVersionHistory, recordPresetVersions, recordPromptSettingsVersion, currentPresetVersion, currentPromptSettingsVersion, applyPresetVersion } from './services/promptVersions';
+import { saveHistoryImage, loadHistoryPage, deleteHistoryImage, clearHistory, countHistoryImages } from './services/history';
 import { removeWhiteBackground, fileToBase64 } from './utils';
-import { Upload, Sparkles, Wand2, Loader2, Image as ImageIcon, AlertCircle, Layers, Shield, Plus, Trash2, Edit2, Save, X, Check, Key, Lock, Eye, EyeOff, BrainCircuit, Info } from 'lucide-react';
+import { Upload, Sparkles, Wand2, Loader2, Image as ImageIcon, AlertCircle, Layers, Shield, Plus, Trash2, Edit2, Save, X, Check, Key, Lock, Eye, EyeOff, BrainCircuit, Info, History, Cpu, Archive, CheckSquare, FolderOpen, Pause, Play, Square, Wallet, BookmarkPlus, Download, Package } from 'lucide-react';
 
 // Default Presets Data
 const DEFAULT_PRESETS: ScenarioPreset[] = [
@@ -14,18 +37,137 @@ const DEFAULT_PRESETS: ScenarioPreset[] = [
     id: 'minimalist', 
     name: '极简工作室', 
     description: '一个干净、高端的摄影棚环境，具有柔和、漫射的灯光和中性米色或白色背景。最少的道具，完全专注于产品的优雅。',
-    quality: '高质量，8k，商业摄影，柔和灯光'
+    quality: '高质量，8k，商业摄影，柔和灯光',
+    tags: ['studio']
   },
 ];
 
+const DEFAULT_VARIATION_SETTINGS: VariationSettings = {
+  variationCount: 1,
+  temperature: null,
+  seed: null,
+  reexpandPerVariation: false,
+  reviewPrompts: false,
+};
+
+const DEFAULT_RECOMMENDATION_SETTINGS: RecommendationSettings = {
+  count: DEFAULT_RECOMMENDATION_COUNT,
+  diversity: 'balanced',
+};
+
+const DIVERSITY_LABELS: Record<RecommendationDiversity, string> = {
+  focused: '风格相近',
+  balanced: '均衡',
+  diverse: '风格多样',
+};
+
+const DEFAULT_PROMPT_SETTINGS: GlobalPromptSettings = {
+  expandPromptSystem: DEFAULT_SYSTEM_INSTRUCTION,
+  expandPromptUserTemplate: DEFAULT_USER_TEMPLATE,
+  generationPromptTemplate: DEFAULT_GENERATION_TEMPLATE,
+  brandColors: '',
+  marketplace: '',
+  aspectRatio: '',
+};
+
+const ASPECT_RATIO_OPTIONS = ['1:1', '4:3', '3:4', '3:2', '16:9', '9:16'];
+
+const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  profileId: 'amazon-main',
+  fileNameTemplate: DEFAULT_FILE_NAME_TEMPLATE,
+  asin: '',
+  sku: '',
+};
+
+// Labels for the per-task model routing settings
+const TASK_LABELS: Record<LLMTask, string> = {
+  expand: '提示词扩展',
+  generate: '场景生成',
+  recommend: '场景推荐',
+  analyze: '产品分析',
+  edit: '图像编辑',
+};
+
+// Catalog fields win over the analysis; the analysis fills in what the user left empty
+const productTemplateVariables = (product: CatalogProduct, profile = product.profile): TemplateVariables => ({
+  ...profileTemplateVariables(profile),
+  productName: product.title || product.sku,
+  category: product.category || profile?.category || undefined,
+});
+
+interface Expansion {
+  prompt: string;
+  usage?: LLMUsage;
+}
+
+// One preset version rendered with one prompt settings version; an A/B test runs two arms of the same preset
+interface RunArm {
+  variant?: ABVariant;
+  preset: ScenarioPreset;
+  presetVersion?: number; // Absent for AI recommendations, which aren't versioned
+  settings: GlobalPromptSettings;
+  promptVersion?: number;
+  expansionPerProduct: boolean; // The expansion template uses product variables
+}
+
+// Rejects the jobs of a prompt the user skipped during review
+class PromptSkippedError extends Error {
+  constructor() {
+    super('Prompt skipped during review');
+    this.name = 'PromptSkippedError';
+  }
+}
+
+interface ResultGroup {
+  key: string;
+  title: string;
+  jobs: GenerationJob[];
+  images: GeneratedImage[];
+}
+
+// Group pending jobs and results by product, then by the preset that produced them, newest groups first
+const groupResults = (
+  jobs: GenerationJob[],
+  images: GeneratedImage[],
+  presetName: (presetId: string) => string | undefined
+): ResultGroup[] => {
+  const groups = new Map<string, ResultGroup>();
+  const getGroup = (productName: string, presetKey: string, fallbackTitle: string) => {
+    const key = `${productName}::${presetKey}`;
+    if (!groups.has(key)) {
+      const title = presetName(presetKey) || fallbackTitle;
+      groups.set(key, { key, title: productName ? `${productName} · ${title}` : title, jobs: [], images: [] });
+    }
+    return groups.get(key)!;
+  };
+
+  jobs.forEach(job => getGroup(job.productName, job.presetId, job.presetName).jobs.push(job));
+  images.forEach(image => getGroup(image.sku || image.productTitle || '', image.presetId || image.vibe, image.vibe).images.push(image));
+
+  return Array.from(groups.values());
+};
+
 const App: React.FC = () => {
   // Navigation State
   const [activeTab, setActiveTab] = useState<'generator' | 'settings'>('generator');
 
   // Generator State
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [products, setProducts] = useState<CatalogProduct[]>([]);
+  const [activeProductId, setActiveProductId] = useState<string | null>(null);
+  const activeProduct = products.find(p => p.id === activeProductId) || products[0] || null;
+  const previewUrl = activeProduct?.previewUrl ?? null;
   const [removeBg, setRemoveBg] = useState<boolean>(true);
+  const [mattingSettings, setMattingSettings] = useState<MattingSettings>(() => {
+    const savedMattingSettings = localStorage.getItem('amzgen_matting_settings');
+    if (savedMattingSettings) {
+      try {
+        return { ...DEFAULT_MATTING_SETTINGS, ...JSON.parse(savedMattingSettings) };
+      } catch (error) {
+        console.error('Failed to load matting settings from localStorage:', error);
+      }
+    }
+    return DEFAULT_MATTING_SETTINGS;
+  });
   
   // Dynamic Presets State - Initialize from localStorage or default
   const [presets, setPresets] = useState<ScenarioPreset[]>(() => {
@@ -47,6 +189,11 @@ const App: React.FC = () => {
   
   // Combined list for display (system presets + AI recommendations)
   const displayPresets = [...presets, ...aiRecommendations];
+  // Tag filter for the preset grid; null shows everything
+  const [presetTagFilter, setPresetTagFilter] = useState<PresetTag | null>(null);
+  const visiblePresets = presetTagFilter ? displayPresets.filter(preset => preset.tags?.includes(presetTagFilter)) : displayPresets;
+  // Recommendation being saved to the library, with the name and tags being edited
+  const [savingRecommendation, setSavingRecommendation] = useState<{ id: string; name: string; tags: PresetTag[] } | null>(null);
 
   // Changed to array for multi-select - Initialize based on loaded presets
   const [selectedPresetIds, setSelectedPresetIds] = useState<string[]>(() => {
@@ -68,21 +215,89 @@ const App: React.FC = () => {
   
   const [processingState, setProcessingState] = useState<ProcessingState>({ step: 'IDLE', message: '' });
   const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const queueRef = useRef<JobQueue | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Expanded prompts waiting for approval, and the callbacks that release the jobs waiting on them
+  const [promptReviews, setPromptReviews] = useState<PromptReview[]>([]);
+  const reviewResolversRef = useRef(new Map<string, (decision: PromptReviewDecision) => void>());
+
+  // Product analysis in flight, keyed by image hash
+  const [analyzingProductIds, setAnalyzingProductIds] = useState<string[]>([]);
+  const profileRequestsRef = useRef(new Map<string, Promise<ProductProfile>>());
+  const editAbortControllerRef = useRef<AbortController | null>(null);
+  const [isQueuePaused, setIsQueuePaused] = useState(false);
+
+  // Number of presets rendered in parallel
+  const [concurrency, setConcurrency] = useState<number>(() => {
+    const savedConcurrency = Number(localStorage.getItem('amzgen_concurrency'));
+    return savedConcurrency >= 1 ? savedConcurrency : 3;
+  });
+
+  // Usage ledger (tokens and cost of every LLM call) and the optional spending cap
+  const [usageRecords, setUsageRecords] = useState(loadUsageRecords);
+  const [budgetSettings, setBudgetSettings] = useState<BudgetSettings>(() => {
+    const savedBudgetSettings = localStorage.getItem('amzgen_budget_settings');
+    if (savedBudgetSettings) {
+      try {
+        return { ...DEFAULT_BUDGET_SETTINGS, ...JSON.parse(savedBudgetSettings) };
+      } catch (error) {
+        console.error('Failed to load budget settings from localStorage:', error);
+      }
+    }
+    return DEFAULT_BUDGET_SETTINGS;
+  });
+  const budgetStatus = getBudgetStatus(usageRecords, budgetSettings);
+
+  // History State (persisted in IndexedDB)
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [historyHasMore, setHistoryHasMore] = useState(false);
+  const [historyCursor, setHistoryCursor] = useState<number | undefined>(); // Timestamp of the oldest loaded history record
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
 
   // Settings / Edit State
   const [editingPresetId, setEditingPresetId] = useState<string | null>(null);
   const [newPresetName, setNewPresetName] = useState('');
   const [newPresetDesc, setNewPresetDesc] = useState('');
   const [newPresetQuality, setNewPresetQuality] = useState('High quality, photorealistic, 8k');
+  const [newPresetTags, setNewPresetTags] = useState<PresetTag[]>([]);
   const [isAddingPreset, setIsAddingPreset] = useState(false);
+  // Preset library sharing: what to do with presets whose ID already exists, and the last import/install summary
+  const [conflictStrategy, setConflictStrategy] = useState<PresetConflictStrategy>('skip');
+  const [exportIncludesPromptSettings, setExportIncludesPromptSettings] = useState(true);
+  const [presetLibraryMessage, setPresetLibraryMessage] = useState<string | null>(null);
+  const presetImportInputRef = useRef<HTMLInputElement>(null);
 
   // API Key State
   const [customApiKey, setCustomApiKey] = useState<string>('');
   const [showApiKey, setShowApiKey] = useState(false);
   const [isApiKeySaved, setIsApiKeySaved] = useState(false);
+  // Google key for the direct Gemini SDK provider; OpenRouter keys don't work there
+  const [geminiApiKey, setGeminiApiKey] = useState<string>(() => localStorage.getItem('gemini_api_key') || '');
+  const [isGeminiKeySaved, setIsGeminiKeySaved] = useState(() => !!localStorage.getItem('gemini_api_key'));
+  const [showGeminiKey, setShowGeminiKey] = useState(false);
+
+  // Export State
+  const [exportingImage, setExportingImage] = useState<GeneratedImage | null>(null);
+  const [selectedImageIds, setSelectedImageIds] = useState<string[]>([]);
+  const [isExportingZip, setIsExportingZip] = useState(false);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(() => {
+    const savedExportSettings = localStorage.getItem('amzgen_export_settings');
+    if (savedExportSettings) {
+      try {
+        return { ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(savedExportSettings) };
+      } catch (error) {
+        console.error('Failed to load export settings from localStorage:', error);
+      }
+    }
+    return DEFAULT_EXPORT_SETTINGS;
+  });
 
   // Image Editor State
   const [editingImage, setEditingImage] = useState<GeneratedImage | null>(null);
+  const [versionTreeImage, setVersionTreeImage] = useState<GeneratedImage | null>(null);
+  const [abCompareId, setAbCompareId] = useState<string | null>(null);
+  const [lightboxImageId, setLightboxImageId] = useState<string | null>(null);
   const [isEditorProcessing, setIsEditorProcessing] = useState(false);
 
   // Advanced Prompt Settings - Initialize from localStorage or default
@@ -91,21 +306,52 @@ const App: React.FC = () => {
     if (savedPromptSettings) {
       try {
         const parsedSettings = JSON.parse(savedPromptSettings);
-        return {
-          expandPromptSystem: DEFAULT_SYSTEM_INSTRUCTION,
-          expandPromptUserTemplate: DEFAULT_USER_TEMPLATE,
-          generationPromptTemplate: DEFAULT_GENERATION_TEMPLATE,
-          ...parsedSettings
-        };
+        return { ...DEFAULT_PROMPT_SETTINGS, ...parsedSettings };
       } catch (error) {
         console.error('Failed to load prompt settings from localStorage:', error);
       }
     }
-    return {
-      expandPromptSystem: DEFAULT_SYSTEM_INSTRUCTION,
-      expandPromptUserTemplate: DEFAULT_USER_TEMPLATE,
-      generationPromptTemplate: DEFAULT_GENERATION_TEMPLATE, // Keep as fallback default
-    };
+    return DEFAULT_PROMPT_SETTINGS;
+  });
+
+  // Variations per preset - Initialize from localStorage or default
+  const [variationSettings, setVariationSettings] = useState<VariationSettings>(() => {
+    const savedVariationSettings = localStorage.getItem('amzgen_variation_settings');
+    if (savedVariationSettings) {
+      try {
+        return { ...DEFAULT_VARIATION_SETTINGS, ...JSON.parse(savedVariationSettings) };
+      } catch (error) {
+        console.error('Failed to load variation settings from localStorage:', error);
+      }
+    }
+    return DEFAULT_VARIATION_SETTINGS;
+  });
+
+  // Recommendation count and diversity - Initialize from localStorage or default
+  const [recommendationSettings, setRecommendationSettings] = useState<RecommendationSettings>(() => {
+    const savedRecommendationSettings = localStorage.getItem('amzgen_recommendation_settings');
+    if (savedRecommendationSettings) {
+      try {
+        return { ...DEFAULT_RECOMMENDATION_SETTINGS, ...JSON.parse(savedRecommendationSettings) };
+      } catch (error) {
+        console.error('Failed to load recommendation settings from localStorage:', error);
+      }
+    }
+    return DEFAULT_RECOMMENDATION_SETTINGS;
+  });
+
+  // Per-task model routing - Initialize from localStorage or default
+  const [taskRouting, setTaskRouting] = useState<TaskRouting>(() => {
+    const savedRouting = localStorage.getItem('amzgen_task_routing');
+    if (savedRouting) {
+      try {
+        // Providers and models can be renamed or removed between versions
+        return sanitizeTaskRouting(JSON.parse(savedRouting));
+      } catch (error) {
+        console.error('Failed to load task routing from localStorage:', error);
+      }
+    }
+    return DEFAULT_TASK_ROUTING;
   });
 
   // Load API Key from localStorage on mount
@@ -118,6 +364,26 @@ const App: React.FC = () => {
   }, []);
 
 
+  // Load the most recent page of generation history on mount
+  useEffect(() => {
+    const loadInitialHistory = async () => {
+      setIsLoadingHistory(true);
+      try {
+        const [page, total] = await Promise.all([loadHistoryPage(), countHistoryImages()]);
+        // Keep anything generated while the history was still loading
+        setGeneratedImages(prev => [...prev, ...page.images.filter(img => !prev.some(p => p.id === img.id))]);
+        setHistoryHasMore(page.hasMore);
+        setHistoryCursor(page.images[page.images.length - 1]?.timestamp);
+        setHistoryTotal(total);
+      } catch (error) {
+        console.error('Failed to load generation history:', error);
+      } finally {
+        setIsLoadingHistory(false);
+      }
+    };
+    loadInitialHistory();
+  }, []);
+
   // Save presets to localStorage whenever they change (skip initial render)
   useEffect(() => {
     // Save presets to localStorage
@@ -131,27 +397,237 @@ const App: React.FC = () => {
     localStorage.setItem('amzgen_prompt_settings', JSON.stringify(promptSettings));
   }, [promptSettings]);
 
+  // Version history of preset wording and prompt settings
+  const [versionHistory, setVersionHistory] = useState<VersionHistory>(loadVersionHistory);
+
+  useEffect(() => {
+    setVersionHistory(prev => recordPresetVersions(prev, presets));
+  }, [presets]);
+
+  // Settings change on every keystroke, so a version is recorded once typing pauses (or when a batch starts)
+  useEffect(() => {
+    const timer = setTimeout(() => setVersionHistory(prev => recordPromptSettingsVersion(prev, promptSettings)), 1000);
+    return () => clearTimeout(timer);
+  }, [promptSettings]);
+
+  useEffect(() => {
+    saveVersionHistory(versionHistory);
+  }, [versionHistory]);
+
+  // Save concurrency whenever it changes
+  useEffect(() => {
+    localStorage.setItem('amzgen_concurrency', String(concurrency));
+  }, [concurrency]);
+
+  // Save export settings whenever they change
+  useEffect(() => {
+    localStorage.setItem('amzgen_export_settings', JSON.stringify(exportSettings));
+  }, [exportSettings]);
+
+  // Save budget settings whenever they change
+  useEffect(() => {
+    localStorage.setItem('amzgen_budget_settings', JSON.stringify(budgetSettings));
+  }, [budgetSettings]);
+
+  // Save matting settings whenever they change
+  useEffect(() => {
+    localStorage.setItem('amzgen_matting_settings', JSON.stringify(mattingSettings));
+  }, [mattingSettings]);
+
+  // Save variation settings whenever they change
+  useEffect(() => {
+    localStorage.setItem('amzgen_variation_settings', JSON.stringify(variationSettings));
+  }, [variationSettings]);
+
+  // Save recommendation settings whenever they change
+  useEffect(() => {
+    localStorage.setItem('amzgen_recommendation_settings', JSON.stringify(recommendationSettings));
+  }, [recommendationSettings]);
+
+  // Save and apply task routing whenever it changes
+  useEffect(() => {
+    localStorage.setItem('amzgen_task_routing', JSON.stringify(taskRouting));
+    LLMServiceFactory.setTaskRouting(taskRouting);
+  }, [taskRouting]);
+
+  // Template preview uses the active product and the first selected preset when there are any
+  const previewPreset = displayPresets.find(p => selectedPresetIds.includes(p.id));
+  const templatePreviewVariables: TemplateVariables = {
+    basePrompt: previewPreset?.description,
+    quality: previewPreset?.quality,
+    ...(activeProduct ? productTemplateVariables(activeProduct) : {}),
+    brandColors: promptSettings.brandColors,
+    marketplace: promptSettings.marketplace,
+    aspectRatio: promptSettings.aspectRatio,
+  };
+
   // Sync settings with LLM Service
   useEffect(() => {
     const config: any = {
       apiKey: customApiKey || undefined, // Pass undefined if empty so it might fallback to env? No, existing logic handles it.
+      geminiApiKey: geminiApiKey || undefined, // Falls back to VITE_GEMINI_API_KEY when empty
       ...promptSettings
     };
     
     LLMServiceFactory.registerConfig(config);
-  }, [customApiKey, promptSettings]);
+  }, [customApiKey, geminiApiKey, promptSettings]);
 
-  // File Input Ref
+  // File Input Refs
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
   // Handlers
+  const addProductFiles = async (fileList: FileList | File[]) => {
+    const files = Array.from(fileList).filter(file => file.type.startsWith('image/'));
+    if (files.length === 0) return;
+
+    const newProducts: CatalogProduct[] = await Promise.all(files.map(async (file, index) => {
+      const previewUrl = await fileToBase64(file);
+      // Hashing needs a secure context; without it the product just isn't cached
+      const imageHash = await hashImage(previewUrl).catch(() => undefined);
+      return {
+        id: `${Date.now()}-${index}-${Math.random().toString().slice(2, 6)}`,
+        file,
+        previewUrl,
+        sku: file.name.replace(/\.[^.]+$/, ''), // File name (without extension) as the default SKU
+        title: '',
+        category: '',
+        imageHash,
+        profile: imageHash ? loadCachedProfile(imageHash) : undefined
+      };
+    }));
+
+    setProducts(prev => [...prev, ...newProducts]);
+    setActiveProductId(newProducts[0].id);
+  };
+
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      setSelectedFile(file);
-      
-      const base64 = await fileToBase64(file);
-      setPreviewUrl(base64);
+    if (e.target.files && e.target.files.length > 0) {
+      await addProductFiles(e.target.files);
+    }
+    e.target.value = ''; // Allow picking the same files again
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (e.dataTransfer.files.length > 0) {
+      await addProductFiles(e.dataTransfer.files);
+    }
+  };
+
+  const updateProduct = (id: string, changes: Partial<Pick<CatalogProduct, 'sku' | 'title' | 'category'>>) => {
+    setProducts(prev => prev.map(p => p.id === id ? { ...p, ...changes } : p));
+  };
+
+  const removeProduct = (id: string) => {
+    setProducts(prev => prev.filter(p => p.id !== id));
+    if (activeProductId === id) setActiveProductId(null);
+  };
+
+  const clearProducts = () => {
+    setProducts([]);
+    setActiveProductId(null);
+  };
+
+  // onUsage callback that books a call into the usage ledger
+  const trackUsage = (context: UsageContext) => (usage: LLMUsage) => {
+    setUsageRecords(recordUsage(usage, context));
+  };
+
+  // Analyze a product once per image; concurrent callers share the request
+  const ensureProductProfile = (product: CatalogProduct, options: { signal?: AbortSignal; batchId?: string; force?: boolean } = {}): Promise<ProductProfile> => {
+    if (!options.force) {
+      const cached = product.profile ?? (product.imageHash ? loadCachedProfile(product.imageHash) : undefined);
+      if (cached) return Promise.resolve(cached);
+    }
+    const key = product.imageHash ?? product.id;
+    const pending = profileRequestsRef.current.get(key);
+    if (pending) return pending;
+
+    const request = (async () => {
+      assertWithinBudget(budgetSettings);
+      setAnalyzingProductIds(prev => [...prev, product.id]);
+      try {
+        const profile = await analyzeProduct(product.previewUrl, {
+          signal: options.signal,
+          onUsage: trackUsage({ task: 'analyze', batchId: options.batchId, productId: product.id, productName: product.sku || product.title })
+        });
+        if (product.imageHash) {
+          saveCachedProfile(product.imageHash, profile, LLMServiceFactory.getTaskRouting().analyze.model);
+        }
+        // Duplicate uploads of the same image share the profile
+        setProducts(prev => prev.map(p => p.id === product.id || (product.imageHash && p.imageHash === product.imageHash) ? { ...p, profile } : p));
+        return profile;
+      } finally {
+        profileRequestsRef.current.delete(key);
+        setAnalyzingProductIds(prev => prev.filter(id => id !== product.id));
+      }
+    })();
+    profileRequestsRef.current.set(key, request);
+    return request;
+  };
+
+  const handleAnalyzeProduct = async (product: CatalogProduct) => {
+    try {
+      await ensureProductProfile(product, { force: !!product.profile });
+    } catch (error) {
+      console.error('Product analysis error:', error);
+      setProcessingState({ step: 'ERROR', message: error instanceof BudgetExceededError ? error.message : `产品分析失败：${describeLLMError(error)}` });
+    }
+  };
+
+  const handleClearUsage = () => {
+    if (!window.confirm('确定要清空所有用量记录吗？')) return;
+    clearUsageRecords();
+    setUsageRecords([]);
+  };
+
+  // Add a result to the grid and persist it to history
+  const addGeneratedImage = (image: GeneratedImage): Promise<void> => {
+    setGeneratedImages(prev => [image, ...prev]);
+    setHistoryTotal(prev => prev + 1);
+    return saveHistoryImage(image).catch(error => {
+      console.error('Failed to save image to history:', error);
+    });
+  };
+
+  const handleLoadMoreHistory = async () => {
+    setIsLoadingHistory(true);
+    try {
+      const page = await loadHistoryPage(historyCursor);
+      // Everything on this page is older than what's loaded, so there is nothing to de-duplicate
+      setGeneratedImages(prev => [...prev, ...page.images]);
+      setHistoryHasMore(page.hasMore);
+      setHistoryCursor(prev => page.images[page.images.length - 1]?.timestamp ?? prev);
+    } catch (error) {
+      console.error('Failed to load more history:', error);
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  const handleDeleteImage = async (image: GeneratedImage) => {
+    setGeneratedImages(prev => prev.filter(img => img.id !== image.id));
+    setSelectedImageIds(prev => prev.filter(id => id !== image.id));
+    setHistoryTotal(prev => Math.max(0, prev - 1));
+    try {
+      await deleteHistoryImage(image.id);
+    } catch (error) {
+      console.error('Failed to delete image from history:', error);
+    }
+  };
+
+  const handleClearHistory = async () => {
+    if (!window.confirm('确定要清空所有生成历史吗？此操作无法撤销。')) return;
+    try {
+      await clearHistory();
+      setGeneratedImages([]);
+      setSelectedImageIds([]);
+      setHistoryTotal(0);
+      setHistoryHasMore(false);
+      setHistoryCursor(undefined);
+    } catch (error) {
+      console.error('Failed to clear history:', error);
     }
   };
 
@@ -159,27 +635,45 @@ const App: React.FC = () => {
     if (!previewUrl) return;
 
     try {
+      assertWithinBudget(budgetSettings);
       setProcessingState({ step: 'ANALYZING_IMAGE', message: 'AI 正在分析图像并构思场景...' });
+
+      // The profile makes the suggestions product-specific, but they still work without it
+      let profile: ProductProfile | undefined;
+      if (activeProduct) {
+        try {
+          profile = await ensureProductProfile(activeProduct);
+        } catch (error) {
+          console.warn('Product analysis failed, recommending without a profile:', error);
+        }
+      }
       
-      // Use Gemini Pro for vision tasks
-      const recommendations = await recommendScenarios(previewUrl, LLMProvider.GEMINI_3_PRO_PREVIEW);
+      const recommendations = await recommendScenarios(previewUrl, {
+        profile,
+        count: recommendationSettings.count,
+        diversity: recommendationSettings.diversity,
+        onUsage: trackUsage({ task: 'recommend', productId: activeProduct?.id, productName: activeProduct?.sku || activeProduct?.title })
+      });
       
       const newPresets: ScenarioPreset[] = recommendations.map((rec, index) => ({
         id: `rec-${Date.now()}-${index}`,
-        name: `AI 建议 ${index + 1}`,
-        description: rec,
-        quality: 'High quality, photorealistic, 8k',
+        name: rec.name || `AI 建议 ${index + 1}`,
+        description: rec.description,
+        quality: rec.quality || 'High quality, photorealistic, 8k',
+        rationale: rec.rationale || undefined,
+        tags: suggestPresetTags({ name: rec.name, description: rec.description }),
         isRecommended: true
       }));
 
       // Add to temporary recommendations instead of main presets
       setAiRecommendations(newPresets);
+      setSavingRecommendation(null);
       // setSelectedPresetIds(prev => [...prev, ...newPresets.map(p => p.id)]); // Don't auto-select
       
       setProcessingState({ step: 'IDLE', message: '' });
     } catch (error) {
       console.error("Recommendation error:", error);
-      setProcessingState({ step: 'ERROR', message: '生成建议失败。' });
+      setProcessingState({ step: 'ERROR', message: error instanceof BudgetExceededError ? error.message : `生成建议失败：${describeLLMError(error)}` });
     }
   };
 
@@ -193,51 +687,309 @@ const App: React.FC = () => {
     });
   };
 
-  const handleGenerate = async () => {
-    if (!selectedFile || !previewUrl || selectedPresetIds.length === 0) return;
+  const updateJob = (id: string, changes: Partial<GenerationJob>) => {
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...changes } : job));
+  };
 
-    try {
-      // 1. Prepare Image (Remove BG if requested)
-      let imageToProcess = previewUrl;
-      if (removeBg) {
-        setProcessingState({ step: 'EXPANDING_PROMPT', message: '正在移除背景以便更好地集成...' });
-        imageToProcess = await removeWhiteBackground(selectedFile);
+  // Show a prompt for review and wait for the decision; stopping the batch rejects with an AbortError
+  const requestPromptReview = (review: PromptReview, signal: AbortSignal) => new Promise<PromptReviewDecision>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError('Generation stopped'));
+      return;
+    }
+    const onAbort = () => {
+      reviewResolversRef.current.delete(review.id);
+      setPromptReviews(prev => prev.filter(r => r.id !== review.id));
+      reject(createAbortError('Generation stopped'));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    reviewResolversRef.current.set(review.id, decision => {
+      signal.removeEventListener('abort', onAbort);
+      reviewResolversRef.current.delete(review.id);
+      // A regenerated prompt comes back to the same entry
+      if (decision.action !== 'regenerate') {
+        setPromptReviews(prev => prev.filter(r => r.id !== review.id));
       }
+      resolve(decision);
+    });
+    // Replace in place so a regenerated prompt keeps its position
+    setPromptReviews(prev => prev.some(r => r.id === review.id)
+      ? prev.map(r => r.id === review.id ? review : r)
+      : [...prev, review]);
+  });
+
+  const updatePromptReview = (id: string, changes: Partial<PromptReview>) => {
+    setPromptReviews(prev => prev.map(review => review.id === id ? { ...review, ...changes } : review));
+  };
 
-      const total = selectedPresetIds.length;
-      let completed = 0;
+  const resolvePromptReview = (id: string, decision: PromptReviewDecision) => {
+    reviewResolversRef.current.get(id)?.(decision);
+  };
 
-      // Loop through all selected presets (check both lists)
-      for (const presetId of selectedPresetIds) {
-        const selectedPreset = displayPresets.find(p => p.id === presetId);
-        if (!selectedPreset) continue;
-        
-        completed++;
-        const currentPresetName = selectedPreset.name;
+  // Stop: abort in-flight requests and drop everything still queued
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+    queueRef.current?.clear(createAbortError('Generation stopped'));
+    setJobs(prev => prev.map(job => job.status === 'queued' ? { ...job, status: 'cancelled' } : job));
+    setPromptReviews([]);
+  };
 
-        // 2. Expand Prompt
-        setProcessingState({ 
-            step: 'EXPANDING_PROMPT', 
-            message: `[${completed}/${total}] 正在设计 "${currentPresetName}" 场景...` 
-        });
-        
-        const basePrompt = selectedPreset.description;
-        // Always use Gemini 3 Pro Preview for prompt expansion as requested
-        const expandedPrompt = await expandPrompt(basePrompt, LLMProvider.GEMINI_3_PRO_PREVIEW, customContext);
-        console.log(`Expanded Prompt for ${currentPresetName}:`, expandedPrompt);
-
-        // 3. Generate Image
-        setProcessingState({ 
-            step: 'GENERATING_IMAGE', 
-            message: `[${completed}/${total}] 正在渲染 "${currentPresetName}"...` 
+  const toggleQueuePause = () => {
+    const queue = queueRef.current;
+    if (!queue) return;
+    if (queue.isPaused) {
+      queue.resume();
+    } else {
+      queue.pause();
+    }
+    setIsQueuePaused(queue.isPaused);
+  };
+
+  const dismissJob = (job: GenerationJob) => {
+    setJobs(prev => prev.filter(j => j.id !== job.id));
+  };
+
+  // An A/B plan renders two versions of one preset against the active product instead of the selected presets
+  const handleGenerate = async (abPlan?: ABTestPlan) => {
+    const abPreset = abPlan && presets.find(p => p.id === abPlan.presetId);
+    if (products.length === 0 || (abPlan ? !abPreset : selectedPresetIds.length === 0)) return;
+    if (budgetStatus.exceeded) {
+      setProcessingState({ step: 'ERROR', message: new BudgetExceededError(budgetStatus).message });
+      return;
+    }
+
+    // Record edits that haven't been versioned yet so the images point at what they were rendered with
+    const history = recordPromptSettingsVersion(recordPresetVersions(versionHistory, presets), promptSettings);
+    if (history !== versionHistory) setVersionHistory(history);
+    const expandsPerProduct = (settings: GlobalPromptSettings) => templateVariableNames(settings.expandPromptUserTemplate)
+      .some(name => PRODUCT_TEMPLATE_VARIABLES.includes(name));
+
+    // Snapshot the catalog, presets and settings so edits during the run don't affect it
+    const runProducts = abPlan ? [activeProduct ?? products[0]] : [...products];
+    const runArms: RunArm[] = abPlan && abPreset
+      ? abPlan.arms.map(arm => ({
+          variant: arm.variant,
+          preset: applyPresetVersion(abPreset, arm.presetVersion),
+          presetVersion: arm.presetVersion.version,
+          settings: arm.promptVersion.settings,
+          promptVersion: arm.promptVersion.version,
+          expansionPerProduct: expandsPerProduct(arm.promptVersion.settings),
+        }))
+      : selectedPresetIds
+          .map(presetId => displayPresets.find(p => p.id === presetId))
+          .filter((preset): preset is ScenarioPreset => !!preset)
+          .map(preset => ({
+            preset,
+            presetVersion: preset.isRecommended ? undefined : currentPresetVersion(history, preset.id)?.version,
+            settings: promptSettings,
+            promptVersion: currentPromptSettingsVersion(history)?.version,
+            expansionPerProduct: expandsPerProduct(promptSettings),
+          }));
+
+    // A broken template would send half-rendered tags to the model; warnings (unknown variables) don't block
+    const templateError = runArms.flatMap(({ settings }) => [
+      ...validateTemplate(settings.expandPromptUserTemplate, 'expand'),
+      ...validateTemplate(settings.generationPromptTemplate, 'generate'),
+    ]).find(issue => issue.level === 'error');
+    if (templateError) {
+      setProcessingState({ step: 'ERROR', message: `提示词模板有误（第 ${templateError.line} 行：${templateError.message}），请在设置中修正` });
+      return;
+    }
+
+    try {
+      // 1. Create one job per product × preset × variation (check both preset lists)
+      const batchId = Date.now().toString();
+      const generateModel = LLMServiceFactory.getTaskRouting().generate.model;
+      const { variationCount, temperature, seed, reexpandPerVariation, reviewPrompts } = variationSettings;
+      const batch = runProducts.flatMap(product => runArms.flatMap(arm =>
+        Array.from({ length: variationCount }, (_, variationIndex) => ({
+          product,
+          arm,
+          preset: arm.preset,
+          job: {
+            id: `${batchId}-${product.id}-${arm.preset.id}${arm.variant ? `-${arm.variant}` : ''}-${variationIndex}`,
+            batchId,
+            productId: product.id,
+            productName: product.sku || product.title,
+            presetId: arm.preset.id,
+            presetName: arm.preset.name,
+            variationIndex,
+            status: 'queued',
+            abVariant: arm.variant
+          } as GenerationJob
+        }))
+      ));
+
+      // 2. Prepare each product image once (Remove BG if requested)
+      const preparedImages = new Map<string, Promise<string>>();
+      const getProductImage = (product: CatalogProduct): Promise<string> => {
+        if (!removeBg) return Promise.resolve(product.previewUrl);
+        if (!preparedImages.has(product.id)) {
+          preparedImages.set(product.id, removeWhiteBackground(product.file, mattingSettings));
+        }
+        return preparedImages.get(product.id)!;
+      };
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+      const { signal } = abortController;
+
+      const usageContext = (task: LLMTask, product: CatalogProduct): UsageContext => ({
+        task,
+        batchId,
+        productId: product.id,
+        productName: product.sku || product.title
+      });
+
+      // Products are analyzed only when a template uses the analysis; a failed analysis leaves those variables empty
+      const needsProfile = runArms.flatMap(({ settings }) => [settings.expandPromptUserTemplate, settings.generationPromptTemplate])
+        .some(template => templateVariableNames(template).some(name => PROFILE_TEMPLATE_VARIABLES.includes(name)));
+      const profiles = new Map<string, Promise<ProductProfile | undefined>>();
+      const getProductProfile = (product: CatalogProduct): Promise<ProductProfile | undefined> => {
+        if (!needsProfile) return Promise.resolve(undefined);
+        if (!profiles.has(product.id)) {
+          profiles.set(product.id, ensureProductProfile(product, { signal, batchId }).catch(error => {
+            if (isAbortError(error)) throw error;
+            console.warn(`Product analysis failed for ${product.sku}:`, error);
+            return undefined;
+          }));
+        }
+        return profiles.get(product.id)!;
+      };
+
+      const templateVariables = (product: CatalogProduct, { preset, settings }: RunArm, profile?: ProductProfile): TemplateVariables => ({
+        ...productTemplateVariables(product, profile ?? product.profile),
+        brandColors: settings.brandColors,
+        marketplace: settings.marketplace,
+        aspectRatio: settings.aspectRatio,
+        quality: preset.quality,
+      });
+
+      // Expand a preset and keep the usage of that call for the resulting images
+      const runExpansion = async (arm: RunArm, product: CatalogProduct, onToken: (delta: string, text: string) => void) => {
+        let usage: LLMUsage | undefined;
+        const profile = await getProductProfile(product);
+        const track = trackUsage(usageContext('expand', product));
+        const prompt = await expandPrompt(arm.preset.description, customContext, {
+          signal,
+          onToken,
+          variables: templateVariables(product, arm, profile),
+          systemInstruction: arm.settings.expandPromptSystem,
+          userTemplate: arm.settings.expandPromptUserTemplate,
+          onUsage: (callUsage) => {
+            usage = callUsage;
+            track(callUsage);
+          }
         });
-        // Always use Nano Banana Pro for image generation as requested
+        return { prompt, usage };
+      };
+
+      // Variations share one expanded prompt per preset unless re-expansion is enabled.
+      // The prompt streams onto every pending card that is waiting for it.
+      // A shared expansion is booked to the product whose job requested it first.
+      // When the expansion template uses product variables, each product gets its own expansion.
+      // The arms of an A/B test never share an expansion.
+      const expansionKey = ({ preset, variant, expansionPerProduct }: RunArm, product: CatalogProduct, job: GenerationJob) => {
+        if (reexpandPerVariation) return job.id;
+        const presetKey = variant ? `${preset.id}:${variant}` : preset.id;
+        return expansionPerProduct ? `${presetKey}:${product.id}` : presetKey;
+      };
+      const sharedExpansions = new Map<string, Promise<Expansion>>();
+      const getExpandedPrompt = (arm: RunArm, product: CatalogProduct, job: GenerationJob) => {
+        if (reexpandPerVariation) {
+          return runExpansion(arm, product, (_delta, text) => updateJob(job.id, { streamedPrompt: text }));
+        }
+        const key = expansionKey(arm, product, job);
+        if (!sharedExpansions.has(key)) {
+          sharedExpansions.set(key, runExpansion(arm, product, (_delta, text) => setJobs(prev => prev.map(j =>
+            j.batchId === batchId && j.presetId === arm.preset.id && j.abVariant === arm.variant
+              && (!arm.expansionPerProduct || j.productId === product.id) && j.status !== 'rendering'
+              ? { ...j, streamedPrompt: text }
+              : j
+          ))));
+        }
+        return sharedExpansions.get(key)!;
+      };
+
+      // With review enabled every expansion waits for the user, once per shared prompt.
+      // Regenerated prompts stream into the review; the image keeps the usage of the expansion it was rendered from.
+      const reviewedExpansions = new Map<string, Promise<Expansion>>();
+      const reviewExpansion = async (key: string, arm: RunArm, product: CatalogProduct, initial: Expansion): Promise<Expansion> => {
+        const reviewId = `${batchId}:${key}`;
+        const review: PromptReview = {
+          id: reviewId,
+          batchId,
+          presetName: arm.variant ? `${arm.preset.name} · ${arm.variant}` : arm.preset.name,
+          productName: arm.expansionPerProduct || reexpandPerVariation || runProducts.length === 1 ? product.sku || product.title : undefined,
+          jobCount: batch.filter(entry => expansionKey(entry.arm, entry.product, entry.job) === key).length,
+          prompt: initial.prompt,
+          status: 'pending'
+        };
+        let expansion = initial;
+        let error: string | undefined;
+        while (true) {
+          const decision = await requestPromptReview({ ...review, prompt: expansion.prompt, error }, signal);
+          if (decision.action === 'approve') return { ...expansion, prompt: decision.prompt };
+          if (decision.action === 'skip') throw new PromptSkippedError();
+          updatePromptReview(reviewId, { status: 'regenerating', prompt: '', error: undefined });
+          try {
+            expansion = await runExpansion(arm, product, (_delta, text) => updatePromptReview(reviewId, { prompt: text }));
+            error = undefined;
+          } catch (regenerateError) {
+            if (isAbortError(regenerateError)) throw regenerateError;
+            // Keep the previous prompt so a failed retry doesn't lose the batch
+            error = describeLLMError(regenerateError);
+          }
+        }
+      };
+      const getReviewedPrompt = (arm: RunArm, product: CatalogProduct, job: GenerationJob, expansion: Expansion) => {
+        const key = expansionKey(arm, product, job);
+        if (!reviewedExpansions.has(key)) {
+          reviewedExpansions.set(key, reviewExpansion(key, arm, product, expansion));
+        }
+        return reviewedExpansions.get(key)!;
+      };
+
+      setJobs(batch.map(({ job }) => job));
+      // Per-job progress is shown on the pending cards
+      setProcessingState({ step: 'GENERATING_IMAGE', message: '' });
+
+      type BatchEntry = typeof batch[number];
+
+      const expandJob = async ({ job, product, preset, arm }: BatchEntry) => {
+        if (signal.aborted) throw createAbortError('Generation stopped');
+        // Checked per job so a run stops starting new work once the cap is reached
+        assertWithinBudget(budgetSettings);
+        updateJob(job.id, { status: 'expanding' });
+        const [image, expansion] = await Promise.all([getProductImage(product), getExpandedPrompt(arm, product, job)]);
+        console.log(`Expanded Prompt for ${preset.name}:`, expansion.prompt);
+        return { image, expansion };
+      };
+
+      const renderJob = async ({ job, product, preset, arm }: BatchEntry, imageToProcess: string, expansion: Expansion) => {
+        if (signal.aborted) throw createAbortError('Generation stopped');
+        assertWithinBudget(budgetSettings);
+        const expandedPrompt = expansion.prompt;
+
+        updateJob(job.id, { status: 'rendering', streamedPrompt: expandedPrompt });
+        const profile = await getProductProfile(product);
+        const variationSeed = seed !== null ? seed + job.variationIndex : undefined;
+        let generateUsage: LLMUsage | undefined;
+        const trackGenerate = trackUsage(usageContext('generate', product));
         const generatedImageUrl = await generateProductScene(
           imageToProcess, 
           expandedPrompt, 
-          LLMProvider.GEMINI_3_PRO_IMAGE_PREVIEW,
           {
-            quality: selectedPreset.quality
+            quality: preset.quality,
+            variables: templateVariables(product, arm, profile),
+            template: arm.settings.generationPromptTemplate,
+            temperature: temperature ?? undefined,
+            seed: variationSeed,
+            signal,
+            onUsage: (usage) => {
+              generateUsage = usage;
+              trackGenerate(usage);
+            }
           }
         );
 
@@ -246,32 +998,133 @@ const App: React.FC = () => {
           id: Date.now().toString() + Math.random().toString().slice(2, 8),
           url: generatedImageUrl,
           prompt: expandedPrompt,
-          vibe: currentPresetName, // Use the preset name as the label
-          timestamp: Date.now()
+          vibe: preset.name, // Use the preset name as the label
+          timestamp: Date.now(),
+          presetId: preset.id,
+          sourceImage: product.previewUrl,
+          batchId,
+          variationIndex: job.variationIndex,
+          seed: variationSeed,
+          model: generateModel,
+          productId: product.id,
+          sku: product.sku || undefined,
+          productTitle: product.title || undefined,
+          usage: { expand: expansion.usage, generate: generateUsage },
+          presetVersion: arm.presetVersion,
+          promptVersion: arm.promptVersion,
+          presetSnapshot: { description: preset.description, quality: preset.quality ?? '' },
+          promptSettingsSnapshot: arm.settings,
+          abTestId: arm.variant ? batchId : undefined,
+          abVariant: arm.variant
         };
 
-        setGeneratedImages(prev => [newImage, ...prev]);
-      }
+        addGeneratedImage(newImage);
+        updateJob(job.id, { status: 'done' });
+      };
 
-      setProcessingState({ step: 'COMPLETED', message: '所有场景生成成功！' });
+      // 3. Run the matrix through the worker pool; a failed job doesn't abort the rest.
+      // A job waiting for review leaves the pool, so approved prompts render while others are still open.
+      const queue = new JobQueue(concurrency);
+      queueRef.current = queue;
+      setIsQueuePaused(false);
+      const results = await Promise.allSettled(batch.map(async entry => {
+        const { job, product, preset, arm } = entry;
+        try {
+          if (!reviewPrompts) {
+            await queue.add(async () => {
+              const { image, expansion } = await expandJob(entry);
+              await renderJob(entry, image, expansion);
+            });
+            return;
+          }
+          const { image, expansion } = await queue.add(() => expandJob(entry));
+          updateJob(job.id, { status: 'awaiting_review' });
+          const approved = await getReviewedPrompt(arm, product, job, expansion);
+          updateJob(job.id, { status: 'queued', streamedPrompt: approved.prompt });
+          await queue.add(() => renderJob(entry, image, approved));
+        } catch (error) {
+          if (isAbortError(error)) {
+            updateJob(job.id, { status: 'cancelled' });
+          } else if (error instanceof PromptSkippedError) {
+            updateJob(job.id, { status: 'skipped' });
+          } else {
+            console.error(`Generation failed for ${product.sku} / ${preset.name}:`, error);
+            updateJob(job.id, { status: 'failed', error: describeLLMError(error) });
+          }
+          throw error;
+        }
+      }));
 
-      setTimeout(() => {
-        setProcessingState({ step: 'IDLE', message: '' });
-      }, 3000);
+      queueRef.current = null;
+      abortControllerRef.current = null;
+      setIsQueuePaused(false);
+
+      // Finished jobs are now result cards; only failures stay in the grid
+      setJobs(prev => prev.filter(job => job.status !== 'done' && job.status !== 'cancelled' && job.status !== 'skipped'));
+      setPromptReviews(prev => prev.filter(review => review.batchId !== batchId));
+
+      const cancelledCount = results.filter(r => r.status === 'rejected' && isAbortError(r.reason)).length;
+      const blockedCount = results.filter(r => r.status === 'rejected' && r.reason instanceof BudgetExceededError).length;
+      const skippedCount = results.filter(r => r.status === 'rejected' && r.reason instanceof PromptSkippedError).length;
+      const failedCount = results.filter(r => r.status === 'rejected').length - cancelledCount - blockedCount - skippedCount;
+      const succeededCount = results.length - failedCount - cancelledCount - blockedCount - skippedCount;
+      const skippedNote = skippedCount > 0 ? `，${skippedCount} 个已跳过` : '';
+      const batchCost = formatTotalsCost(sumUsage(loadUsageRecords().filter(r => r.batchId === batchId)));
+      if (abPlan && succeededCount > 0) setAbCompareId(batchId);
+      if (cancelledCount > 0) {
+        setProcessingState(failedCount > 0
+          ? { step: 'ERROR', message: `已停止：${succeededCount} 个成功，${failedCount} 个失败，${cancelledCount} 个已取消${skippedNote}。` }
+          : { step: 'COMPLETED', message: `已停止：${succeededCount} 个成功，${cancelledCount} 个已取消${skippedNote}。` });
+      } else if (blockedCount > 0) {
+        setProcessingState({ step: 'ERROR', message: `已达到预算上限：${succeededCount} 个成功，${failedCount} 个失败，${blockedCount} 个未执行${skippedNote}。本批次花费 ${batchCost}。` });
+      } else if (failedCount === 0) {
+        setProcessingState({ step: 'COMPLETED', message: skippedCount > 0
+          ? `生成完成：${succeededCount} 个成功${skippedNote}。本批次花费 ${batchCost}。`
+          : `所有场景生成成功！本批次花费 ${batchCost}。` });
+        setTimeout(() => {
+          setProcessingState({ step: 'IDLE', message: '' });
+        }, 3000);
+      } else if (failedCount === results.length) {
+        // Every job usually fails for the same reason (bad key, no credit), so surface the first one
+        const firstFailure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+        setProcessingState({ step: 'ERROR', message: `所有场景均生成失败。${describeLLMError(firstFailure?.reason)}` });
+      } else {
+        setProcessingState({ step: 'ERROR', message: `${succeededCount} 个场景生成成功，${failedCount} 个失败${skippedNote}。` });
+      }
 
     } catch (error) {
       console.error(error);
-      setProcessingState({ step: 'ERROR', message: '出错了。请检查您的 API 密钥并重试。' });
+      setProcessingState({ step: 'ERROR', message: `出错了。${describeLLMError(error)}` });
     }
   };
 
-  const handleDownload = (url: string) => {
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `amz-gen-${Date.now()}.png`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handleDownload = (image: GeneratedImage) => {
+    setExportingImage(image);
+  };
+
+  const toggleImageSelection = (image: GeneratedImage) => {
+    setSelectedImageIds(prev => prev.includes(image.id) ? prev.filter(id => id !== image.id) : [...prev, image.id]);
+  };
+
+  const toggleSelectAllImages = () => {
+    setSelectedImageIds(prev => prev.length === generatedImages.length ? [] : generatedImages.map(img => img.id));
+  };
+
+  const handleDownloadZip = async () => {
+    // Keep grid order so slot numbering matches what the user sees
+    const images = generatedImages.filter(img => selectedImageIds.includes(img.id));
+    if (images.length === 0) return;
+
+    setIsExportingZip(true);
+    try {
+      const zip = await exportImagesAsZip(images, exportSettings);
+      downloadBlob(zip, `amz-gen-${Date.now()}.zip`);
+    } catch (error) {
+      console.error('ZIP export failed:', error);
+      alert(`导出 ZIP 失败：${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      setIsExportingZip(false);
+    }
   };
 
   // Preset Management Handlers
@@ -281,7 +1134,8 @@ const App: React.FC = () => {
         ...p, 
         name: newPresetName, 
         description: newPresetDesc,
-        quality: newPresetQuality
+        quality: newPresetQuality,
+        tags: newPresetTags
       } : p
     ));
     setEditingPresetId(null);
@@ -292,6 +1146,7 @@ const App: React.FC = () => {
     setNewPresetName(preset.name);
     setNewPresetDesc(preset.description);
     setNewPresetQuality(preset.quality || 'High quality, photorealistic, 8k');
+    setNewPresetTags(preset.tags ?? []);
     setIsAddingPreset(false);
   };
 
@@ -307,13 +1162,61 @@ const App: React.FC = () => {
       id: newId,
       name: newPresetName,
       description: newPresetDesc,
-      quality: newPresetQuality
+      quality: newPresetQuality,
+      tags: newPresetTags
     };
     setPresets(prev => [...prev, newPreset]);
     setIsAddingPreset(false);
     setNewPresetName('');
     setNewPresetDesc('');
     setNewPresetQuality('High quality, photorealistic, 8k');
+    setNewPresetTags([]);
+  };
+
+  const handleExportPresets = () => {
+    const library = createPresetLibraryFile(presets, exportIncludesPromptSettings ? promptSettings : undefined);
+    const blob = new Blob([JSON.stringify(library, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `amzgen-presets-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleImportPresets = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so the same file can be picked again
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const library = parsePresetLibraryFile(await file.text());
+      const result = mergePresets(presets, library.presets, conflictStrategy);
+      setPresets(result.presets);
+      let message = `已导入「${file.name}」：${describeMergeResult(result)}`;
+      if (library.promptSettings && window.confirm('文件包含提示词设置，是否替换当前的提示词模板和品牌设置？')) {
+        setPromptSettings(prev => ({ ...prev, ...library.promptSettings }));
+        message += '，提示词设置已更新';
+      }
+      setPresetLibraryMessage(message);
+    } catch (error) {
+      console.error('Preset import failed:', error);
+      alert(`导入预设失败：${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  };
+
+  const installPresetPack = (pack: PresetPack) => {
+    const result = mergePresets(presets, pack.presets, conflictStrategy);
+    setPresets(result.presets);
+    setPresetLibraryMessage(`已安装「${pack.name}」：${describeMergeResult(result)}`);
+  };
+
+  // Move an AI recommendation into the library; a selected recommendation stays selected under its new ID
+  const saveRecommendationToLibrary = () => {
+    if (!savingRecommendation) return;
+    const recommendation = aiRecommendations.find(rec => rec.id === savingRecommendation.id);
+    if (!recommendation) return;
+    const preset = recommendationToPreset(recommendation, savingRecommendation.name, savingRecommendation.tags);
+    setPresets(prev => [...prev, preset]);
+    setAiRecommendations(prev => prev.filter(rec => rec.id !== recommendation.id));
+    setSelectedPresetIds(prev => prev.map(id => id === recommendation.id ? preset.id : id));
+    setSavingRecommendation(null);
   };
 
   const handleSaveApiKey = () => {
@@ -333,52 +1236,132 @@ const App: React.FC = () => {
     LLMServiceFactory.registerConfig({}); // Reset to use env var if available
   };
 
+  const handleSaveGeminiKey = () => {
+    if (geminiApiKey.trim()) {
+      localStorage.setItem('gemini_api_key', geminiApiKey.trim());
+      setGeminiApiKey(geminiApiKey.trim());
+      setIsGeminiKeySaved(true);
+    } else {
+      handleClearGeminiKey();
+    }
+  };
+
+  const handleClearGeminiKey = () => {
+    localStorage.removeItem('gemini_api_key');
+    setGeminiApiKey('');
+    setIsGeminiKeySaved(false);
+  };
+
   // Editor Handlers
   const handleEditImage = (image: GeneratedImage) => {
+    setLightboxImageId(null);
     setEditingImage(image);
   };
 
+  const handleViewImage = (image: GeneratedImage) => {
+    setLightboxImageId(image.id);
+  };
+
+  const handleShowVersions = (image: GeneratedImage) => {
+    setVersionTreeImage(image);
+  };
+
+  // Reverting never rewrites history: the restored content becomes a new version on top of the head
+  const handleRevertVersion = async (version: GeneratedImage, head: GeneratedImage): Promise<GeneratedImage> => {
+    const restored: GeneratedImage = {
+      ...version,
+      id: Date.now().toString() + Math.random().toString().slice(2, 8),
+      timestamp: Date.now(),
+      parentId: head.id,
+      rootId: head.rootId || head.id,
+      edit: undefined,
+      usage: undefined, // Restoring makes no API call
+      revertedFromId: version.id
+    };
+    await addGeneratedImage(restored);
+    return restored;
+  };
+
+  const handleBranchVersion = (version: GeneratedImage) => {
+    setVersionTreeImage(null);
+    setEditingImage(version);
+  };
+
   const handleEditorGenerate = async (maskBase64: string, prompt: string) => {
     if (!editingImage) return;
     
     setIsEditorProcessing(true);
     try {
+        assertWithinBudget(budgetSettings);
         console.log('Generating edit with:', {
             originalImage: editingImage.url,
             mask: maskBase64.substring(0, 50) + '...',
             prompt
         });
         
-        // Call actual API via Factory
-        const editedImageUrl = await LLMServiceFactory.getService(LLMProvider.GEMINI_3_PRO_IMAGE_PREVIEW).editImage(
+        // Call actual API via the service routed to editing
+        const abortController = new AbortController();
+        editAbortControllerRef.current = abortController;
+        let editUsage: LLMUsage | undefined;
+        const trackEdit = trackUsage({ task: 'edit', productId: editingImage.productId, productName: editingImage.sku || editingImage.productTitle });
+        const editedImageUrl = await editImage(
             editingImage.url,
             maskBase64,
-            prompt
+            prompt,
+            {
+              signal: abortController.signal,
+              onUsage: (usage) => {
+                editUsage = usage;
+                trackEdit(usage);
+              }
+            }
         );
         
-        // Add the result to generatedImages
+        // Add the result to generatedImages as a new version of the edited image
+        const editModel = LLMServiceFactory.getTaskRouting().edit.model;
         const newImage: GeneratedImage = {
             id: Date.now().toString() + Math.random().toString().slice(2, 8),
             url: editedImageUrl,
             prompt: `[编辑] ${prompt}`,
-            vibe: `${editingImage.vibe}（已编辑）`,
-            timestamp: Date.now()
+            vibe: editingImage.vibe,
+            timestamp: Date.now(),
+            presetId: editingImage.presetId,
+            sourceImage: editingImage.sourceImage,
+            model: editModel,
+            productId: editingImage.productId,
+            sku: editingImage.sku,
+            productTitle: editingImage.productTitle,
+            parentId: editingImage.id,
+            rootId: editingImage.rootId || editingImage.id,
+            edit: { instruction: prompt, mask: maskBase64, model: editModel },
+            usage: { edit: editUsage }
         };
         
-        setGeneratedImages(prev => [newImage, ...prev]);
+        addGeneratedImage(newImage);
         setEditingImage(null); // Close modal on success
         
     } catch (error) {
+        if (isAbortError(error)) return; // Editor was closed while processing
         console.error("Editor error:", error);
-        alert(`处理编辑请求失败：${error instanceof Error ? error.message : '未知错误'}`);
+        alert(error instanceof BudgetExceededError ? error.message : `处理编辑请求失败：${describeLLMError(error)}`);
     } finally {
+        editAbortControllerRef.current = null;
         setIsEditorProcessing(false);
     }
   };
 
+  const resultGroups = groupResults(
+    jobs.filter(job => job.status !== 'done'),
+    generatedImages,
+    presetId => displayPresets.find(p => p.id === presetId)?.name
+  );
+  // Lightbox navigation follows the on-screen order
+  const orderedImages = resultGroups.flatMap(group => group.images);
+  const lightboxIndex = orderedImages.findIndex(img => img.id === lightboxImageId);
+
   return (
     <div className="flex min-h-screen bg-gray-50">
-      <Sidebar activeTab={activeTab} onTabChange={setActiveTab} />
+      <Sidebar activeTab={activeTab} onTabChange={setActiveTab} budgetSettings={budgetSettings} budgetStatus={budgetStatus} />
       
       <main className="flex-1 md:ml-64 p-4 md:p-6">
         {activeTab === 'generator' ? (
@@ -398,16 +1381,18 @@ const App: React.FC = () => {
                   <div 
                     className={`border-2 border-dashed rounded-lg p-4 text-center transition-colors cursor-pointer ${previewUrl ? 'border-primary bg-orange-50' : 'border-gray-300 hover:border-primary hover:bg-gray-50'}`}
                     onClick={() => fileInputRef.current?.click()}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={handleDrop}
                   >
                     {previewUrl ? (
                       <div className="relative">
                         <img src={previewUrl} alt="预览" className="max-h-48 mx-auto object-contain" />
-                        <button className="absolute top-0 right-0 bg-white/80 p-1 rounded-full text-xs hover:bg-white text-gray-600">更换</button>
+                        <button className="absolute top-0 right-0 bg-white/80 p-1 rounded-full text-xs hover:bg-white text-gray-600">添加</button>
                       </div>
                     ) : (
                       <div className="flex flex-col items-center gap-2 py-4">
                         <ImageIcon className="w-10 h-10 text-gray-300" />
-                        <p className="text-sm text-gray-500">点击上传或拖放</p>
+                        <p className="text-sm text-gray-500">点击上传或拖放（可多选）</p>
                         <span className="text-xs text-gray-400">支持 PNG、JPG（白色背景）</span>
                       </div>
                     )}
@@ -416,10 +1401,56 @@ const App: React.FC = () => {
                       ref={fileInputRef} 
                       className="hidden" 
                       accept="image/*"
+                      multiple
                       onChange={handleFileChange}
                     />
                   </div>
 
+                  <button
+                    onClick={() => folderInputRef.current?.click()}
+                    className="mt-2 w-full text-xs text-gray-500 hover:text-primary flex items-center justify-center gap-1 transition-colors"
+                  >
+                    <FolderOpen className="w-3.5 h-3.5" /> 导入整个文件夹
+                  </button>
+                  <input
+                    type="file"
+                    ref={folderInputRef}
+                    className="hidden"
+                    multiple
+                    onChange={handleFileChange}
+                    {...{ webkitdirectory: '' }} // Not in React's input typings
+                  />
+
+                  {products.length > 0 && (
+                    <div className="mt-4">
+                      <ProductCatalog
+                        products={products}
+                        activeProductId={activeProduct?.id ?? null}
+                        onSelect={setActiveProductId}
+                        onUpdate={updateProduct}
+                        onRemove={removeProduct}
+                        onClear={clearProducts}
+                      />
+                    </div>
+                  )}
+
+                  {previewUrl && (
+                    <div className="mt-3">
+                      <p className="text-xs text-gray-500 mb-1">主图合规检查（原图）</p>
+                      <ComplianceBadges imageUrl={previewUrl} />
+                    </div>
+                  )}
+
+                  {activeProduct && (
+                    <div className="mt-3">
+                      <ProductProfileCard
+                        profile={activeProduct.profile}
+                        isAnalyzing={analyzingProductIds.includes(activeProduct.id)}
+                        onAnalyze={() => handleAnalyzeProduct(activeProduct)}
+                      />
+                    </div>
+                  )}
+
                   {previewUrl && (
                     <div className="mt-4 flex flex-col gap-3">
                         <button
@@ -435,6 +1466,31 @@ const App: React.FC = () => {
                            AI 场景推荐
                         </button>
 
+                        <div className="flex items-center gap-2 text-xs text-gray-600 -mt-1">
+                          <label htmlFor="recommendationCount">数量</label>
+                          <select
+                            id="recommendationCount"
+                            value={recommendationSettings.count}
+                            onChange={(e) => setRecommendationSettings(prev => ({ ...prev, count: Number(e.target.value) }))}
+                            className="border border-gray-300 rounded px-1.5 py-1 bg-white focus:ring-1 focus:ring-primary outline-none"
+                          >
+                            {Array.from({ length: MAX_RECOMMENDATION_COUNT }, (_, index) => index + 1).map(count => (
+                              <option key={count} value={count}>{count}</option>
+                            ))}
+                          </select>
+                          <label htmlFor="recommendationDiversity" className="ml-2">风格</label>
+                          <select
+                            id="recommendationDiversity"
+                            value={recommendationSettings.diversity}
+                            onChange={(e) => setRecommendationSettings(prev => ({ ...prev, diversity: e.target.value as RecommendationDiversity }))}
+                            className="flex-1 border border-gray-300 rounded px-1.5 py-1 bg-white focus:ring-1 focus:ring-primary outline-none"
+                          >
+                            {(Object.keys(DIVERSITY_LABELS) as RecommendationDiversity[]).map(diversity => (
+                              <option key={diversity} value={diversity}>{DIVERSITY_LABELS[diversity]}</option>
+                            ))}
+                          </select>
+                        </div>
+
                         <div className="flex items-center gap-2">
                           <input 
                             type="checkbox" 
@@ -447,6 +1503,14 @@ const App: React.FC = () => {
                             自动移除白色背景
                           </label>
                         </div>
+
+                        {removeBg && activeProduct && (
+                          <MattePreview
+                            file={activeProduct.file}
+                            settings={mattingSettings}
+                            onSettingsChange={setMattingSettings}
+                          />
+                        )}
                     </div>
                   )}
                 </div>
@@ -465,9 +1529,23 @@ const App: React.FC = () => {
                            <label className="text-sm font-medium text-gray-700">选择场景（多选）</label>
                            <span className="text-xs bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full">{selectedPresetIds.length} 已选择</span>
                        </div>
+
+                       {/* Tag Filter */}
+                       <div className="flex flex-wrap gap-1.5 mb-2">
+                          {[null, ...PRESET_TAGS].map(tag => (
+                            <button
+                              key={tag ?? 'all'}
+                              onClick={() => setPresetTagFilter(tag)}
+                              className={`text-xs px-2 py-0.5 rounded-full border transition-colors
+                                ${presetTagFilter === tag ? 'bg-orange-50 border-primary text-primary' : 'bg-white border-gray-200 text-gray-500 hover:border-gray-300'}`}
+                            >
+                              {tag ? PRESET_TAG_LABELS[tag] : '全部'}
+                            </button>
+                          ))}
+                       </div>
                        
                        <div className="grid grid-cols-2 gap-2 pr-1">
-                          {displayPresets.map(preset => {
+                          {visiblePresets.map(preset => {
                             const isSelected = selectedPresetIds.includes(preset.id);
                             return (
                                 <div key={preset.id} className="relative group">
@@ -489,11 +1567,24 @@ const App: React.FC = () => {
                                         </div>
                                         {isSelected && <Check className="w-4 h-4 flex-shrink-0" />}
                                     </button>
+
+                                    {preset.isRecommended && (
+                                        <button
+                                            onClick={() => setSavingRecommendation({ id: preset.id, name: preset.name, tags: preset.tags ?? [] })}
+                                            className="absolute -top-1.5 -right-1.5 p-1 rounded-full bg-white border border-purple-200 text-purple-600 hover:bg-purple-50 shadow-sm"
+                                            title="保存到预设库"
+                                        >
+                                            <BookmarkPlus className="w-3 h-3" />
+                                        </button>
+                                    )}
                                     
                                     {/* Hover Tooltip */}
                                     <div className="absolute bottom-full left-0 w-64 mb-2 hidden group-hover:block z-50 pointer-events-none">
                                         <div className="bg-gray-800 text-white text-xs p-2 rounded shadow-lg border border-gray-700">
                                             {preset.description}
+                                            {preset.rationale && (
+                                                <p className="mt-1.5 pt-1.5 border-t border-gray-600 text-purple-200">推荐理由：{preset.rationale}</p>
+                                            )}
                                         </div>
                                         {/* Arrow */}
                                         <div className="absolute -bottom-1 left-4 w-2 h-2 bg-gray-800 rotate-45 border-r border-b border-gray-700"></div>
@@ -502,6 +1593,44 @@ const App: React.FC = () => {
                             );
                           })}
                        </div>
+                       {visiblePresets.length === 0 && (
+                          <p className="text-xs text-gray-400 text-center py-3">没有带此标签的场景</p>
+                       )}
+
+                       {/* Save Recommendation to Library */}
+                       {savingRecommendation && (
+                          <div className="mt-3 p-3 border border-purple-200 bg-purple-50 rounded-lg space-y-2">
+                             <p className="text-xs font-medium text-purple-700 flex items-center gap-1">
+                                <BookmarkPlus className="w-3.5 h-3.5" /> 保存到预设库
+                             </p>
+                             <input
+                                type="text"
+                                value={savingRecommendation.name}
+                                onChange={(e) => setSavingRecommendation({ ...savingRecommendation, name: e.target.value })}
+                                placeholder="预设名称"
+                                className="w-full border border-gray-300 rounded px-2 py-1.5 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                             />
+                             <PresetTagPicker
+                                value={savingRecommendation.tags}
+                                onChange={(tags) => setSavingRecommendation({ ...savingRecommendation, tags })}
+                             />
+                             <div className="flex justify-end gap-2">
+                                <button
+                                   onClick={() => setSavingRecommendation(null)}
+                                   className="px-3 py-1 text-xs text-gray-600 hover:bg-white rounded"
+                                >
+                                   取消
+                                </button>
+                                <button
+                                   onClick={saveRecommendationToLibrary}
+                                   disabled={!savingRecommendation.name.trim()}
+                                   className="px-3 py-1 text-xs bg-primary text-white rounded hover:bg-orange-600 disabled:opacity-50"
+                                >
+                                   保存
+                                </button>
+                             </div>
+                          </div>
+                       )}
                        <p className="text-[10px] text-gray-400 mt-2 text-center">
                           选择多个以生成批量变体。
                        </p>
@@ -517,12 +1646,26 @@ const App: React.FC = () => {
                           className="w-full border border-gray-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none min-h-[60px]"
                        />
                     </div>
+
+                    {/* Prompt Review */}
+                    <div className="flex items-center gap-2">
+                       <input
+                          type="checkbox"
+                          id="reviewPrompts"
+                          checked={variationSettings.reviewPrompts}
+                          onChange={(e) => setVariationSettings(prev => ({ ...prev, reviewPrompts: e.target.checked }))}
+                          className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary"
+                       />
+                       <label htmlFor="reviewPrompts" className="text-sm text-gray-600 select-none cursor-pointer">
+                          渲染前审核提示词
+                       </label>
+                    </div>
                   </div>
                 </div>
 
                 {/* Generate Button */}
                 <button
-                  onClick={handleGenerate}
+                  onClick={() => handleGenerate()}
                   disabled={!previewUrl || selectedPresetIds.length === 0 || (processingState.step !== 'IDLE' && processingState.step !== 'COMPLETED' && processingState.step !== 'ERROR')}
                   className={`w-full py-4 rounded-xl flex items-center justify-center gap-2 font-bold text-white transition-all shadow-md
                     ${!previewUrl || selectedPresetIds.length === 0
@@ -540,9 +1683,59 @@ const App: React.FC = () => {
                      <>
                        <Sparkles className="w-5 h-5" />
                        生成 {selectedPresetIds.length > 0 ? `(${selectedPresetIds.length})` : ''} 场景
+                       {variationSettings.variationCount > 1 ? ` × ${variationSettings.variationCount}` : ''}
+                       {products.length > 1 ? ` × ${products.length} 个产品` : ''}
                      </>
                    )}
                 </button>
+
+                <ABTestPanel
+                  presets={presets}
+                  history={versionHistory}
+                  productName={activeProduct ? activeProduct.sku || activeProduct.title || '当前产品' : undefined}
+                  variationCount={variationSettings.variationCount}
+                  disabled={processingState.step !== 'IDLE' && processingState.step !== 'COMPLETED' && processingState.step !== 'ERROR'}
+                  onRun={(plan) => handleGenerate(plan)}
+                />
+
+                {jobs.length > 0 && processingState.step === 'GENERATING_IMAGE' && (() => {
+                  const finishedCount = jobs.filter(job => job.status === 'done' || job.status === 'failed' || job.status === 'cancelled' || job.status === 'skipped').length;
+                  const batchUsage = sumUsage(usageRecords.filter(r => r.batchId === jobs[0].batchId));
+                  return (
+                    <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100 space-y-2">
+                      <div className="flex justify-between items-center text-sm">
+                        <span className="text-gray-600">
+                          批量进度 {finishedCount} / {jobs.length}
+                          <span className="ml-2 text-xs text-gray-400" title={`${batchUsage.totalTokens.toLocaleString()} tokens`}>{formatTotalsCost(batchUsage)}</span>
+                        </span>
+                        <div className="flex items-center gap-2">
+                          <button
+                            onClick={toggleQueuePause}
+                            className="text-xs bg-white border border-gray-300 text-gray-700 px-2.5 py-1 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1"
+                          >
+                            {isQueuePaused ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+                            {isQueuePaused ? '继续' : '暂停'}
+                          </button>
+                          <button
+                            onClick={handleStopGeneration}
+                            className="text-xs bg-red-50 border border-red-200 text-red-600 px-2.5 py-1 rounded-lg hover:bg-red-100 transition-colors flex items-center gap-1"
+                            title="取消进行中和排队中的任务"
+                          >
+                            <Square className="w-3.5 h-3.5" />
+                            停止
+                          </button>
+                        </div>
+                      </div>
+                      <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-primary transition-all"
+                          style={{ width: `${(finishedCount / jobs.length) * 100}%` }}
+                        />
+                      </div>
+                      {isQueuePaused && <p className="text-xs text-gray-400">已暂停：进行中的任务会继续完成，排队中的任务等待继续。</p>}
+                    </div>
+                  );
+                })()}
                 
                 {processingState.step === 'ERROR' && (
                     <div className="bg-red-50 border border-red-200 text-red-600 text-sm p-3 rounded-lg flex items-start gap-2">
@@ -551,7 +1744,7 @@ const App: React.FC = () => {
                     </div>
                 )}
 
-                {processingState.step !== 'IDLE' && processingState.step !== 'COMPLETED' && processingState.step !== 'ERROR' && (
+                {processingState.step !== 'IDLE' && processingState.step !== 'COMPLETED' && processingState.step !== 'ERROR' && processingState.message && (
                    <div className="bg-blue-50 border border-blue-100 text-blue-700 text-sm p-3 rounded-lg animate-pulse flex items-center gap-2">
                       <div className="w-2 h-2 bg-blue-500 rounded-full animate-bounce"></div>
                       {processingState.message}
@@ -565,10 +1758,51 @@ const App: React.FC = () => {
                 <div className="bg-white p-5 rounded-xl shadow-sm border border-gray-100 h-full min-h-[500px] flex flex-col">
                    <div className="flex justify-between items-center mb-4 shrink-0">
                      <h3 className="font-semibold text-gray-800">生成的结果</h3>
-                     <span className="text-sm text-gray-500">{generatedImages.length} 张图片</span>
+                     <div className="flex items-center gap-3">
+                       {generatedImages.length > 0 && (
+                         <>
+                           <button
+                             onClick={toggleSelectAllImages}
+                             className="text-xs text-gray-500 hover:text-gray-700 flex items-center gap-1 transition-colors"
+                           >
+                             <CheckSquare className="w-3.5 h-3.5" />
+                             {selectedImageIds.length === generatedImages.length ? '取消全选' : '全选'}
+                           </button>
+                           <button
+                             onClick={handleDownloadZip}
+                             disabled={selectedImageIds.length === 0 || isExportingZip}
+                             className="text-xs bg-white border border-gray-300 text-gray-700 px-2.5 py-1 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                             title="按当前导出配置打包下载"
+                           >
+                             {isExportingZip ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Archive className="w-3.5 h-3.5" />}
+                             下载 ZIP ({selectedImageIds.length})
+                           </button>
+                         </>
+                       )}
+                       <span className="text-sm text-gray-500 flex items-center gap-1">
+                         <History className="w-3.5 h-3.5" /> {historyTotal} 张图片
+                       </span>
+                       {historyTotal > 0 && (
+                         <button
+                           onClick={handleClearHistory}
+                           className="text-xs text-gray-400 hover:text-red-600 flex items-center gap-1 transition-colors"
+                           title="清空历史"
+                         >
+                           <Trash2 className="w-3.5 h-3.5" /> 清空
+                         </button>
+                       )}
+                     </div>
                    </div>
 
-                   {generatedImages.length === 0 ? (
+                   {promptReviews.length > 0 && (
+                     <PromptReviewPanel reviews={promptReviews} onDecide={resolvePromptReview} />
+                   )}
+
+                   {generatedImages.length === 0 && isLoadingHistory ? (
+                     <div className="flex-1 flex items-center justify-center text-gray-300 min-h-[400px]">
+                       <Loader2 className="w-8 h-8 animate-spin" />
+                     </div>
+                   ) : generatedImages.length === 0 && jobs.length === 0 ? (
                      <div className="flex-1 flex flex-col items-center justify-center text-gray-400 min-h-[400px]">
                        <div className="w-32 h-32 bg-gray-50 rounded-full flex items-center justify-center mb-4">
                          <Layers className="w-12 h-12 text-gray-200" />
@@ -577,15 +1811,46 @@ const App: React.FC = () => {
                        <p className="text-sm text-gray-300">上传产品并选择场景以开始</p>
                      </div>
                    ) : (
-                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 overflow-y-auto">
-                       {generatedImages.map((img) => (
-                         <ResultCard 
-                            key={img.id} 
-                            image={img} 
-                            onDownload={handleDownload}
-                            onZoom={handleEditImage}
-                         />
+                     <div className="overflow-y-auto space-y-8">
+                       {resultGroups.map(group => (
+                         <div key={group.key}>
+                           <div className="flex items-center justify-between mb-3 pb-2 border-b border-gray-100">
+                             <h4 className="text-sm font-semibold text-gray-700 truncate">{group.title}</h4>
+                             <span className="text-xs text-gray-400 shrink-0">{group.images.length} 张</span>
+                           </div>
+                           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                             {group.jobs.map(job => (
+                               <JobCard key={job.id} job={job} onDismiss={dismissJob} />
+                             ))}
+                             {group.images.map((img) => (
+                               <ResultCard 
+                                  key={img.id} 
+                                  image={img} 
+                                  onDownload={handleDownload}
+                                  onZoom={handleViewImage}
+                                  onEdit={handleEditImage}
+                                  onDelete={handleDeleteImage}
+                                  onShowVersions={handleShowVersions}
+                                  onCompare={(image) => setAbCompareId(image.abTestId ?? null)}
+                                  isSelected={selectedImageIds.includes(img.id)}
+                                  onToggleSelect={toggleImageSelection}
+                               />
+                             ))}
+                           </div>
+                         </div>
                        ))}
+                       {historyHasMore && (
+                         <div className="flex justify-center mt-6">
+                           <button
+                             onClick={handleLoadMoreHistory}
+                             disabled={isLoadingHistory}
+                             className="text-sm bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2"
+                           >
+                             {isLoadingHistory && <Loader2 className="w-4 h-4 animate-spin" />}
+                             加载更多历史
+                           </button>
+                         </div>
+                       )}
                      </div>
                    )}
                 </div>
@@ -659,21 +1924,199 @@ const App: React.FC = () => {
                         )}
                       </p>
                     </div>
+                    <div className="mb-4">
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Gemini API 密钥（Gemini SDK 直连时使用）</label>
+                      <div className="flex gap-2">
+                        <div className="relative flex-1">
+                          <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                            <Lock className="h-4 w-4 text-gray-400" />
+                          </div>
+                          <input
+                            type={showGeminiKey ? "text" : "password"}
+                            value={geminiApiKey}
+                            onChange={(e) => setGeminiApiKey(e.target.value)}
+                            placeholder="输入您的 Google AI Studio API 密钥"
+                            className="w-full pl-10 pr-10 border border-gray-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => setShowGeminiKey(!showGeminiKey)}
+                            className="absolute inset-y-0 right-0 pr-3 flex items-center text-gray-400 hover:text-gray-600"
+                          >
+                            {showGeminiKey ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                          </button>
+                        </div>
+                        <button
+                          onClick={handleSaveGeminiKey}
+                          className="bg-primary text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-orange-600 transition-colors"
+                        >
+                          保存
+                        </button>
+                        {isGeminiKeySaved && (
+                          <button
+                            onClick={handleClearGeminiKey}
+                            className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg text-sm font-medium hover:bg-gray-50 transition-colors"
+                          >
+                            清除
+                          </button>
+                        )}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-2 flex items-center gap-1">
+                        {isGeminiKeySaved ? (
+                          <span className="text-green-600 flex items-center gap-1">
+                            <Check className="w-3 h-3" /> 使用本地存储的 Gemini API 密钥
+                          </span>
+                        ) : (
+                          <span className="text-gray-400">
+                            使用 VITE_GEMINI_API_KEY 环境密钥（如果已配置）
+                          </span>
+                        )}
+                      </p>
+                    </div>
                     <div className="bg-blue-50 border border-blue-100 rounded-lg p-4 text-sm text-blue-800">
                       <p className="font-medium mb-1">隐私说明</p>
                       <p className="text-blue-600">
                         您的 API 密钥存储在本地浏览器的存储中，永远不会发送到我们的服务器。
-                        生成内容时，它会直接发送到 OpenRouter API。
+                        生成内容时，它会直接发送到 OpenRouter 或 Google API。
                       </p>
                     </div>
                   </div>
                </section>
 
+               {/* MODEL ROUTING */}
+               <section className="bg-white rounded-xl shadow-sm border border-gray-100">
+                  <div className="p-6 border-b border-gray-100 bg-gray-50/50 rounded-t-xl">
+                    <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+                      <Cpu className="w-5 h-5 text-gray-500" /> 模型路由
+                    </h3>
+                  </div>
+                  <div className="p-6">
+                    <p className="text-sm text-gray-500 mb-4">为每个任务选择处理它的提供商和模型。</p>
+                    {MOCK_MODE && (
+                      <div className="mb-4 bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm p-3 rounded-lg flex items-start gap-2">
+                        <Info className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        已设置 VITE_LLM_MOCK=true：所有任务都使用离线模拟提供商，以下路由暂不生效。
+                      </div>
+                    )}
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {(Object.keys(TASK_LABELS) as LLMTask[]).map(task => (
+                        <ModelSelector
+                          key={task}
+                          label={TASK_LABELS[task]}
+                          task={task}
+                          route={taskRouting[task]}
+                          onSelect={(route) => setTaskRouting(prev => ({ ...prev, [task]: route }))}
+                        />
+                      ))}
+                    </div>
+                  </div>
+               </section>
+
+               {/* GENERATION SETTINGS */}
+               <section className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                  <div className="p-6 border-b border-gray-100 bg-gray-50/50">
+                    <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+                      <Sparkles className="w-5 h-5 text-gray-500" /> 生成设置
+                    </h3>
+                  </div>
+                  <div className="p-6 space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">每个场景的变体数</label>
+                        <input
+                          type="number"
+                          min={1}
+                          max={8}
+                          value={variationSettings.variationCount}
+                          onChange={(e) => setVariationSettings(prev => ({ ...prev, variationCount: Math.min(8, Math.max(1, Number(e.target.value) || 1)) }))}
+                          className="w-full border border-gray-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">温度</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={2}
+                          step={0.1}
+                          value={variationSettings.temperature ?? ''}
+                          placeholder="模型默认"
+                          onChange={(e) => setVariationSettings(prev => ({ ...prev, temperature: e.target.value === '' ? null : Math.min(2, Math.max(0, Number(e.target.value))) }))}
+                          className="w-full border border-gray-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">种子</label>
+                        <input
+                          type="number"
+                          min={0}
+                          step={1}
+                          value={variationSettings.seed ?? ''}
+                          placeholder="随机"
+                          onChange={(e) => setVariationSettings(prev => ({ ...prev, seed: e.target.value === '' ? null : Math.floor(Number(e.target.value)) }))}
+                          className="w-full border border-gray-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                        />
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500 -mt-3">
+                      温度和种子仅在所选后端支持时生效。设置种子后，第 N 个变体使用 种子 + N。
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        id="reexpandPerVariation"
+                        checked={variationSettings.reexpandPerVariation}
+                        onChange={(e) => setVariationSettings(prev => ({ ...prev, reexpandPerVariation: e.target.checked }))}
+                        className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary"
+                      />
+                      <label htmlFor="reexpandPerVariation" className="text-sm text-gray-600 select-none cursor-pointer">
+                        为每个变体重新扩展提示词（变化更大，但会多消耗一次文本调用）
+                      </label>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">并发数</label>
+                      <p className="text-xs text-gray-500 mb-2">批量生成时同时处理的场景数量。数值越大越快，但更容易触发速率限制。</p>
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="range"
+                          min={1}
+                          max={6}
+                          value={concurrency}
+                          onChange={(e) => setConcurrency(Number(e.target.value))}
+                          className="flex-1 accent-primary"
+                        />
+                        <span className="text-sm font-medium text-gray-700 w-6 text-right">{concurrency}</span>
+                      </div>
+                    </div>
+                  </div>
+               </section>
+
+               {/* USAGE & BUDGET */}
+               <section className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
+                  <div className="p-6 border-b border-gray-100 bg-gray-50/50">
+                    <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+                      <Wallet className="w-5 h-5 text-gray-500" /> 用量与预算
+                    </h3>
+                  </div>
+                  <div className="p-6">
+                    <p className="text-sm text-gray-500 mb-4">每次调用的 token 用量和费用由提供商返回（OpenRouter 返回实际扣费，Gemini 直连只返回 token 数）。</p>
+                    <UsagePanel
+                      records={usageRecords}
+                      budgetSettings={budgetSettings}
+                      onBudgetChange={setBudgetSettings}
+                      onClear={handleClearUsage}
+                    />
+                  </div>
+               </section>
+
                {/* GLOBAL PROMPT SETTINGS */}
                <section className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden">
                   <div className="p-6 border-b border-gray-100 bg-gray-50/50">
                     <h3 className="font-semibold text-gray-900 flex items-center gap-2">
                       <Wand2 className="w-5 h-5 text-gray-500" /> 全局提示设置
+                      {currentPromptSettingsVersion(versionHistory) && (
+                        <span className="text-xs font-normal text-gray-400">v{currentPromptSettingsVersion(versionHistory)!.version}</span>
+                      )}
                     </h3>
                   </div>
                   <div className="p-6 space-y-6">
@@ -688,6 +2131,58 @@ const App: React.FC = () => {
                         className="w-full border border-gray-300 rounded-lg p-2.5 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none min-h-[150px]"
                       />
                     </div>
+
+                    {/* Brand context for templates */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">品牌与平台</label>
+                      <p className="text-xs text-gray-500 mb-2">填写后可在模板中通过变量引用；留空时对应的条件段落不会输出。</p>
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                        <input
+                          type="text"
+                          value={promptSettings.brandColors}
+                          placeholder="品牌色（例如：navy blue and warm orange）"
+                          onChange={(e) => setPromptSettings(prev => ({ ...prev, brandColors: e.target.value }))}
+                          className="w-full border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                        />
+                        <input
+                          type="text"
+                          value={promptSettings.marketplace}
+                          placeholder="目标平台（例如：Amazon US）"
+                          onChange={(e) => setPromptSettings(prev => ({ ...prev, marketplace: e.target.value }))}
+                          className="w-full border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+                        />
+                        <select
+                          value={promptSettings.aspectRatio}
+                          onChange={(e) => setPromptSettings(prev => ({ ...prev, aspectRatio: e.target.value }))}
+                          className="w-full border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none bg-white"
+                        >
+                          <option value="">画面比例：不指定</option>
+                          {ASPECT_RATIO_OPTIONS.map(ratio => (
+                            <option key={ratio} value={ratio}>画面比例：{ratio}</option>
+                          ))}
+                        </select>
+                      </div>
+                    </div>
+
+                    <PromptTemplateEditor
+                      label="用户模板（提示扩展）"
+                      description="发送给提示扩展模型的内容。支持 {{变量}}、{{变量|默认值}} 和 {{#if 变量}}...{{else}}...{{/if}}。"
+                      scope="expand"
+                      value={promptSettings.expandPromptUserTemplate}
+                      defaultValue={DEFAULT_USER_TEMPLATE}
+                      onChange={(value) => setPromptSettings(prev => ({ ...prev, expandPromptUserTemplate: value }))}
+                      previewVariables={{ ...templatePreviewVariables, customContext }}
+                    />
+
+                    <PromptTemplateEditor
+                      label="生成模板（场景生成）"
+                      description="发送给生图模型的提示词。模板未引用 {{quality}} 时，预设的质量标签会追加在末尾。"
+                      scope="generate"
+                      value={promptSettings.generationPromptTemplate}
+                      defaultValue={DEFAULT_GENERATION_TEMPLATE}
+                      onChange={(value) => setPromptSettings(prev => ({ ...prev, generationPromptTemplate: value }))}
+                      previewVariables={templatePreviewVariables}
+                    />
                   </div>
                </section>
 
@@ -704,6 +2199,7 @@ const App: React.FC = () => {
                            setIsAddingPreset(true); 
                            setNewPresetName(''); 
                            setNewPresetDesc('');
+                           setNewPresetTags([]);
                          }}
                          className="flex items-center gap-1 text-sm bg-white border border-gray-300 text-gray-700 px-3 py-1.5 rounded-lg hover:bg-gray-50 transition-colors"
                        >
@@ -717,6 +2213,79 @@ const App: React.FC = () => {
                        在此处定义您的自定义提示模板。每个预设都可以有自己的目标分辨率，符合 Amazon 标准。
                     </p>
 
+                    {/* IMPORT / EXPORT */}
+                    <div className="flex flex-wrap items-center gap-3 mb-3">
+                       <button
+                         onClick={handleExportPresets}
+                         className="flex items-center gap-1 text-sm bg-white border border-gray-300 text-gray-700 px-3 py-1.5 rounded-lg hover:bg-gray-50 transition-colors"
+                       >
+                         <Download className="w-4 h-4" /> 导出
+                       </button>
+                       <button
+                         onClick={() => presetImportInputRef.current?.click()}
+                         className="flex items-center gap-1 text-sm bg-white border border-gray-300 text-gray-700 px-3 py-1.5 rounded-lg hover:bg-gray-50 transition-colors"
+                       >
+                         <Upload className="w-4 h-4" /> 导入
+                       </button>
+                       <input
+                         ref={presetImportInputRef}
+                         type="file"
+                         accept="application/json,.json"
+                         onChange={handleImportPresets}
+                         className="hidden"
+                       />
+                       <label className="flex items-center gap-1.5 text-xs text-gray-600">
+                         <input
+                           type="checkbox"
+                           checked={exportIncludesPromptSettings}
+                           onChange={(e) => setExportIncludesPromptSettings(e.target.checked)}
+                           className="rounded border-gray-300 text-primary focus:ring-primary"
+                         />
+                         导出时包含提示词设置
+                       </label>
+                       <label className="flex items-center gap-1.5 text-xs text-gray-600 ml-auto">
+                         ID 冲突时
+                         <select
+                           value={conflictStrategy}
+                           onChange={(e) => setConflictStrategy(e.target.value as PresetConflictStrategy)}
+                           className="border border-gray-300 rounded px-2 py-1 text-xs focus:ring-1 focus:ring-primary outline-none"
+                         >
+                           {(Object.keys(CONFLICT_STRATEGY_LABELS) as PresetConflictStrategy[]).map(strategy => (
+                             <option key={strategy} value={strategy}>{CONFLICT_STRATEGY_LABELS[strategy]}</option>
+                           ))}
+                         </select>
+                       </label>
+                    </div>
+                    {presetLibraryMessage && (
+                       <p className="text-xs text-green-700 bg-green-50 border border-green-100 rounded px-3 py-2 mb-3">{presetLibraryMessage}</p>
+                    )}
+
+                    {/* BUNDLED PACKS */}
+                    <div className="mb-6">
+                       <p className="text-xs font-medium text-gray-700 flex items-center gap-1 mb-2">
+                         <Package className="w-3.5 h-3.5 text-gray-500" /> 预设包
+                       </p>
+                       <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                         {PRESET_PACKS.map(pack => {
+                           const installedCount = pack.presets.filter(preset => presets.some(p => p.id === preset.id)).length;
+                           return (
+                             <div key={pack.id} className="border border-gray-200 rounded-lg p-3 flex justify-between items-start gap-3">
+                               <div className="min-w-0">
+                                 <p className="text-sm font-medium text-gray-800">{pack.name} <span className="text-xs text-gray-400 font-normal">{pack.presets.length} 个场景</span></p>
+                                 <p className="text-xs text-gray-500 mt-0.5">{pack.description}</p>
+                               </div>
+                               <button
+                                 onClick={() => installPresetPack(pack)}
+                                 className="shrink-0 text-xs px-2.5 py-1 rounded border border-primary text-primary hover:bg-orange-50 transition-colors"
+                               >
+                                 {installedCount === pack.presets.length ? '重新安装' : installedCount > 0 ? '补全安装' : '安装'}
+                               </button>
+                             </div>
+                           );
+                         })}
+                       </div>
+                    </div>
+
                     {/* ADD NEW PRESET FORM */}
                     {isAddingPreset && (
                        <div className="bg-orange-50 border border-orange-100 rounded-lg p-4 mb-6">
@@ -735,6 +2304,7 @@ const App: React.FC = () => {
                                 value={newPresetDesc}
                                 onChange={(e) => setNewPresetDesc(e.target.value)}
                              />
+                             <PresetTagPicker value={newPresetTags} onChange={setNewPresetTags} />
 
                              <div className="flex gap-2 justify-end">
                                 <button onClick={() => setIsAddingPreset(false)} className="text-sm text-gray-500 hover:text-gray-700 px-3 py-1">取消</button>
@@ -761,6 +2331,7 @@ const App: React.FC = () => {
                                     value={newPresetDesc}
                                     onChange={(e) => setNewPresetDesc(e.target.value)}
                                   />
+                                  <PresetTagPicker value={newPresetTags} onChange={setNewPresetTags} />
 
                                   <div className="flex gap-2 justify-end">
                                       <button onClick={() => setEditingPresetId(null)} className="flex items-center gap-1 text-sm text-gray-500 hover:text-gray-700 px-3 py-1">
@@ -776,8 +2347,20 @@ const App: React.FC = () => {
                                   <div>
                                      <h4 className="font-semibold text-gray-800 flex items-center gap-2">
                                         {preset.name}
+                                        {currentPresetVersion(versionHistory, preset.id) && (
+                                           <span className="text-xs font-normal text-gray-400" title="每次修改描述或质量标签都会记录一个新版本">
+                                              v{currentPresetVersion(versionHistory, preset.id)!.version}
+                                           </span>
+                                        )}
                                      </h4>
                                      <p className="text-sm text-gray-600 mt-1 leading-relaxed">{preset.description}</p>
+                                     {preset.tags && preset.tags.length > 0 && (
+                                        <div className="flex flex-wrap gap-1 mt-2">
+                                           {preset.tags.map(tag => (
+                                              <span key={tag} className="text-[10px] bg-gray-100 text-gray-500 px-1.5 py-0.5 rounded">{PRESET_TAG_LABELS[tag]}</span>
+                                           ))}
+                                        </div>
+                                     )}
                                   </div>
                                   <div className="flex gap-2 shrink-0">
                                      <button 
@@ -814,10 +2397,50 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {exportingImage && (
+        <ExportDialog
+          image={exportingImage}
+          settings={exportSettings}
+          onSettingsChange={setExportSettings}
+          onClose={() => setExportingImage(null)}
+        />
+      )}
+
+      {abCompareId && (
+        <ABCompareModal
+          images={generatedImages.filter(img => img.abTestId === abCompareId)}
+          history={versionHistory}
+          onClose={() => setAbCompareId(null)}
+          onZoom={handleViewImage}
+        />
+      )}
+
+      {lightboxIndex !== -1 && (
+        <Lightbox
+          images={orderedImages}
+          index={lightboxIndex}
+          onIndexChange={index => setLightboxImageId(orderedImages[index].id)}
+          onClose={() => setLightboxImageId(null)}
+          onEdit={handleEditImage}
+        />
+      )}
+
+      {versionTreeImage && (
+        <VersionTreeModal
+          image={versionTreeImage}
+          onClose={() => setVersionTreeImage(null)}
+          onRevert={handleRevertVersion}
+          onBranch={handleBranchVersion}
+        />
+      )}
+
       {editingImage && (
         <ImageEditorModal
           isOpen={!!editingImage}
-          onClose={() => setEditingImage(null)}
+          onClose={() => {
+            editAbortControllerRef.current?.abort(); // Closing cancels a running edit
+            setEditingImage(null);
+          }}
           imageUrl={editingImage.url}
           onGenerate={handleEditorGenerate}
           isProcessing={isEditorProcessing}
@@ -0,0 +1,100 @@
+import React from 'react';
+import { X, FlaskConical } from 'lucide-react';
+import { ABVariant, GeneratedImage } from '../types';
+import { VersionHistory, PROMPT_SETTING_LABELS, changedPromptSettings } from '../services/promptVersions';
+
+interface ABCompareModalProps {
+  images: GeneratedImage[]; // Results of one A/B test, both arms
+  history: VersionHistory;
+  onClose: () => void;
+  onZoom: (image: GeneratedImage) => void;
+}
+
+export const ABCompareModal: React.FC<ABCompareModalProps> = ({ images, history, onClose, onZoom }) => {
+  const first = images[0];
+  const arms = (['A', 'B'] as ABVariant[]).map(variant => {
+    const armImages = images
+      .filter(img => img.abVariant === variant)
+      .sort((a, b) => (a.variationIndex ?? 0) - (b.variationIndex ?? 0));
+    const sample = armImages[0];
+    // Prefer the snapshot on the result; the history may have trimmed that version since
+    const presetVersion = sample?.presetId ? history.presets[sample.presetId]?.find(v => v.version === sample.presetVersion) : undefined;
+    return {
+      variant,
+      images: armImages,
+      preset: sample?.presetSnapshot ?? presetVersion,
+      promptSettings: sample?.promptSettingsSnapshot ?? history.promptSettings.find(v => v.version === sample?.promptVersion)?.settings,
+      labels: sample ? [`预设 v${sample.presetVersion ?? '-'}`, `提示词 v${sample.promptVersion ?? '-'}`] : [],
+    };
+  });
+  const [armA, armB] = arms;
+  const changedSettings = armA.promptSettings && armB.promptSettings
+    ? changedPromptSettings(armA.promptSettings, armB.promptSettings)
+    : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white rounded-xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-purple-100 text-purple-600 rounded-lg">
+              <FlaskConical className="w-5 h-5" />
+            </div>
+            <div>
+              <h3 className="font-bold text-gray-800">A/B 对比</h3>
+              <p className="text-xs text-gray-500">
+                {first?.vibe}{first?.sku || first?.productTitle ? ` · ${first.sku || first.productTitle}` : ''}
+                {changedSettings.length > 0 && ` · 提示词设置差异：${changedSettings.map(key => PROMPT_SETTING_LABELS[key]).join('、')}`}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full text-gray-500 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Side-by-side comparison */}
+        <div className="flex-1 p-4 overflow-y-auto">
+          <div className="grid grid-cols-2 gap-6">
+            {arms.map(arm => (
+              <div key={arm.variant} className="space-y-3 min-w-0">
+                <div>
+                  <p className="text-sm font-semibold text-gray-700">
+                    <span className="text-purple-600">{arm.variant}</span>
+                    <span className="ml-2 text-xs font-normal text-gray-500">{arm.labels.join(' · ')}</span>
+                  </p>
+                  {arm.preset && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      {arm.preset.description}
+                      {arm.preset.quality && <span className="text-gray-400">（{arm.preset.quality}）</span>}
+                    </p>
+                  )}
+                </div>
+                {arm.images.length === 0 ? (
+                  <div className="aspect-square bg-gray-50 rounded-lg flex items-center justify-center text-xs text-gray-400">
+                    没有生成结果
+                  </div>
+                ) : arm.images.map(image => (
+                  <div key={image.id}>
+                    <button
+                      onClick={() => onZoom(image)}
+                      className="block w-full aspect-square bg-gray-100 rounded-lg overflow-hidden"
+                    >
+                      <img src={image.url} alt={`${arm.variant} ${image.vibe}`} className="w-full h-full object-contain" />
+                    </button>
+                    <p className="text-[11px] text-gray-500 mt-1 line-clamp-3" title={image.prompt}>{image.prompt}</p>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
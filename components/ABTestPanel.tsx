@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { ChevronDown, FlaskConical } from 'lucide-react';
+import { ABVariant, ScenarioPreset } from '../types';
+import { ABTestPlan, PresetVersion, PromptSettingsVersion, VersionHistory, PROMPT_SETTING_LABELS, changedPromptSettings } from '../services/promptVersions';
+
+interface ABTestPanelProps {
+  presets: ScenarioPreset[];
+  history: VersionHistory;
+  productName?: string; // Product both arms render; absent when nothing is uploaded
+  variationCount: number;
+  disabled: boolean;
+  onRun: (plan: ABTestPlan) => void;
+}
+
+interface ArmSelection {
+  presetVersion: number;
+  promptVersion: number;
+}
+
+const formatVersion = (version: { version: number; createdAt: number }) =>
+  `v${version.version} · ${new Date(version.createdAt).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`;
+
+// Missing versions (trimmed from history) fall back to the latest one
+const findVersion = <T extends { version: number }>(versions: T[], version: number): T | undefined =>
+  versions.find(v => v.version === version) ?? versions[versions.length - 1];
+
+export const ABTestPanel: React.FC<ABTestPanelProps> = ({ presets, history, productName, variationCount, disabled, onRun }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [presetId, setPresetId] = useState<string>(presets[0]?.id ?? '');
+  const [selection, setSelection] = useState<Record<ABVariant, ArmSelection> | null>(null);
+
+  const preset = presets.find(p => p.id === presetId) ?? presets[0];
+  const presetVersions: PresetVersion[] = preset ? history.presets[preset.id] ?? [] : [];
+  const promptVersions: PromptSettingsVersion[] = history.promptSettings;
+
+  // By default A is the previous wording of the preset (or of the prompt settings when the preset has one version) and B the current one
+  const defaults = (): Record<ABVariant, ArmSelection> => {
+    const latestPreset = presetVersions[presetVersions.length - 1]?.version ?? 0;
+    const latestPrompt = promptVersions[promptVersions.length - 1]?.version ?? 0;
+    const previousPreset = presetVersions[presetVersions.length - 2]?.version;
+    const previousPrompt = promptVersions[promptVersions.length - 2]?.version;
+    return {
+      A: {
+        presetVersion: previousPreset ?? latestPreset,
+        promptVersion: previousPreset === undefined ? previousPrompt ?? latestPrompt : latestPrompt,
+      },
+      B: { presetVersion: latestPreset, promptVersion: latestPrompt },
+    };
+  };
+  const current = selection ?? defaults();
+
+  const arms = (['A', 'B'] as ABVariant[]).map(variant => ({
+    variant,
+    presetVersion: findVersion(presetVersions, current[variant].presetVersion),
+    promptVersion: findVersion(promptVersions, current[variant].promptVersion),
+  }));
+  const [armA, armB] = arms;
+  const isComplete = arms.every(arm => arm.presetVersion && arm.promptVersion);
+  const isSame = isComplete
+    && armA.presetVersion!.version === armB.presetVersion!.version
+    && armA.promptVersion!.version === armB.promptVersion!.version;
+  const changedSettings = isComplete ? changedPromptSettings(armA.promptVersion!.settings, armB.promptVersion!.settings) : [];
+
+  const updateArm = (variant: ABVariant, patch: Partial<ArmSelection>) => {
+    setSelection({ ...current, [variant]: { ...current[variant], ...patch } });
+  };
+
+  const handleRun = () => {
+    if (!preset || !isComplete) return;
+    onRun({
+      presetId: preset.id,
+      arms: arms.map(arm => ({
+        variant: arm.variant,
+        presetVersion: arm.presetVersion as PresetVersion,
+        promptVersion: arm.promptVersion as PromptSettingsVersion,
+      })) as ABTestPlan['arms'],
+    });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-100">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between p-4 text-sm font-medium text-gray-700"
+      >
+        <span className="flex items-center gap-2">
+          <FlaskConical className="w-4 h-4 text-purple-500" /> A/B 对比
+        </span>
+        <ChevronDown className={`w-4 h-4 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-3">
+          <p className="text-xs text-gray-500">
+            用同一个产品分别渲染预设和提示词设置的两个版本，结果并排对比。
+          </p>
+
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">预设</label>
+            <select
+              value={preset?.id ?? ''}
+              onChange={(e) => { setPresetId(e.target.value); setSelection(null); }}
+              className="w-full border border-gray-300 rounded px-2 py-1.5 text-sm focus:ring-1 focus:ring-primary outline-none"
+            >
+              {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {arms.map(arm => (
+              <div key={arm.variant} className="space-y-1.5">
+                <p className="text-xs font-semibold text-purple-600">{arm.variant}</p>
+                <select
+                  value={arm.presetVersion?.version ?? ''}
+                  onChange={(e) => updateArm(arm.variant, { presetVersion: Number(e.target.value) })}
+                  className="w-full border border-gray-300 rounded px-1.5 py-1 text-xs focus:ring-1 focus:ring-primary outline-none"
+                  title="预设版本"
+                >
+                  {presetVersions.map(v => <option key={v.version} value={v.version}>预设 {formatVersion(v)}</option>)}
+                </select>
+                <select
+                  value={arm.promptVersion?.version ?? ''}
+                  onChange={(e) => updateArm(arm.variant, { promptVersion: Number(e.target.value) })}
+                  className="w-full border border-gray-300 rounded px-1.5 py-1 text-xs focus:ring-1 focus:ring-primary outline-none"
+                  title="提示词设置版本"
+                >
+                  {promptVersions.map(v => <option key={v.version} value={v.version}>提示词 {formatVersion(v)}</option>)}
+                </select>
+                {arm.presetVersion && (
+                  <p className="text-[11px] text-gray-500 line-clamp-3" title={arm.presetVersion.description}>
+                    {arm.presetVersion.description}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {isComplete && (
+            <p className="text-[11px] text-gray-400">
+              {isSame
+                ? 'A 和 B 使用相同的版本，可用于观察同一提示词的随机差异。'
+                : changedSettings.length > 0
+                  ? `提示词设置差异：${changedSettings.map(key => PROMPT_SETTING_LABELS[key]).join('、')}`
+                  : '提示词设置相同，只比较预设描述和质量标签。'}
+            </p>
+          )}
+
+          <button
+            onClick={handleRun}
+            disabled={disabled || !productName || !isComplete}
+            className="w-full py-2 rounded-lg text-sm font-medium bg-purple-600 text-white hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {productName
+              ? `运行 A/B 对比（${productName}${variationCount > 1 ? `，每组 ${variationCount} 张` : ''}）`
+              : '请先上传产品'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
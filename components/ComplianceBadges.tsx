@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle2, AlertTriangle, XCircle, Loader2 } from 'lucide-react';
+import { analyzeMainImageCompliance, ComplianceReport, ComplianceStatus } from '../services/compliance';
+
+interface ComplianceBadgesProps {
+  imageUrl: string;
+}
+
+const STATUS_STYLES: Record<ComplianceStatus, string> = {
+  pass: 'bg-green-50 text-green-700 border-green-200',
+  warn: 'bg-yellow-50 text-yellow-700 border-yellow-200',
+  fail: 'bg-red-50 text-red-600 border-red-200',
+};
+
+const StatusIcon: React.FC<{ status: ComplianceStatus }> = ({ status }) => {
+  switch (status) {
+    case 'pass':
+      return <CheckCircle2 className="w-3 h-3" />;
+    case 'warn':
+      return <AlertTriangle className="w-3 h-3" />;
+    default:
+      return <XCircle className="w-3 h-3" />;
+  }
+};
+
+export const ComplianceBadges: React.FC<ComplianceBadgesProps> = ({ imageUrl }) => {
+  const [report, setReport] = useState<ComplianceReport | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setReport(null);
+    setFailed(false);
+
+    analyzeMainImageCompliance(imageUrl)
+      .then(result => {
+        if (!cancelled) setReport(result);
+      })
+      .catch(error => {
+        console.error('Compliance analysis failed:', error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl]);
+
+  if (failed) {
+    return <p className="text-[10px] text-gray-400">无法分析主图合规性</p>;
+  }
+
+  if (!report) {
+    return (
+      <div className="flex items-center gap-1 text-[10px] text-gray-400">
+        <Loader2 className="w-3 h-3 animate-spin" /> 正在检查主图合规性...
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1" title="文字、Logo 和水印需人工确认">
+      {report.checks.map(check => (
+        <span
+          key={check.rule}
+          className={`inline-flex items-center gap-0.5 text-[10px] px-1.5 py-0.5 rounded border ${STATUS_STYLES[check.status]}`}
+          title={check.detail}
+        >
+          <StatusIcon status={check.status} />
+          {check.label}
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { X, Download, Loader2, FileImage } from 'lucide-react';
+import { GeneratedImage, ExportSettings } from '../types';
+import { EXPORT_PROFILES, IMAGE_SLOTS, ImageSlot, FILE_NAME_TOKENS, getExportProfile, buildFileName, renderExport, downloadBlob } from '../services/export';
+
+interface ExportDialogProps {
+  image: GeneratedImage;
+  settings: ExportSettings;
+  onSettingsChange: (settings: ExportSettings) => void;
+  onClose: () => void;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ image, settings, onSettingsChange, onClose }) => {
+  const [slot, setSlot] = useState<ImageSlot>('MAIN');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const profile = getExportProfile(settings.profileId);
+  const fileName = buildFileName(settings.fileNameTemplate, {
+    asin: settings.asin,
+    sku: image.sku || settings.sku,
+    slot,
+    vibe: image.vibe,
+    profile,
+    timestamp: image.timestamp,
+  });
+
+  const updateSettings = (changes: Partial<ExportSettings>) => {
+    onSettingsChange({ ...settings, ...changes });
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await renderExport(image.url, profile);
+      downloadBlob(blob, fileName);
+      onClose();
+    } catch (err) {
+      console.error('Export failed:', err);
+      setError(err instanceof Error ? err.message : '导出失败');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white rounded-xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-orange-100 text-primary rounded-lg">
+              <FileImage className="w-5 h-5" />
+            </div>
+            <div>
+              <h3 className="font-bold text-gray-800">导出图片</h3>
+              <p className="text-xs text-gray-500">选择平台尺寸并设置文件名</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full text-gray-500 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-5">
+          {/* Profiles */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">导出配置</label>
+            <div className="grid grid-cols-2 gap-2">
+              {EXPORT_PROFILES.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => updateSettings({ profileId: p.id })}
+                  className={`p-3 rounded-lg border text-left transition-all
+                    ${p.id === profile.id
+                      ? 'border-primary bg-orange-50 shadow-sm'
+                      : 'border-gray-200 bg-white hover:border-gray-300 hover:bg-gray-50'
+                    }`}
+                >
+                  <div className={`text-sm ${p.id === profile.id ? 'font-semibold text-primary' : 'font-medium text-gray-700'}`}>{p.name}</div>
+                  <div className="text-xs text-gray-500">{p.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Identifiers */}
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">SKU</label>
+              <input
+                type="text"
+                value={image.sku || settings.sku}
+                disabled={!!image.sku}
+                title={image.sku ? '来自产品目录' : undefined}
+                onChange={(e) => updateSettings({ sku: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">ASIN</label>
+              <input
+                type="text"
+                value={settings.asin}
+                onChange={(e) => updateSettings({ asin: e.target.value })}
+                className="w-full border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">图片槽位</label>
+              <select
+                value={slot}
+                onChange={(e) => setSlot(e.target.value as ImageSlot)}
+                className="w-full border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none bg-white"
+              >
+                {IMAGE_SLOTS.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {/* File name template */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">文件名模板</label>
+            <input
+              type="text"
+              value={settings.fileNameTemplate}
+              onChange={(e) => updateSettings({ fileNameTemplate: e.target.value })}
+              className="w-full border border-gray-300 rounded-lg p-2 text-sm font-mono focus:ring-2 focus:ring-primary focus:border-primary outline-none"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              可用变量：{FILE_NAME_TOKENS.join(' ')}。Amazon 批量上传使用 <code>{'{sku}.{slot}'}</code> 或 <code>{'{asin}.{slot}'}</code>。
+            </p>
+            <p className="text-xs text-gray-700 mt-2 bg-gray-50 border border-gray-200 rounded p-2 font-mono break-all">{fileName}</p>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-600 text-sm p-3 rounded-lg">{error}</div>
+          )}
+        </div>
+
+        {/* Actions */}
+        <div className="p-4 border-t border-gray-100 flex justify-end gap-2">
+          <button onClick={onClose} className="text-sm text-gray-500 hover:text-gray-700 px-4 py-2">取消</button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="bg-primary text-white px-4 py-2 rounded-lg text-sm font-medium hover:bg-orange-600 transition-colors flex items-center gap-2 disabled:opacity-70"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            下载
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { X, Sparkles, RotateCcw, Check, MousePointer2, Square } from 'lucide-react';
+import { X, Sparkles, RotateCcw, Check, MousePointer2, Square, Paintbrush, Lasso, Eraser, Undo2, Redo2, FlipHorizontal2 } from 'lucide-react';
 
 interface ImageEditorModalProps {
   isOpen: boolean;
@@ -9,6 +9,98 @@ interface ImageEditorModalProps {
   isProcessing: boolean;
 }
 
+type EditorTool = 'rect' | 'brush' | 'lasso' | 'eraser';
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Mask edits in image pixel coordinates; the mask is rebuilt by replaying them in order
+type MaskOperation =
+  | { type: 'rect'; x: number; y: number; w: number; h: number }
+  | { type: 'stroke'; mode: 'add' | 'erase'; size: number; points: Point[] }
+  | { type: 'lasso'; points: Point[] }
+  | { type: 'invert' }
+  | { type: 'clear' };
+
+interface MaskHistory {
+  done: MaskOperation[];
+  undone: MaskOperation[];
+}
+
+const TOOLS: { id: EditorTool; label: string; icon: React.ElementType }[] = [
+  { id: 'rect', label: '矩形', icon: Square },
+  { id: 'brush', label: '画笔', icon: Paintbrush },
+  { id: 'lasso', label: '套索', icon: Lasso },
+  { id: 'eraser', label: '橡皮', icon: Eraser },
+];
+
+// Paints the selected area as opaque white onto a transparent canvas
+const applyMaskOperation = (ctx: CanvasRenderingContext2D, op: MaskOperation) => {
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  ctx.fillStyle = '#FFFFFF';
+  ctx.strokeStyle = '#FFFFFF';
+  ctx.globalCompositeOperation = op.type === 'stroke' && op.mode === 'erase' ? 'destination-out' : 'source-over';
+
+  switch (op.type) {
+    case 'rect':
+      ctx.fillRect(op.x, op.y, op.w, op.h);
+      break;
+    case 'stroke': {
+      const [first, ...rest] = op.points;
+      if (!first) break;
+      ctx.beginPath();
+      if (rest.length === 0) {
+        ctx.arc(first.x, first.y, op.size / 2, 0, Math.PI * 2);
+        ctx.fill();
+      } else {
+        ctx.lineWidth = op.size;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.moveTo(first.x, first.y);
+        rest.forEach(p => ctx.lineTo(p.x, p.y));
+        ctx.stroke();
+      }
+      break;
+    }
+    case 'lasso':
+      if (op.points.length < 3) break;
+      ctx.beginPath();
+      ctx.moveTo(op.points[0].x, op.points[0].y);
+      op.points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      ctx.closePath();
+      ctx.fill();
+      break;
+    case 'invert':
+      // XOR with an opaque rect flips the alpha of every pixel
+      ctx.globalCompositeOperation = 'xor';
+      ctx.fillRect(0, 0, width, height);
+      break;
+    case 'clear':
+      ctx.clearRect(0, 0, width, height);
+      break;
+  }
+
+  ctx.restore();
+};
+
+// Cheap emptiness check on a downscaled copy of the mask
+const isMaskEmpty = (mask: HTMLCanvasElement): boolean => {
+  const probe = document.createElement('canvas');
+  probe.width = Math.min(256, mask.width);
+  probe.height = Math.min(256, mask.height);
+  const ctx = probe.getContext('2d');
+  if (!ctx) return false;
+  ctx.drawImage(mask, 0, 0, probe.width, probe.height);
+  const data = ctx.getImageData(0, 0, probe.width, probe.height).data;
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
 export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
   isOpen,
   onClose,
@@ -17,12 +109,18 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
   isProcessing
 }) => {
   const [prompt, setPrompt] = useState('');
-  const [isSelecting, setIsSelecting] = useState(false);
-  const [selection, setSelection] = useState<{x: number, y: number, w: number, h: number} | null>(null);
-  const [startPos, setStartPos] = useState<{x: number, y: number} | null>(null);
-  
+  const [tool, setTool] = useState<EditorTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [history, setHistory] = useState<MaskHistory>({ done: [], undone: [] });
+  const [draft, setDraft] = useState<MaskOperation | null>(null);
+  const [lassoPoints, setLassoPoints] = useState<Point[]>([]);
+  const [hoverPos, setHoverPos] = useState<Point | null>(null);
+  const [hasMask, setHasMask] = useState(false);
+
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const maskCanvasRef = useRef<HTMLCanvasElement | null>(null); // Committed mask (white = edit area)
+  const scratchCanvasRef = useRef<HTMLCanvasElement | null>(null); // Committed mask + in-progress operation
   const [imageDimensions, setImageDimensions] = useState({ width: 0, height: 0 });
 
   // Load image to get dimensions and setup canvas
@@ -39,47 +137,133 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
   // Reset state on open
   useEffect(() => {
     if (isOpen) {
-        setSelection(null);
-        setStartPos(null);
-        setIsSelecting(false);
+        setHistory({ done: [], undone: [] });
+        setDraft(null);
+        setLassoPoints([]);
         setPrompt('');
     }
   }, [isOpen]);
 
-  // Redraw canvas whenever selection changes
+  // Rebuild the committed mask whenever the operation list changes
+  useEffect(() => {
+    if (imageDimensions.width === 0) return;
+
+    if (!maskCanvasRef.current) {
+      maskCanvasRef.current = document.createElement('canvas');
+      scratchCanvasRef.current = document.createElement('canvas');
+    }
+    const mask = maskCanvasRef.current;
+    mask.width = imageDimensions.width;
+    mask.height = imageDimensions.height;
+    const ctx = mask.getContext('2d');
+    if (!ctx) return;
+
+    history.done.forEach(op => applyMaskOperation(ctx, op));
+    setHasMask(!isMaskEmpty(mask));
+  }, [history.done, imageDimensions]);
+
+  // Redraw the overlay: dim everything outside the mask, then draw tool guides
   useEffect(() => {
-    if (!canvasRef.current || imageDimensions.width === 0) return;
-    
     const canvas = canvasRef.current;
+    const mask = maskCanvasRef.current;
+    const scratch = scratchCanvasRef.current;
+    if (!canvas || !mask || !scratch || imageDimensions.width === 0) return;
+
     const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    const scratchCtx = scratch.getContext('2d');
+    if (!ctx || !scratchCtx) return;
 
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height);
+    const scale = canvas.width / canvas.getBoundingClientRect().width || 1;
+
+    if (hasMask || draft) {
+      scratch.width = mask.width;
+      scratch.height = mask.height;
+      scratchCtx.drawImage(mask, 0, 0);
+      if (draft) applyMaskOperation(scratchCtx, draft);
+
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.globalCompositeOperation = 'destination-out';
+      ctx.drawImage(scratch, 0, 0);
+      ctx.globalCompositeOperation = 'source-over';
+    }
+
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = 2 * scale;
+    ctx.setLineDash([6 * scale, 4 * scale]);
 
-    // If there is a selection, draw semi-transparent overlay everywhere EXCEPT the selection
-    if (selection) {
-        // Draw semi-transparent black over everything
-        ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
-        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    if (draft?.type === 'rect') {
+      ctx.strokeRect(draft.x, draft.y, draft.w, draft.h);
+    }
 
-        // Clear the selected area (making it transparent to see the image below)
-        ctx.clearRect(selection.x, selection.y, selection.w, selection.h);
+    if (lassoPoints.length > 0) {
+      ctx.beginPath();
+      ctx.moveTo(lassoPoints[0].x, lassoPoints[0].y);
+      lassoPoints.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+      if (hoverPos) ctx.lineTo(hoverPos.x, hoverPos.y);
+      ctx.stroke();
+    }
 
-        // Draw border around selection
-        ctx.strokeStyle = '#ffffff';
-        ctx.lineWidth = 2;
-        ctx.setLineDash([6, 4]);
-        ctx.strokeRect(selection.x, selection.y, selection.w, selection.h);
+    if (hoverPos && (tool === 'brush' || tool === 'eraser')) {
+      ctx.setLineDash([]);
+      ctx.beginPath();
+      ctx.arc(hoverPos.x, hoverPos.y, brushSize / 2, 0, Math.PI * 2);
+      ctx.stroke();
     }
-  }, [selection, imageDimensions]);
+  }, [history.done, hasMask, draft, lassoPoints, hoverPos, tool, brushSize, imageDimensions]);
+
+  const commitOperation = (op: MaskOperation) => {
+    setHistory(prev => ({ done: [...prev.done, op], undone: [] }));
+  };
+
+  const undo = () => {
+    setHistory(prev => prev.done.length === 0 ? prev : {
+      done: prev.done.slice(0, -1),
+      undone: [...prev.undone, prev.done[prev.done.length - 1]]
+    });
+  };
+
+  const redo = () => {
+    setHistory(prev => prev.undone.length === 0 ? prev : {
+      done: [...prev.done, prev.undone[prev.undone.length - 1]],
+      undone: prev.undone.slice(0, -1)
+    });
+  };
+
+  // Keyboard shortcuts: Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl+Y redo, Esc cancels the lasso
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLTextAreaElement) return;
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && key === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if ((e.ctrlKey || e.metaKey) && key === 'y') {
+        e.preventDefault();
+        redo();
+      } else if (key === 'escape') {
+        setLassoPoints([]);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
 
   const getCoordinates = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
     if (!canvasRef.current) return { x: 0, y: 0 };
-    
+
     const canvas = canvasRef.current;
     const rect = canvas.getBoundingClientRect();
-    
+
     let clientX, clientY;
     if ('touches' in e) {
       clientX = e.touches[0].clientX;
@@ -98,54 +282,100 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
     };
   };
 
+  const closeLasso = () => {
+    if (lassoPoints.length >= 3) {
+      commitOperation({ type: 'lasso', points: lassoPoints });
+    }
+    setLassoPoints([]);
+  };
+
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-    setIsSelecting(true);
     const coords = getCoordinates(e);
-    setStartPos(coords);
-    setSelection({ x: coords.x, y: coords.y, w: 0, h: 0 });
+
+    switch (tool) {
+      case 'rect':
+        setDraft({ type: 'rect', x: coords.x, y: coords.y, w: 0, h: 0 });
+        break;
+      case 'brush':
+      case 'eraser':
+        setDraft({ type: 'stroke', mode: tool === 'eraser' ? 'erase' : 'add', size: brushSize, points: [coords] });
+        break;
+      case 'lasso': {
+        // Clicking near the first point closes the polygon
+        const canvas = canvasRef.current;
+        const snapDistance = canvas ? 12 * (canvas.width / canvas.getBoundingClientRect().width) : 12;
+        const first = lassoPoints[0];
+        const last = lassoPoints[lassoPoints.length - 1];
+        if (first && lassoPoints.length >= 3 && Math.hypot(coords.x - first.x, coords.y - first.y) < snapDistance) {
+          closeLasso();
+        } else if (!last || Math.hypot(coords.x - last.x, coords.y - last.y) > 2) {
+          setLassoPoints([...lassoPoints, coords]);
+        }
+        break;
+      }
+    }
   };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement> | React.TouchEvent<HTMLCanvasElement>) => {
-    if (!isSelecting || !startPos) return;
-    e.preventDefault(); // Prevent scrolling on touch
-
     const current = getCoordinates(e);
-    
-    const x = Math.min(startPos.x, current.x);
-    const y = Math.min(startPos.y, current.y);
-    const w = Math.abs(current.x - startPos.x);
-    const h = Math.abs(current.y - startPos.y);
+    setHoverPos(current);
+    if (!draft) return;
+    e.preventDefault(); // Prevent scrolling on touch
 
-    setSelection({ x, y, w, h });
+    if (draft.type === 'rect') {
+      // Anchor is kept in the original x/y until the rect is normalized on release
+      setDraft({ ...draft, w: current.x - draft.x, h: current.y - draft.y });
+    } else if (draft.type === 'stroke') {
+      setDraft({ ...draft, points: [...draft.points, current] });
+    }
   };
 
   const handleMouseUp = () => {
-    setIsSelecting(false);
-    setStartPos(null);
+    if (!draft) return;
+
+    if (draft.type === 'rect') {
+      const rect = {
+        type: 'rect' as const,
+        x: Math.min(draft.x, draft.x + draft.w),
+        y: Math.min(draft.y, draft.y + draft.h),
+        w: Math.abs(draft.w),
+        h: Math.abs(draft.h)
+      };
+      if (rect.w > 1 && rect.h > 1) commitOperation(rect);
+    } else {
+      commitOperation(draft);
+    }
+    setDraft(null);
+  };
+
+  const handleMouseLeave = () => {
+    setHoverPos(null);
+    handleMouseUp();
   };
 
   const clearSelection = () => {
-    setSelection(null);
+    setLassoPoints([]);
+    if (history.done.length > 0) commitOperation({ type: 'clear' });
   };
 
   const handleGenerateClick = () => {
-    if (!selection || imageDimensions.width === 0) return;
-    
-    // Create mask: Black background, White rectangle for selection
+    const selectionMask = maskCanvasRef.current;
+    if (!selectionMask || !hasMask || imageDimensions.width === 0) return;
+
+    // Create mask: Black background, white for every selected region
     const maskCanvas = document.createElement('canvas');
     maskCanvas.width = imageDimensions.width;
     maskCanvas.height = imageDimensions.height;
     const maskCtx = maskCanvas.getContext('2d');
-    
+
     if (maskCtx) {
         // 1. Fill black (ignore)
         maskCtx.fillStyle = '#000000';
         maskCtx.fillRect(0, 0, maskCanvas.width, maskCanvas.height);
-        
-        // 2. Fill selection with white (edit area)
-        maskCtx.fillStyle = '#FFFFFF';
-        maskCtx.fillRect(selection.x, selection.y, selection.w, selection.h);
-        
+
+        // 2. Draw the combined selection in white (edit area)
+        maskCtx.drawImage(selectionMask, 0, 0);
+
         const maskBase64 = maskCanvas.toDataURL('image/png');
         onGenerate(maskBase64, prompt);
     }
@@ -153,22 +383,26 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
 
   if (!isOpen) return null;
 
+  const hint = tool === 'lasso'
+    ? '单击添加顶点，双击或点击起点闭合，Esc 取消'
+    : tool === 'rect' ? '拖拽选择区域并描述更改' : '涂抹需要修改的区域';
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fadeIn">
       <div className="bg-white rounded-xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden shadow-2xl">
-        
+
         {/* Header */}
         <div className="flex items-center justify-between p-4 border-b border-gray-100">
           <div className="flex items-center gap-2">
              <div className="p-2 bg-purple-100 text-purple-600 rounded-lg">
-                <Square className="w-5 h-5" />
+                <Paintbrush className="w-5 h-5" />
              </div>
              <div>
                <h3 className="font-bold text-gray-800">魔法编辑器</h3>
-               <p className="text-xs text-gray-500">拖拽选择区域并描述更改</p>
+               <p className="text-xs text-gray-500">{hint}</p>
              </div>
           </div>
-          <button 
+          <button
             onClick={onClose}
             className="p-2 hover:bg-gray-100 rounded-full text-gray-500 transition-colors"
           >
@@ -178,17 +412,17 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
 
         {/* Main Content */}
         <div className="flex-1 flex flex-col lg:flex-row min-h-0">
-            
+
             {/* Canvas Area */}
-            <div 
+            <div
                 ref={containerRef}
                 className="flex-1 bg-gray-100 relative overflow-auto flex items-center justify-center p-4 select-none"
             >
                 {imageDimensions.width > 0 && (
                     <div className="relative shadow-lg" style={{ width: 'fit-content' }}>
-                        <img 
-                            src={imageUrl} 
-                            alt="目标" 
+                        <img
+                            src={imageUrl}
+                            alt="目标"
                             className="max-w-full max-h-[60vh] object-contain block pointer-events-none"
                             draggable={false}
                         />
@@ -196,11 +430,12 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
                             ref={canvasRef}
                             width={imageDimensions.width}
                             height={imageDimensions.height}
-                            className="absolute top-0 left-0 w-full h-full cursor-crosshair touch-none"
+                            className={`absolute top-0 left-0 w-full h-full touch-none ${tool === 'brush' || tool === 'eraser' ? 'cursor-none' : 'cursor-crosshair'}`}
                             onMouseDown={handleMouseDown}
                             onMouseMove={handleMouseMove}
                             onMouseUp={handleMouseUp}
-                            onMouseLeave={handleMouseUp}
+                            onMouseLeave={handleMouseLeave}
+                            onDoubleClick={() => tool === 'lasso' && closeLasso()}
                             onTouchStart={handleMouseDown}
                             onTouchMove={handleMouseMove}
                             onTouchEnd={handleMouseUp}
@@ -210,30 +445,82 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
             </div>
 
             {/* Controls Sidebar */}
-            <div className="w-full lg:w-80 bg-white border-l border-gray-100 flex flex-col p-5 gap-6 z-10">
-                
+            <div className="w-full lg:w-80 bg-white border-l border-gray-100 flex flex-col p-5 gap-6 z-10 overflow-y-auto">
+
                 {/* Selection Tools */}
                 <div>
                     <label className="text-sm font-medium text-gray-700 mb-3 block">选择</label>
-                    <div className="flex items-center gap-3 mb-4">
-                         <div className="flex-1 bg-gray-100 rounded-lg p-1 flex">
-                             <button className="flex-1 py-1.5 px-2 text-xs font-medium bg-white shadow rounded-md text-gray-800 flex items-center justify-center gap-1">
-                                 <Square className="w-3.5 h-3.5" /> 矩形选框
-                             </button>
-                         </div>
-                         <button 
+                    <div className="bg-gray-100 rounded-lg p-1 grid grid-cols-4 gap-1 mb-3">
+                        {TOOLS.map(({ id, label, icon: Icon }) => (
+                            <button
+                                key={id}
+                                onClick={() => {
+                                    setTool(id);
+                                    setLassoPoints([]);
+                                }}
+                                className={`py-1.5 px-2 text-xs font-medium rounded-md flex flex-col items-center justify-center gap-0.5 transition-colors
+                                    ${tool === id ? 'bg-white shadow text-gray-800' : 'text-gray-500 hover:text-gray-700'}`}
+                            >
+                                <Icon className="w-3.5 h-3.5" /> {label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {(tool === 'brush' || tool === 'eraser') && (
+                        <div className="mb-3">
+                            <div className="flex justify-between text-xs text-gray-600 mb-1">
+                                <span>笔刷大小</span>
+                                <span className="font-mono">{brushSize}px</span>
+                            </div>
+                            <input
+                                type="range"
+                                min={5}
+                                max={300}
+                                value={brushSize}
+                                onChange={(e) => setBrushSize(Number(e.target.value))}
+                                className="w-full accent-purple-600"
+                            />
+                        </div>
+                    )}
+
+                    <div className="flex items-center gap-1 mb-4">
+                        <button
+                            onClick={undo}
+                            disabled={history.done.length === 0}
+                            className="p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                            title="撤销 (Ctrl+Z)"
+                        >
+                            <Undo2 className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={redo}
+                            disabled={history.undone.length === 0}
+                            className="p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                            title="重做 (Ctrl+Shift+Z)"
+                        >
+                            <Redo2 className="w-4 h-4" />
+                        </button>
+                        <button
+                            onClick={() => commitOperation({ type: 'invert' })}
+                            className="p-2 text-gray-500 hover:text-gray-800 hover:bg-gray-100 rounded-lg transition-colors"
+                            title="反选"
+                        >
+                            <FlipHorizontal2 className="w-4 h-4" />
+                        </button>
+                        <div className="flex-1" />
+                        <button
                             onClick={clearSelection}
                             className="p-2 text-gray-500 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"
                             title="清除选择"
-                         >
+                        >
                             <RotateCcw className="w-4 h-4" />
-                         </button>
+                        </button>
                     </div>
-                    
-                    {selection ? (
+
+                    {hasMask ? (
                         <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-xs text-green-700 flex items-center gap-2">
                             <Check className="w-4 h-4" />
-                            已选择区域 ({Math.round(selection.w)}x{Math.round(selection.h)})
+                            已选择编辑区域（{history.done.length} 步操作）
                         </div>
                     ) : (
                         <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs text-gray-500 flex items-center gap-2">
@@ -258,9 +545,9 @@ export const ImageEditorModal: React.FC<ImageEditorModalProps> = ({
                 <div className="mt-auto pt-4 border-t border-gray-100">
                     <button
                         onClick={handleGenerateClick}
-                        disabled={!selection || !prompt.trim() || isProcessing}
+                        disabled={!hasMask || !prompt.trim() || isProcessing}
                         className={`w-full py-3 rounded-xl flex items-center justify-center gap-2 font-bold text-white transition-all
-                            ${!selection || !prompt.trim() || isProcessing
+                            ${!hasMask || !prompt.trim() || isProcessing
                                 ? 'bg-gray-300 cursor-not-allowed'
                                 : 'bg-gradient-to-r from-purple-600 to-indigo-600 hover:shadow-lg hover:from-purple-700 hover:to-indigo-700 transform hover:-translate-y-0.5'
                             }`}
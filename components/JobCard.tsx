@@ -0,0 +1,82 @@
+import React from 'react';
+import { Clock, Loader2, Wand2, Image as ImageIcon, AlertCircle, X, Ban, Eye, SkipForward } from 'lucide-react';
+import { GenerationJob, GenerationJobStatus } from '../types';
+
+interface JobCardProps {
+  job: GenerationJob;
+  onDismiss?: (job: GenerationJob) => void;
+}
+
+const STATUS_LABELS: Record<GenerationJobStatus, string> = {
+  queued: '排队中',
+  expanding: '正在设计场景',
+  awaiting_review: '等待审核提示词',
+  rendering: '正在渲染',
+  done: '已完成',
+  failed: '生成失败',
+  cancelled: '已取消',
+  skipped: '已跳过',
+};
+
+export const JobCard: React.FC<JobCardProps> = ({ job, onDismiss }) => {
+  const isFailed = job.status === 'failed';
+
+  const renderIcon = () => {
+    switch (job.status) {
+      case 'queued':
+        return <Clock className="w-8 h-8 text-gray-300" />;
+      case 'expanding':
+        return <Wand2 className="w-8 h-8 text-primary animate-pulse" />;
+      case 'awaiting_review':
+        return <Eye className="w-8 h-8 text-amber-500" />;
+      case 'rendering':
+        return <ImageIcon className="w-8 h-8 text-primary animate-pulse" />;
+      case 'failed':
+        return <AlertCircle className="w-8 h-8 text-red-400" />;
+      case 'cancelled':
+        return <Ban className="w-8 h-8 text-gray-300" />;
+      case 'skipped':
+        return <SkipForward className="w-8 h-8 text-gray-300" />;
+      default:
+        return <Loader2 className="w-8 h-8 text-gray-300 animate-spin" />;
+    }
+  };
+
+  return (
+    <div className={`relative bg-white rounded-xl shadow-sm border overflow-hidden ${isFailed ? 'border-red-200' : 'border-gray-100'}`}>
+      <div className={`aspect-square w-full flex flex-col items-center justify-center gap-3 p-4 text-center ${isFailed ? 'bg-red-50' : 'bg-gray-50'}`}>
+        {renderIcon()}
+        <div className="flex items-center gap-1.5 text-sm font-medium text-gray-600">
+          {(job.status === 'expanding' || job.status === 'rendering') && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+          {STATUS_LABELS[job.status]}
+        </div>
+        {isFailed && job.error && (
+          <p className="text-xs text-red-500 line-clamp-3" title={job.error}>{job.error}</p>
+        )}
+        {!isFailed && job.streamedPrompt && (
+          <p className="text-[11px] text-gray-500 text-left line-clamp-6 w-full">
+            {job.streamedPrompt}
+            {job.status === 'expanding' && <span className="inline-block w-1.5 h-3 bg-primary/60 ml-0.5 align-middle animate-pulse" />}
+          </p>
+        )}
+      </div>
+      {(isFailed || job.status === 'cancelled' || job.status === 'skipped') && onDismiss && (
+        <button
+          onClick={() => onDismiss(job)}
+          className="absolute top-2 right-2 p-1 bg-white/80 rounded-full text-gray-500 hover:text-gray-700 hover:bg-white transition-colors"
+          title="移除"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      )}
+      <div className="p-3">
+        <p className="text-xs text-gray-500 truncate">
+          {job.productName && <span className="font-mono text-gray-400">{job.productName} · </span>}
+          {job.presetName}
+          {job.abVariant && <span className="font-semibold text-purple-600"> · {job.abVariant}</span>}
+          <span className="text-gray-400"> · 变体 #{job.variationIndex + 1}</span>
+        </p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,273 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, ZoomIn, ZoomOut, Maximize, FileText, Wand2, Columns2 } from 'lucide-react';
+import { GeneratedImage } from '../types';
+import { LLMUsage } from '../services/llm';
+import { formatTotalsCost, sumUsage } from '../services/usageLedger';
+
+interface LightboxProps {
+  images: GeneratedImage[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  onEdit?: (image: GeneratedImage) => void;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4; // 400% is enough to judge Amazon's hover-zoom sharpness
+const ZOOM_STEP = 0.25;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const Lightbox: React.FC<LightboxProps> = ({ images, index, onIndexChange, onClose, onEdit }) => {
+  const image = images[index];
+  const canCompare = !!image?.sourceImage;
+
+  const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [sliderPosition, setSliderPosition] = useState(0.5); // 0 = all "after", 1 = all "before"
+  const [isComparing, setIsComparing] = useState(true);
+  const [showPrompt, setShowPrompt] = useState(true);
+
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ type: 'pan' | 'slider'; startX: number; startY: number; originX: number; originY: number } | null>(null);
+
+  // Reset the view when moving to another image
+  useEffect(() => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+    setSliderPosition(0.5);
+  }, [index]);
+
+  const goTo = (next: number) => {
+    if (images.length === 0) return;
+    onIndexChange((next + images.length) % images.length);
+  };
+
+  const applyZoom = (nextZoom: number) => {
+    const clamped = clampZoom(nextZoom);
+    setZoom(clamped);
+    // Keep the pan offset proportional so the same region stays in view
+    setPan(prev => clamped === 1 ? { x: 0, y: 0 } : { x: prev.x * clamped / zoom, y: prev.y * clamped / zoom });
+  };
+
+  // Keyboard: ←/→ navigate, +/- zoom, 0 reset, Esc close
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      switch (e.key) {
+        case 'ArrowLeft':
+          goTo(index - 1);
+          break;
+        case 'ArrowRight':
+          goTo(index + 1);
+          break;
+        case 'Escape':
+          onClose();
+          break;
+        case '+':
+        case '=':
+          applyZoom(zoom + ZOOM_STEP);
+          break;
+        case '-':
+          applyZoom(zoom - ZOOM_STEP);
+          break;
+        case '0':
+          applyZoom(1);
+          break;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [index, images.length, zoom]);
+
+  // Window-level listeners so drags continue outside the viewport
+  useEffect(() => {
+    const handleMouseMove = (e: MouseEvent) => {
+      const drag = dragRef.current;
+      const viewport = viewportRef.current;
+      if (!drag || !viewport) return;
+
+      if (drag.type === 'slider') {
+        const rect = viewport.getBoundingClientRect();
+        setSliderPosition(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+      } else {
+        const rect = viewport.getBoundingClientRect();
+        const maxX = (rect.width * (zoom - 1)) / 2;
+        const maxY = (rect.height * (zoom - 1)) / 2;
+        setPan({
+          x: Math.min(maxX, Math.max(-maxX, drag.originX + e.clientX - drag.startX)),
+          y: Math.min(maxY, Math.max(-maxY, drag.originY + e.clientY - drag.startY)),
+        });
+      }
+    };
+    const handleMouseUp = () => {
+      dragRef.current = null;
+    };
+
+    window.addEventListener('mousemove', handleMouseMove);
+    window.addEventListener('mouseup', handleMouseUp);
+    return () => {
+      window.removeEventListener('mousemove', handleMouseMove);
+      window.removeEventListener('mouseup', handleMouseUp);
+    };
+  }, [zoom]);
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    applyZoom(zoom + (e.deltaY < 0 ? ZOOM_STEP : -ZOOM_STEP));
+  };
+
+  const startPan = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (zoom === 1) return;
+    e.preventDefault();
+    dragRef.current = { type: 'pan', startX: e.clientX, startY: e.clientY, originX: pan.x, originY: pan.y };
+  };
+
+  const startSlider = (e: React.MouseEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    dragRef.current = { type: 'slider', startX: e.clientX, startY: e.clientY, originX: 0, originY: 0 };
+  };
+
+  if (!image) return null;
+
+  const usageCalls = image.usage ? [image.usage.expand, image.usage.generate, image.usage.edit].filter((call): call is LLMUsage => !!call) : [];
+  const usageTotals = sumUsage(usageCalls);
+
+  // Both layers share one transform so pan and zoom stay in sync
+  const layerStyle: React.CSSProperties = {
+    transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`,
+    transformOrigin: 'center center',
+  };
+  const showBefore = canCompare && isComparing;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 flex flex-col animate-fadeIn">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-4 py-3 text-white shrink-0">
+        <div className="min-w-0">
+          <p className="font-semibold truncate">{image.vibe}</p>
+          <p className="text-xs text-white/50">{index + 1} / {images.length}</p>
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={() => applyZoom(zoom - ZOOM_STEP)} className="p-2 hover:bg-white/10 rounded-lg transition-colors" title="缩小 (-)">
+            <ZoomOut className="w-5 h-5" />
+          </button>
+          <span className="text-xs font-mono w-12 text-center">{Math.round(zoom * 100)}%</span>
+          <button onClick={() => applyZoom(zoom + ZOOM_STEP)} className="p-2 hover:bg-white/10 rounded-lg transition-colors" title="放大 (+)">
+            <ZoomIn className="w-5 h-5" />
+          </button>
+          <button onClick={() => applyZoom(1)} className="p-2 hover:bg-white/10 rounded-lg transition-colors" title="适应窗口 (0)">
+            <Maximize className="w-5 h-5" />
+          </button>
+          {canCompare && (
+            <button
+              onClick={() => setIsComparing(!isComparing)}
+              className={`p-2 rounded-lg transition-colors ${isComparing ? 'bg-white/20' : 'hover:bg-white/10'}`}
+              title="前后对比"
+            >
+              <Columns2 className="w-5 h-5" />
+            </button>
+          )}
+          <button
+            onClick={() => setShowPrompt(!showPrompt)}
+            className={`p-2 rounded-lg transition-colors ${showPrompt ? 'bg-white/20' : 'hover:bg-white/10'}`}
+            title="提示词"
+          >
+            <FileText className="w-5 h-5" />
+          </button>
+          {onEdit && (
+            <button onClick={() => onEdit(image)} className="p-2 hover:bg-white/10 rounded-lg transition-colors" title="魔法编辑">
+              <Wand2 className="w-5 h-5" />
+            </button>
+          )}
+          <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-lg transition-colors ml-2" title="关闭 (Esc)">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* Viewport */}
+        <div className="flex-1 relative min-w-0">
+          <div
+            ref={viewportRef}
+            className={`absolute inset-4 overflow-hidden select-none ${zoom > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+            onMouseDown={startPan}
+            onWheel={handleWheel}
+          >
+            {/* After: generated result */}
+            <div className="absolute inset-0" style={layerStyle}>
+              <img src={image.url} alt={image.vibe} className="w-full h-full object-contain pointer-events-none" draggable={false} />
+            </div>
+
+            {/* Before: source product, clipped to the left of the slider */}
+            {showBefore && (
+              <>
+                <div className="absolute inset-0" style={{ clipPath: `inset(0 ${(1 - sliderPosition) * 100}% 0 0)` }}>
+                  <div className="absolute inset-0 bg-white" style={layerStyle}>
+                    <img src={image.sourceImage} alt="原图" className="w-full h-full object-contain pointer-events-none" draggable={false} />
+                  </div>
+                </div>
+                <div
+                  className="absolute top-0 bottom-0 w-1 -ml-0.5 bg-white cursor-ew-resize"
+                  style={{ left: `${sliderPosition * 100}%` }}
+                  onMouseDown={startSlider}
+                >
+                  <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-8 h-8 rounded-full bg-white shadow-lg flex items-center justify-center text-gray-600">
+                    <ChevronLeft className="w-3 h-3" />
+                    <ChevronRight className="w-3 h-3" />
+                  </div>
+                </div>
+                <span className="absolute top-2 left-2 bg-black/60 text-white text-xs px-2 py-1 rounded">原图</span>
+                <span className="absolute top-2 right-2 bg-black/60 text-white text-xs px-2 py-1 rounded">生成</span>
+              </>
+            )}
+          </div>
+
+          {images.length > 1 && (
+            <>
+              <button
+                onClick={() => goTo(index - 1)}
+                className="absolute left-2 top-1/2 -translate-y-1/2 p-2 bg-black/40 hover:bg-black/70 text-white rounded-full transition-colors"
+                title="上一张 (←)"
+              >
+                <ChevronLeft className="w-6 h-6" />
+              </button>
+              <button
+                onClick={() => goTo(index + 1)}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-2 bg-black/40 hover:bg-black/70 text-white rounded-full transition-colors"
+                title="下一张 (→)"
+              >
+                <ChevronRight className="w-6 h-6" />
+              </button>
+            </>
+          )}
+        </div>
+
+        {/* Prompt panel */}
+        {showPrompt && (
+          <div className="w-80 shrink-0 bg-white/5 border-l border-white/10 p-4 overflow-y-auto text-white/80 space-y-4">
+            <div>
+              <p className="text-xs font-semibold text-white/50 uppercase mb-1">扩展提示词</p>
+              <p className="text-sm whitespace-pre-wrap leading-relaxed">{image.prompt}</p>
+            </div>
+            {image.edit && (
+              <div>
+                <p className="text-xs font-semibold text-white/50 uppercase mb-1">编辑指令</p>
+                <p className="text-sm">{image.edit.instruction}</p>
+              </div>
+            )}
+            <div className="text-xs text-white/50 space-y-1">
+              {image.sku && <p>SKU：{image.sku}</p>}
+              {image.model && <p>模型：{image.model}</p>}
+              {image.seed !== undefined && <p>种子：{image.seed}</p>}
+              {usageCalls.length > 0 && <p>用量：{usageTotals.totalTokens.toLocaleString()} tokens · {formatTotalsCost(usageTotals)}</p>}
+              {image.variationIndex !== undefined && <p>变体 #{image.variationIndex + 1}</p>}
+              <p>{new Date(image.timestamp).toLocaleString()}</p>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { MattingSettings } from '../types';
+import { removeWhiteBackground } from '../utils';
+
+interface MattePreviewProps {
+  file: File;
+  settings: MattingSettings;
+  onSettingsChange: (settings: MattingSettings) => void;
+}
+
+// Previews are matted on a downscaled copy so slider changes stay responsive
+const PREVIEW_SIZE = 480;
+
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundImage: 'conic-gradient(#e5e7eb 25%, #ffffff 0 50%, #e5e7eb 0 75%, #ffffff 0)',
+  backgroundSize: '16px 16px',
+};
+
+export const MattePreview: React.FC<MattePreviewProps> = ({ file, settings, onSettingsChange }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsProcessing(true);
+
+    // Debounce while a slider is being dragged
+    const timer = setTimeout(() => {
+      removeWhiteBackground(file, settings, PREVIEW_SIZE)
+        .then(url => {
+          if (!cancelled) setPreviewUrl(url);
+        })
+        .catch(error => console.error('Background removal preview failed:', error))
+        .finally(() => {
+          if (!cancelled) setIsProcessing(false);
+        });
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [file, settings.tolerance, settings.feather, settings.decontaminate]);
+
+  return (
+    <div className="space-y-3">
+      <div className="relative rounded-lg border border-gray-200 overflow-hidden" style={CHECKERBOARD_STYLE}>
+        {previewUrl && <img src={previewUrl} alt="抠图预览" className="max-h-48 mx-auto object-contain" />}
+        {isProcessing && (
+          <div className="absolute top-2 right-2 bg-white/80 rounded-full p-1">
+            <Loader2 className="w-4 h-4 animate-spin text-gray-500" />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex justify-between text-xs text-gray-600 mb-1">
+          <span>容差</span>
+          <span className="font-mono">{settings.tolerance}</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          value={settings.tolerance}
+          onChange={(e) => onSettingsChange({ ...settings, tolerance: Number(e.target.value) })}
+          className="w-full accent-orange-500"
+        />
+        <p className="text-[10px] text-gray-400">越大移除的浅色阴影越多；产品边缘被吃掉时请调小</p>
+      </div>
+
+      <div>
+        <div className="flex justify-between text-xs text-gray-600 mb-1">
+          <span>边缘羽化</span>
+          <span className="font-mono">{settings.feather}px</span>
+        </div>
+        <input
+          type="range"
+          min={0}
+          max={10}
+          value={settings.feather}
+          onChange={(e) => onSettingsChange({ ...settings, feather: Number(e.target.value) })}
+          className="w-full accent-orange-500"
+        />
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-gray-600 select-none cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.decontaminate}
+          onChange={(e) => onSettingsChange({ ...settings, decontaminate: e.target.checked })}
+          className="w-3.5 h-3.5 text-primary border-gray-300 rounded focus:ring-primary"
+        />
+        去除白边光晕
+      </label>
+    </div>
+  );
+};
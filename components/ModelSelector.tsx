@@ -1,13 +1,15 @@
 import React from 'react';
-import { LLMProvider } from '../types';
-import { Sparkles, ChevronDown, Check, Zap, Banana, Brain, Terminal } from 'lucide-react';
+import { LLMTask, ModelRoute, ProviderRegistry } from '../services/llm';
+import { Sparkles, ChevronDown, Check, Zap, Banana } from 'lucide-react';
 
 interface ModelSelectorProps {
-  selectedModel: LLMProvider;
-  onSelect: (model: LLMProvider) => void;
+  label: string;
+  task: LLMTask;
+  route: ModelRoute;
+  onSelect: (route: ModelRoute) => void;
 }
 
-export const ModelSelector: React.FC<ModelSelectorProps> = ({ selectedModel, onSelect }) => {
+export const ModelSelector: React.FC<ModelSelectorProps> = ({ label, task, route, onSelect }) => {
   const [isOpen, setIsOpen] = React.useState(false);
   const dropdownRef = React.useRef<HTMLDivElement>(null);
 
@@ -22,32 +24,24 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ selectedModel, onS
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const getModelIcon = (provider: LLMProvider) => {
-    switch (provider) {
-      case LLMProvider.GEMINI_3_PRO_IMAGE_PREVIEW:
-        return <Banana className="w-4 h-4 text-yellow-500" />;
-      case LLMProvider.GEMINI_3_PRO_PREVIEW:
-        return <Sparkles className="w-4 h-4 text-blue-500" />;
-      default:
-        return <Zap className="w-4 h-4 text-gray-500" />;
-    }
-  };
+  const options = ProviderRegistry.listModelsForTask(task);
+  const selectedProvider = ProviderRegistry.get(route.providerId);
+  const selectedModel = ProviderRegistry.findModel(route.providerId, route.model);
 
-  const getModelDescription = (provider: LLMProvider) => {
-    switch (provider) {
-      case LLMProvider.GEMINI_3_PRO_IMAGE_PREVIEW:
-        return "Nano Banana Pro (图像生成)";
-      case LLMProvider.GEMINI_3_PRO_PREVIEW:
-        return "Gemini 3 Pro 预览版 (文本)";
-      default:
-        return "标准模型";
+  const getModelIcon = (modelId: string) => {
+    if (/image/i.test(modelId)) {
+      return <Banana className="w-4 h-4 text-yellow-500" />;
+    }
+    if (/gemini/i.test(modelId)) {
+      return <Sparkles className="w-4 h-4 text-blue-500" />;
     }
+    return <Zap className="w-4 h-4 text-gray-500" />;
   };
 
   return (
     <div className="relative" ref={dropdownRef}>
-      <label className="block text-sm font-medium text-gray-700 mb-1">AI 模型</label>
-      
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+
       <button
         onClick={() => setIsOpen(!isOpen)}
         className={`w-full flex items-center justify-between p-3 bg-white border rounded-xl text-left transition-all shadow-sm
@@ -56,11 +50,14 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ selectedModel, onS
       >
         <div className="flex items-center gap-3">
           <div className="w-8 h-8 rounded-lg bg-gray-50 flex items-center justify-center">
-            {getModelIcon(selectedModel)}
+            {getModelIcon(route.model)}
           </div>
           <div>
-            <div className="font-medium text-gray-900 text-sm">{selectedModel}</div>
-            <div className="text-xs text-gray-500">{getModelDescription(selectedModel)}</div>
+            <div className="font-medium text-gray-900 text-sm">{selectedModel?.name || route.model}</div>
+            <div className="text-xs text-gray-500">
+              {selectedProvider?.name || route.providerId}
+              {selectedModel?.description ? ` · ${selectedModel.description}` : ''}
+            </div>
           </div>
         </div>
         <ChevronDown className={`w-4 h-4 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
@@ -69,13 +66,13 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ selectedModel, onS
       {isOpen && (
         <div className="absolute z-10 w-full mt-2 bg-white border border-gray-100 rounded-xl shadow-lg overflow-hidden animate-fadeIn">
           <div className="p-1">
-            {Object.values(LLMProvider).map((provider) => {
-              const isSelected = selectedModel === provider;
+            {options.map(({ provider, model }) => {
+              const isSelected = route.providerId === provider.id && route.model === model.id;
               return (
                 <button
-                  key={provider}
+                  key={`${provider.id}:${model.id}`}
                   onClick={() => {
-                    onSelect(provider);
+                    onSelect({ providerId: provider.id, model: model.id });
                     setIsOpen(false);
                   }}
                   className={`w-full flex items-center justify-between p-2 rounded-lg transition-colors
@@ -84,12 +81,13 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ selectedModel, onS
                 >
                   <div className="flex items-center gap-3">
                     <div className={`w-8 h-8 rounded-lg flex items-center justify-center ${isSelected ? 'bg-white shadow-sm' : 'bg-gray-50'}`}>
-                      {getModelIcon(provider)}
+                      {getModelIcon(model.id)}
                     </div>
                     <div className="text-left">
                       <div className={`text-sm ${isSelected ? 'font-semibold text-blue-700' : 'font-medium text-gray-700'}`}>
-                        {provider}
+                        {model.name}
                       </div>
+                      <div className="text-[11px] text-gray-400">{provider.name}</div>
                     </div>
                   </div>
                   {isSelected && <Check className="w-4 h-4 text-blue-600" />}
@@ -97,9 +95,6 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({ selectedModel, onS
               );
             })}
           </div>
-          <div className="bg-gray-50 p-2 text-[10px] text-gray-400 text-center border-t border-gray-100">
-            由 OpenRouter 提供支持
-          </div>
         </div>
       )}
     </div>
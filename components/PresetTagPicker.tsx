@@ -0,0 +1,37 @@
+import React from 'react';
+import { PresetTag } from '../types';
+import { PRESET_TAGS, PRESET_TAG_LABELS } from '../services/presetLibrary';
+
+interface PresetTagPickerProps {
+  value: PresetTag[];
+  onChange: (tags: PresetTag[]) => void;
+}
+
+export const PresetTagPicker: React.FC<PresetTagPickerProps> = ({ value, onChange }) => {
+  const toggle = (tag: PresetTag) => {
+    // Keep the canonical order so saved presets compare equal
+    onChange(value.includes(tag)
+      ? value.filter(t => t !== tag)
+      : PRESET_TAGS.filter(t => t === tag || value.includes(t)));
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="text-xs text-gray-500 mr-1">标签</span>
+      {PRESET_TAGS.map(tag => {
+        const isActive = value.includes(tag);
+        return (
+          <button
+            key={tag}
+            type="button"
+            onClick={() => toggle(tag)}
+            className={`text-xs px-2 py-0.5 rounded-full border transition-colors
+              ${isActive ? 'bg-orange-50 border-primary text-primary' : 'bg-white border-gray-200 text-gray-500 hover:border-gray-300'}`}
+          >
+            {PRESET_TAG_LABELS[tag]}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { CatalogProduct } from '../types';
+
+interface ProductCatalogProps {
+  products: CatalogProduct[];
+  activeProductId: string | null;
+  onSelect: (id: string) => void;
+  onUpdate: (id: string, changes: Partial<Pick<CatalogProduct, 'sku' | 'title' | 'category'>>) => void;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+}
+
+export const ProductCatalog: React.FC<ProductCatalogProps> = ({
+  products,
+  activeProductId,
+  onSelect,
+  onUpdate,
+  onRemove,
+  onClear
+}) => {
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <label className="text-sm font-medium text-gray-700">产品目录</label>
+        <div className="flex items-center gap-2">
+          <span className="text-xs bg-gray-100 text-gray-500 px-2 py-0.5 rounded-full">{products.length} 个产品</span>
+          {products.length > 1 && (
+            <button onClick={onClear} className="text-xs text-gray-400 hover:text-red-600 transition-colors">清空</button>
+          )}
+        </div>
+      </div>
+      <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+        {products.map(product => {
+          const isActive = product.id === activeProductId;
+          return (
+            <div
+              key={product.id}
+              onClick={() => onSelect(product.id)}
+              className={`flex items-center gap-2 p-2 rounded-lg border cursor-pointer transition-colors
+                ${isActive ? 'border-primary bg-orange-50' : 'border-gray-200 hover:border-gray-300 hover:bg-gray-50'}`}
+            >
+              <img src={product.previewUrl} alt={product.sku} className="w-10 h-10 object-contain bg-white rounded border border-gray-100 shrink-0" />
+              <div className="flex-1 min-w-0 space-y-1">
+                <input
+                  type="text"
+                  value={product.sku}
+                  placeholder="SKU"
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => onUpdate(product.id, { sku: e.target.value })}
+                  className="w-full border border-gray-200 rounded px-1.5 py-0.5 text-xs font-mono focus:ring-1 focus:ring-primary outline-none bg-white"
+                />
+                <input
+                  type="text"
+                  value={product.title}
+                  placeholder="产品标题（可选）"
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => onUpdate(product.id, { title: e.target.value })}
+                  className="w-full border border-gray-200 rounded px-1.5 py-0.5 text-xs focus:ring-1 focus:ring-primary outline-none bg-white"
+                />
+                <input
+                  type="text"
+                  value={product.category}
+                  placeholder="类目（可选）"
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => onUpdate(product.id, { category: e.target.value })}
+                  className="w-full border border-gray-200 rounded px-1.5 py-0.5 text-xs focus:ring-1 focus:ring-primary outline-none bg-white"
+                />
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onRemove(product.id);
+                }}
+                className="p-1.5 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors shrink-0"
+                title="移除"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
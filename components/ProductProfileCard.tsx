@@ -0,0 +1,61 @@
+import React from 'react';
+import { Loader2, RefreshCw, ScanSearch } from 'lucide-react';
+import { ProductProfile } from '../services/llm';
+
+interface ProductProfileCardProps {
+  profile?: ProductProfile;
+  isAnalyzing: boolean;
+  onAnalyze: () => void;
+}
+
+const ProfileRow: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="flex gap-2">
+    <span className="text-gray-400 shrink-0 w-14">{label}</span>
+    <span className="text-gray-700">{value}</span>
+  </div>
+);
+
+export const ProductProfileCard: React.FC<ProductProfileCardProps> = ({ profile, isAnalyzing, onAnalyze }) => {
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-xs font-medium text-gray-700 flex items-center gap-1">
+          <ScanSearch className="w-3.5 h-3.5 text-purple-500" /> 产品分析
+        </p>
+        <button
+          onClick={onAnalyze}
+          disabled={isAnalyzing}
+          className="text-xs text-purple-600 hover:text-purple-800 flex items-center gap-1 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isAnalyzing
+            ? <><Loader2 className="w-3 h-3 animate-spin" /> 分析中...</>
+            : profile
+              ? <><RefreshCw className="w-3 h-3" /> 重新分析</>
+              : '分析产品'}
+        </button>
+      </div>
+
+      {profile ? (
+        <div className="space-y-1 text-xs">
+          {profile.category && <ProfileRow label="类目" value={profile.category} />}
+          {profile.materials.length > 0 && <ProfileRow label="材质" value={profile.materials.join('、')} />}
+          {profile.colors.length > 0 && <ProfileRow label="颜色" value={profile.colors.join('、')} />}
+          {profile.scale && <ProfileRow label="尺寸" value={profile.scale} />}
+          {profile.audience && <ProfileRow label="人群" value={profile.audience} />}
+          {profile.sellingPoints.length > 0 && (
+            <div className="flex gap-2">
+              <span className="text-gray-400 shrink-0 w-14">卖点</span>
+              <ul className="text-gray-700 list-disc pl-4 space-y-0.5">
+                {profile.sellingPoints.map(point => <li key={point}>{point}</li>)}
+              </ul>
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400">
+          识别类目、材质、颜色、尺寸、目标人群和卖点，用于场景推荐和提示词模板。同一张图片只分析一次。
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { AlertCircle, Check, CheckCheck, Eye, Loader2, RefreshCw, SkipForward } from 'lucide-react';
+import { PromptReview, PromptReviewDecision } from '../types';
+
+interface PromptReviewPanelProps {
+  reviews: PromptReview[];
+  onDecide: (id: string, decision: PromptReviewDecision) => void;
+}
+
+export const PromptReviewPanel: React.FC<PromptReviewPanelProps> = ({ reviews, onDecide }) => {
+  // Edits are kept locally until the prompt is approved
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const promptFor = (review: PromptReview) => drafts[review.id] ?? review.prompt;
+
+  const clearDraft = (id: string) => {
+    setDrafts(prev => {
+      const { [id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const decide = (review: PromptReview, decision: PromptReviewDecision) => {
+    clearDraft(review.id);
+    onDecide(review.id, decision);
+  };
+
+  const pending = reviews.filter(review => review.status === 'pending');
+
+  return (
+    <div className="mb-4 border border-amber-200 bg-amber-50/50 rounded-xl p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h4 className="text-sm font-semibold text-gray-800 flex items-center gap-2">
+          <Eye className="w-4 h-4 text-amber-500" />
+          审核提示词 ({reviews.length})
+        </h4>
+        {pending.length > 1 && (
+          <button
+            onClick={() => pending.forEach(review => decide(review, { action: 'approve', prompt: promptFor(review).trim() || review.prompt }))}
+            className="text-xs bg-primary text-white px-2.5 py-1 rounded-lg hover:bg-orange-600 transition-colors flex items-center gap-1"
+          >
+            <CheckCheck className="w-3.5 h-3.5" /> 全部批准
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-3">批准后才会开始渲染；可以直接修改提示词，或重新生成、跳过。</p>
+
+      <div className="space-y-3 max-h-[480px] overflow-y-auto pr-1">
+        {reviews.map(review => {
+          const isRegenerating = review.status === 'regenerating';
+          const prompt = promptFor(review);
+          return (
+            <div key={review.id} className="bg-white border border-gray-200 rounded-lg p-3">
+              <div className="flex justify-between items-center mb-2 gap-2">
+                <p className="text-xs font-medium text-gray-700 truncate">
+                  {review.productName && <span className="font-mono text-gray-400">{review.productName} · </span>}
+                  {review.presetName}
+                </p>
+                <span className="text-[10px] text-gray-400 shrink-0">{review.jobCount} 张图片</span>
+              </div>
+              <textarea
+                value={prompt}
+                readOnly={isRegenerating}
+                onChange={(e) => setDrafts(prev => ({ ...prev, [review.id]: e.target.value }))}
+                className={`w-full border border-gray-300 rounded-lg p-2 text-xs focus:ring-2 focus:ring-primary focus:border-primary outline-none min-h-[100px]
+                  ${isRegenerating ? 'bg-gray-50 text-gray-500' : ''}`}
+              />
+              {review.error && !isRegenerating && (
+                <p className="flex items-start gap-1 text-xs text-red-600 mt-1">
+                  <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-px" />
+                  <span>重新生成失败，已保留原提示词：{review.error}</span>
+                </p>
+              )}
+              <div className="flex justify-end items-center gap-2 mt-2">
+                {isRegenerating ? (
+                  <span className="text-xs text-gray-500 flex items-center gap-1">
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" /> 正在重新生成...
+                  </span>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => decide(review, { action: 'skip' })}
+                      className="text-xs text-gray-500 hover:text-gray-800 px-2 py-1 flex items-center gap-1 transition-colors"
+                      title="不渲染使用此提示词的图片"
+                    >
+                      <SkipForward className="w-3.5 h-3.5" /> 跳过
+                    </button>
+                    <button
+                      onClick={() => decide(review, { action: 'regenerate' })}
+                      className="text-xs bg-white border border-gray-300 text-gray-700 px-2.5 py-1 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-1"
+                    >
+                      <RefreshCw className="w-3.5 h-3.5" /> 重新生成
+                    </button>
+                    <button
+                      onClick={() => decide(review, { action: 'approve', prompt: prompt.trim() })}
+                      disabled={!prompt.trim()}
+                      className="text-xs bg-primary text-white px-2.5 py-1 rounded-lg hover:bg-orange-600 transition-colors flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Check className="w-3.5 h-3.5" /> 批准
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
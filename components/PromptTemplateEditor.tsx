@@ -0,0 +1,121 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle2, Eye, EyeOff, RotateCcw } from 'lucide-react';
+import { TemplateScope, TemplateVariables, renderTemplate, validateTemplate, templateVariablesFor, exampleTemplateVariables } from '../services/llm';
+
+interface PromptTemplateEditorProps {
+  label: string;
+  description: string;
+  scope: TemplateScope;
+  value: string;
+  defaultValue: string;
+  onChange: (value: string) => void;
+  previewVariables: TemplateVariables; // Real values where available; missing ones fall back to examples
+}
+
+export const PromptTemplateEditor: React.FC<PromptTemplateEditorProps> = ({
+  label,
+  description,
+  scope,
+  value,
+  defaultValue,
+  onChange,
+  previewVariables
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [showPreview, setShowPreview] = useState(false);
+
+  const variables = templateVariablesFor(scope);
+  const issues = useMemo(() => validateTemplate(value, scope), [value, scope]);
+  const errorCount = issues.filter(issue => issue.level === 'error').length;
+
+  const preview = useMemo(() => {
+    if (!showPreview) return '';
+    const defined = Object.entries(previewVariables).filter((entry): entry is [string, string] => entry[1] !== undefined);
+    return renderTemplate(value, { ...exampleTemplateVariables(scope), ...Object.fromEntries(defined) });
+  }, [showPreview, value, scope, previewVariables]);
+
+  // Insert a placeholder at the cursor and keep the focus in the textarea
+  const insertVariable = (name: string) => {
+    const textarea = textareaRef.current;
+    const placeholder = `{{${name}}}`;
+    if (!textarea) {
+      onChange(value + placeholder);
+      return;
+    }
+    const { selectionStart, selectionEnd } = textarea;
+    onChange(value.slice(0, selectionStart) + placeholder + value.slice(selectionEnd));
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(selectionStart + placeholder.length, selectionStart + placeholder.length);
+    });
+  };
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-1">
+        <label className="block text-sm font-medium text-gray-700">{label}</label>
+        {value !== defaultValue && (
+          <button
+            onClick={() => onChange(defaultValue)}
+            className="flex items-center gap-1 text-xs text-gray-400 hover:text-gray-700 transition-colors"
+          >
+            <RotateCcw className="w-3 h-3" /> 恢复默认
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mb-2">{description}</p>
+
+      <div className="flex flex-wrap gap-1.5 mb-2">
+        {variables.map(variable => (
+          <button
+            key={variable.name}
+            onClick={() => insertVariable(variable.name)}
+            title={`${variable.description}（例：${variable.example}）`}
+            className="text-xs font-mono bg-gray-100 text-gray-600 px-2 py-0.5 rounded hover:bg-orange-50 hover:text-primary transition-colors"
+          >
+            {`{{${variable.name}}}`}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        spellCheck={false}
+        className={`w-full border rounded-lg p-2.5 text-sm font-mono focus:ring-2 focus:ring-primary focus:border-primary outline-none min-h-[180px]
+          ${errorCount > 0 ? 'border-red-300' : 'border-gray-300'}`}
+      />
+
+      <div className="mt-2 space-y-1">
+        {issues.length === 0 ? (
+          <p className="flex items-center gap-1 text-xs text-green-600">
+            <CheckCircle2 className="w-3.5 h-3.5" /> 模板有效
+          </p>
+        ) : (
+          issues.map((issue, index) => (
+            <p key={index} className={`flex items-start gap-1 text-xs ${issue.level === 'error' ? 'text-red-600' : 'text-amber-600'}`}>
+              {issue.level === 'error'
+                ? <AlertCircle className="w-3.5 h-3.5 shrink-0 mt-px" />
+                : <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-px" />}
+              <span>第 {issue.line} 行：{issue.message}</span>
+            </p>
+          ))
+        )}
+      </div>
+
+      <button
+        onClick={() => setShowPreview(prev => !prev)}
+        className="mt-3 flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800 transition-colors"
+      >
+        {showPreview ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+        {showPreview ? '隐藏预览' : '预览'}
+      </button>
+      {showPreview && (
+        <pre className="mt-2 bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs text-gray-700 whitespace-pre-wrap font-mono max-h-64 overflow-y-auto">
+          {preview}
+        </pre>
+      )}
+    </div>
+  );
+};
@@ -1,16 +1,23 @@
 import React from 'react';
-import { Download, ZoomIn } from 'lucide-react';
+import { Download, ZoomIn, Trash2, GitBranch, Wand2, FlaskConical } from 'lucide-react';
 import { GeneratedImage } from '../types';
+import { ComplianceBadges } from './ComplianceBadges';
 
 interface ResultCardProps {
   image: GeneratedImage;
-  onDownload: (url: string) => void;
+  onDownload: (image: GeneratedImage) => void;
   onZoom?: (image: GeneratedImage) => void;
+  onEdit?: (image: GeneratedImage) => void;
+  onDelete?: (image: GeneratedImage) => void;
+  isSelected?: boolean;
+  onToggleSelect?: (image: GeneratedImage) => void;
+  onShowVersions?: (image: GeneratedImage) => void;
+  onCompare?: (image: GeneratedImage) => void; // Opens the A/B comparison the image belongs to
 }
 
-export const ResultCard: React.FC<ResultCardProps> = ({ image, onDownload, onZoom }) => {
+export const ResultCard: React.FC<ResultCardProps> = ({ image, onDownload, onZoom, onEdit, onDelete, isSelected = false, onToggleSelect, onShowVersions, onCompare }) => {
   return (
-    <div className="group relative bg-white rounded-xl shadow-sm border border-gray-100 overflow-hidden hover:shadow-md transition-shadow">
+    <div className={`group relative bg-white rounded-xl shadow-sm border overflow-hidden hover:shadow-md transition-shadow ${isSelected ? 'border-primary ring-1 ring-primary' : 'border-gray-100'}`}>
       <div className="aspect-square w-full overflow-hidden bg-gray-100 relative">
         <img 
           src={image.url} 
@@ -19,7 +26,7 @@ export const ResultCard: React.FC<ResultCardProps> = ({ image, onDownload, onZoo
         />
         <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
           <button 
-            onClick={() => onDownload(image.url)}
+            onClick={() => onDownload(image)}
             className="p-2 bg-white text-gray-900 rounded-full hover:bg-primary hover:text-white transition-colors"
             title="下载"
           >
@@ -28,11 +35,51 @@ export const ResultCard: React.FC<ResultCardProps> = ({ image, onDownload, onZoo
           <button 
             onClick={() => onZoom ? onZoom(image) : window.open(image.url, '_blank')}
              className="p-2 bg-white text-gray-900 rounded-full hover:bg-primary hover:text-white transition-colors"
-             title="编辑 / 缩放"
+             title="查看大图"
           >
              <ZoomIn className="w-5 h-5" />
           </button>
+          {onEdit && (
+            <button 
+              onClick={() => onEdit(image)}
+              className="p-2 bg-white text-gray-900 rounded-full hover:bg-purple-600 hover:text-white transition-colors"
+              title="魔法编辑"
+            >
+              <Wand2 className="w-5 h-5" />
+            </button>
+          )}
+          {onShowVersions && (
+            <button 
+              onClick={() => onShowVersions(image)}
+              className="p-2 bg-white text-gray-900 rounded-full hover:bg-primary hover:text-white transition-colors"
+              title="版本历史"
+            >
+              <GitBranch className="w-5 h-5" />
+            </button>
+          )}
+          {onDelete && (
+            <button 
+              onClick={() => onDelete(image)}
+              className="p-2 bg-white text-gray-900 rounded-full hover:bg-red-600 hover:text-white transition-colors"
+              title="删除"
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          )}
         </div>
+        {onToggleSelect && (
+          <label
+            className={`absolute top-2 left-2 z-10 bg-white/90 rounded p-1 flex items-center cursor-pointer transition-opacity ${isSelected ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+            title="选择"
+          >
+            <input
+              type="checkbox"
+              checked={isSelected}
+              onChange={() => onToggleSelect(image)}
+              className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary"
+            />
+          </label>
+        )}
         <div className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity">
             <span className="bg-black/60 text-white text-xs px-2 py-1 rounded backdrop-blur-sm">
                 {image.vibe}
@@ -43,6 +90,39 @@ export const ResultCard: React.FC<ResultCardProps> = ({ image, onDownload, onZoo
         <p className="text-xs text-gray-500 line-clamp-2" title={image.prompt}>
           {image.prompt}
         </p>
+        <div className="mt-2">
+          <ComplianceBadges imageUrl={image.url} />
+        </div>
+        {(image.edit || image.revertedFromId) && (
+          <p className="text-[10px] text-purple-600 mt-1 flex items-center gap-1 truncate" title={image.edit?.instruction}>
+            <GitBranch className="w-3 h-3 shrink-0" />
+            {image.edit ? `已编辑：${image.edit.instruction}` : '已恢复旧版本'}
+          </p>
+        )}
+        {(image.presetVersion !== undefined || image.promptVersion !== undefined) && (
+          <p className="text-[10px] text-gray-400 mt-1 flex items-center gap-1">
+            {image.abVariant && onCompare && (
+              <button
+                onClick={() => onCompare(image)}
+                className="font-semibold text-purple-600 hover:text-purple-800 flex items-center gap-0.5"
+                title="查看 A/B 对比"
+              >
+                <FlaskConical className="w-3 h-3" /> {image.abVariant}
+              </button>
+            )}
+            {[
+              image.presetVersion !== undefined && `预设 v${image.presetVersion}`,
+              image.promptVersion !== undefined && `提示词 v${image.promptVersion}`,
+            ].filter(Boolean).join(' · ')}
+          </p>
+        )}
+        {(image.variationIndex !== undefined || image.seed !== undefined) && (
+          <p className="text-[10px] text-gray-400 mt-1">
+            {image.variationIndex !== undefined && `变体 #${image.variationIndex + 1}`}
+            {image.variationIndex !== undefined && image.seed !== undefined && ' · '}
+            {image.seed !== undefined && `种子 ${image.seed}`}
+          </p>
+        )}
       </div>
     </div>
   );
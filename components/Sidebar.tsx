@@ -1,12 +1,16 @@
 import React from 'react';
-import { Camera, Layers, Settings, HelpCircle } from 'lucide-react';
+import { Camera, Layers, Settings, HelpCircle, Wallet } from 'lucide-react';
+import { BudgetSettings } from '../types';
+import { BudgetStatus, formatCost } from '../services/usageLedger';
 
 interface SidebarProps {
   activeTab: 'generator' | 'settings';
   onTabChange: (tab: 'generator' | 'settings') => void;
+  budgetSettings: BudgetSettings;
+  budgetStatus: BudgetStatus;
 }
 
-export const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange }) => {
+export const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, budgetSettings, budgetStatus }) => {
   return (
     <div className="hidden md:flex flex-col w-64 bg-secondary text-white h-screen fixed left-0 top-0 overflow-y-auto z-50">
       <div className="p-6 flex items-center gap-3 border-b border-gray-700">
@@ -49,6 +53,33 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange }) => {
       </nav>
 
       <div className="p-4 border-t border-gray-700">
+        <button
+          onClick={() => onTabChange('settings')}
+          className="w-full text-left space-y-2 text-gray-400 hover:text-white transition-colors"
+          title="查看用量与预算"
+        >
+          <div className="flex items-center justify-between text-xs">
+            <span className="flex items-center gap-1.5">
+              <Wallet className="w-4 h-4" />
+              {budgetSettings.period === 'day' ? '今日花费' : '本月花费'}
+            </span>
+            <span
+              className={`font-medium ${budgetStatus.exceeded ? 'text-red-400' : 'text-white'}`}
+              title={budgetStatus.unpricedCalls > 0 ? `另有 ${budgetStatus.unpricedCalls} 次调用费用未知` : undefined}
+            >
+              {formatCost(budgetStatus.spent)}{budgetStatus.unpricedCalls > 0 && '+'}
+              {budgetSettings.enabled && <span className="text-gray-500"> / {formatCost(budgetStatus.limit)}</span>}
+            </span>
+          </div>
+          {budgetSettings.enabled && (
+            <div className="w-full h-1.5 bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className={`h-full ${budgetStatus.exceeded ? 'bg-red-500' : 'bg-primary'}`}
+                style={{ width: `${budgetStatus.limit > 0 ? Math.min(100, (budgetStatus.spent / budgetStatus.limit) * 100) : 100}%` }}
+              />
+            </div>
+          )}
+        </button>
       </div>
     </div>
   );
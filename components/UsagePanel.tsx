@@ -0,0 +1,148 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { BudgetSettings } from '../types';
+import { UsageRecord, UsageTotals, sumUsage, groupUsage, dayKey, getBudgetStatus, formatCost, formatTotalsCost } from '../services/usageLedger';
+
+interface UsagePanelProps {
+  records: UsageRecord[];
+  budgetSettings: BudgetSettings;
+  onBudgetChange: (settings: BudgetSettings) => void;
+  onClear: () => void;
+}
+
+const RECENT_DAYS = 7;
+const RECENT_BATCHES = 5;
+
+const UsageTable: React.FC<{ title: string; rows: [string, UsageTotals][]; empty: string }> = ({ title, rows, empty }) => (
+  <div>
+    <p className="text-sm font-medium text-gray-700 mb-2">{title}</p>
+    {rows.length === 0 ? (
+      <p className="text-xs text-gray-400">{empty}</p>
+    ) : (
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-400 text-left">
+            <th className="font-medium pb-1"></th>
+            <th className="font-medium pb-1 text-right">调用</th>
+            <th className="font-medium pb-1 text-right">Tokens</th>
+            <th className="font-medium pb-1 text-right">费用</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-600">
+          {rows.map(([label, totals]) => (
+            <tr key={label} className="border-t border-gray-100">
+              <td className="py-1 truncate max-w-[140px]" title={label}>{label}</td>
+              <td className="py-1 text-right">{totals.calls}</td>
+              <td className="py-1 text-right">{totals.totalTokens.toLocaleString()}</td>
+              <td
+                className={`py-1 text-right font-medium ${totals.unpricedCalls === totals.calls ? 'text-gray-400' : 'text-gray-800'}`}
+                title={totals.unpricedCalls > 0 ? `其中 ${totals.unpricedCalls} 次调用的提供商未返回费用` : undefined}
+              >
+                {formatTotalsCost(totals)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+export const UsagePanel: React.FC<UsagePanelProps> = ({ records, budgetSettings, onBudgetChange, onClear }) => {
+  const total = sumUsage(records);
+  const budget = getBudgetStatus(records, budgetSettings);
+
+  const cutoff = Date.now() - RECENT_DAYS * 24 * 60 * 60 * 1000;
+  const byDay = Array.from(groupUsage(records.filter(r => r.timestamp >= cutoff), r => dayKey(r.timestamp)))
+    .sort(([a], [b]) => b.localeCompare(a));
+
+  const byProduct = Array.from(groupUsage(records, r => r.productName || undefined))
+    .sort(([, a], [, b]) => b.cost - a.cost);
+
+  // Batch ids are start timestamps, so they sort chronologically
+  const byBatch = Array.from(groupUsage(records, r => r.batchId))
+    .sort(([a], [b]) => Number(b) - Number(a))
+    .slice(0, RECENT_BATCHES)
+    .map(([batchId, totals]): [string, UsageTotals] => [new Date(Number(batchId)).toLocaleString(), totals]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            id="budgetEnabled"
+            checked={budgetSettings.enabled}
+            onChange={(e) => onBudgetChange({ ...budgetSettings, enabled: e.target.checked })}
+            className="w-4 h-4 text-primary border-gray-300 rounded focus:ring-primary"
+          />
+          <label htmlFor="budgetEnabled" className="text-sm text-gray-600 select-none cursor-pointer">启用预算上限</label>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">上限 (USD)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={budgetSettings.limit}
+            disabled={!budgetSettings.enabled}
+            onChange={(e) => onBudgetChange({ ...budgetSettings, limit: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-28 border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none disabled:bg-gray-50"
+          />
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">周期</label>
+          <select
+            value={budgetSettings.period}
+            disabled={!budgetSettings.enabled}
+            onChange={(e) => onBudgetChange({ ...budgetSettings, period: e.target.value as BudgetSettings['period'] })}
+            className="border border-gray-300 rounded-lg p-2 text-sm focus:ring-2 focus:ring-primary focus:border-primary outline-none disabled:bg-gray-50"
+          >
+            <option value="day">每天</option>
+            <option value="month">每月</option>
+          </select>
+        </div>
+      </div>
+
+      {budgetSettings.enabled && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-gray-500">
+            <span>{budgetSettings.period === 'day' ? '今日' : '本月'}已用 {formatCost(budget.spent)} / {formatCost(budget.limit)}</span>
+            {budget.exceeded && <span className="text-red-600 font-medium">已达上限，新的生成任务将被阻止</span>}
+          </div>
+          {budget.unpricedCalls > 0 && (
+            <p className="text-xs text-amber-600">
+              另有 {budget.unpricedCalls} 次调用的提供商未返回费用（例如 Gemini），未计入预算，实际花费可能更高。
+            </p>
+          )}
+          <div className="w-full h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all ${budget.exceeded ? 'bg-red-500' : 'bg-primary'}`}
+              style={{ width: `${budget.limit > 0 ? Math.min(100, (budget.spent / budget.limit) * 100) : 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <UsageTable title={`最近 ${RECENT_DAYS} 天`} rows={byDay} empty="暂无调用记录" />
+        <UsageTable title="按产品" rows={byProduct} empty="暂无产品相关的调用" />
+        <UsageTable title="最近批次" rows={byBatch} empty="暂无批量生成记录" />
+      </div>
+
+      <div className="flex items-center justify-between text-xs text-gray-500 border-t border-gray-100 pt-4">
+        <span>
+          最近 90 天共 {total.calls} 次调用，{total.totalTokens.toLocaleString()} tokens，{formatTotalsCost(total)}
+          {total.unpricedCalls > 0 && `（其中 ${total.unpricedCalls} 次调用的提供商未返回费用）`}
+        </span>
+        <button
+          onClick={onClear}
+          disabled={records.length === 0}
+          className="text-red-500 hover:text-red-700 flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Trash2 className="w-3.5 h-3.5" /> 清空记录
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { X, GitBranch, Loader2, History, Pencil } from 'lucide-react';
+import { GeneratedImage } from '../types';
+import { loadLineage } from '../services/history';
+
+interface VersionTreeModalProps {
+  image: GeneratedImage; // Version the tree was opened from
+  onClose: () => void;
+  onRevert: (version: GeneratedImage, head: GeneratedImage) => Promise<GeneratedImage>;
+  onBranch: (version: GeneratedImage) => void;
+}
+
+export const VersionTreeModal: React.FC<VersionTreeModalProps> = ({ image, onClose, onRevert, onBranch }) => {
+  const [versions, setVersions] = useState<GeneratedImage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [compareA, setCompareA] = useState<string | null>(image.parentId ?? null);
+  const [compareB, setCompareB] = useState<string>(image.id);
+  const [head, setHead] = useState<GeneratedImage>(image);
+
+  const rootId = image.rootId || image.id;
+
+  // Versions known in memory are merged in case history storage is unavailable
+  const reload = async (known: GeneratedImage[] = [image]) => {
+    try {
+      const lineage = await loadLineage(rootId);
+      setVersions([...lineage, ...known.filter(k => !lineage.some(v => v.id === k.id))]);
+    } catch (error) {
+      console.error('Failed to load version tree:', error);
+      setVersions(known);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    reload();
+  }, [rootId]);
+
+  const versionNumber = new Map<string, number>(versions.map((v, index) => [v.id, index + 1]));
+  const byId = new Map<string, GeneratedImage>(versions.map(v => [v.id, v]));
+  const childrenOf = (parentId: string | undefined) =>
+    versions.filter(v => (v.parentId && byId.has(v.parentId) ? v.parentId : undefined) === parentId);
+
+  const versionA = compareA ? byId.get(compareA) : versions[0];
+  const versionB = byId.get(compareB);
+
+  const describe = (version: GeneratedImage): string => {
+    if (version.edit) return version.edit.instruction;
+    if (version.revertedFromId) {
+      const restored = versionNumber.get(version.revertedFromId);
+      return restored ? `恢复为 V${restored}` : '恢复旧版本';
+    }
+    return '原始生成';
+  };
+
+  const handleRevert = async () => {
+    if (!versionB) return;
+    const restored = await onRevert(versionB, head);
+    setHead(restored);
+    await reload([...versions, restored]);
+    setCompareA(versionB.id);
+    setCompareB(restored.id);
+  };
+
+  const renderNode = (version: GeneratedImage, depth: number): React.ReactNode => (
+    <div key={version.id}>
+      <div
+        className={`flex items-center gap-2 p-2 rounded-lg border transition-colors
+          ${version.id === compareB ? 'border-primary bg-orange-50' : version.id === versionA?.id ? 'border-blue-300 bg-blue-50' : 'border-gray-200'}`}
+        style={{ marginLeft: depth * 16 }}
+      >
+        <img src={version.url} alt={`V${versionNumber.get(version.id)}`} className="w-10 h-10 object-cover rounded border border-gray-100 shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-xs font-semibold text-gray-700">
+            V{versionNumber.get(version.id)}
+            {version.id === head.id && <span className="ml-1 text-[10px] font-normal text-primary">当前</span>}
+          </p>
+          <p className="text-[10px] text-gray-500 truncate" title={describe(version)}>{describe(version)}</p>
+        </div>
+        <button
+          onClick={() => setCompareA(version.id)}
+          className={`text-[10px] w-6 h-6 rounded border font-bold transition-colors ${version.id === versionA?.id ? 'bg-blue-500 text-white border-blue-500' : 'text-gray-500 border-gray-300 hover:border-blue-400'}`}
+          title="设为对比 A"
+        >
+          A
+        </button>
+        <button
+          onClick={() => setCompareB(version.id)}
+          className={`text-[10px] w-6 h-6 rounded border font-bold transition-colors ${version.id === compareB ? 'bg-primary text-white border-primary' : 'text-gray-500 border-gray-300 hover:border-primary'}`}
+          title="设为对比 B"
+        >
+          B
+        </button>
+      </div>
+      <div className="mt-1.5 space-y-1.5">
+        {childrenOf(version.id).map(child => renderNode(child, depth + 1))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fadeIn">
+      <div className="bg-white rounded-xl w-full max-w-6xl max-h-[90vh] flex flex-col overflow-hidden shadow-2xl">
+
+        {/* Header */}
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-orange-100 text-primary rounded-lg">
+              <GitBranch className="w-5 h-5" />
+            </div>
+            <div>
+              <h3 className="font-bold text-gray-800">版本历史</h3>
+              <p className="text-xs text-gray-500">{image.vibe} · {versions.length} 个版本</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full text-gray-500 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex-1 flex items-center justify-center min-h-[300px] text-gray-300">
+            <Loader2 className="w-8 h-8 animate-spin" />
+          </div>
+        ) : (
+          <div className="flex-1 flex flex-col lg:flex-row min-h-0">
+            {/* Tree */}
+            <div className="w-full lg:w-80 border-r border-gray-100 p-4 overflow-y-auto space-y-1.5">
+              {childrenOf(undefined).map(root => renderNode(root, 0))}
+            </div>
+
+            {/* Side-by-side comparison */}
+            <div className="flex-1 p-4 flex flex-col min-h-0 overflow-y-auto">
+              <div className="grid grid-cols-2 gap-4">
+                {[{ label: 'A', version: versionA }, { label: 'B', version: versionB }].map(({ label, version }) => (
+                  <div key={label}>
+                    <p className="text-xs font-semibold text-gray-600 mb-1">
+                      {label} · {version ? `V${versionNumber.get(version.id)}` : '-'}
+                    </p>
+                    <div className="aspect-square bg-gray-100 rounded-lg overflow-hidden flex items-center justify-center">
+                      {version && <img src={version.url} alt={label} className="max-w-full max-h-full object-contain" />}
+                    </div>
+                    {version && (
+                      <p className="text-[10px] text-gray-500 mt-1 line-clamp-2" title={describe(version)}>
+                        {describe(version)}
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {versionB && (
+                <div className="mt-auto pt-4 flex justify-end gap-2">
+                  <button
+                    onClick={handleRevert}
+                    disabled={versionB.id === head.id}
+                    className="text-sm bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="以 B 的内容创建一个新版本"
+                  >
+                    <History className="w-4 h-4" />
+                    恢复 V{versionNumber.get(versionB.id)}
+                  </button>
+                  <button
+                    onClick={() => onBranch(versionB)}
+                    className="text-sm bg-primary text-white px-4 py-2 rounded-lg hover:bg-orange-600 transition-colors flex items-center gap-2"
+                  >
+                    <Pencil className="w-4 h-4" />
+                    从 V{versionNumber.get(versionB.id)} 继续编辑
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+/**
+ * Amazon 主图合规检查
+ * 在本地分析图片：纯白背景、产品占比、分辨率。文字/Logo/水印无法可靠地本地识别，需人工确认。
+ */
+
+export type ComplianceStatus = 'pass' | 'warn' | 'fail';
+
+export type ComplianceRuleId = 'background' | 'fill' | 'resolution';
+
+export interface ComplianceCheck {
+  rule: ComplianceRuleId;
+  label: string;
+  status: ComplianceStatus;
+  value: number; // Measured value (ratio 0-1, or pixels for resolution)
+  detail: string;
+}
+
+export interface ComplianceReport {
+  status: ComplianceStatus;
+  checks: ComplianceCheck[];
+  width: number;
+  height: number;
+}
+
+// Amazon main-image requirements
+export const MIN_LONGEST_SIDE = 1000;
+export const RECOMMENDED_LONGEST_SIDE = 1600; // Zoom works best from here on
+export const TARGET_FILL_RATIO = 0.85;
+const MIN_FILL_RATIO = 0.75;
+const MIN_BACKGROUND_PURITY = 0.98;
+
+// Pixels are analysed on a downscaled copy for speed
+const ANALYSIS_MAX_SIDE = 512;
+// Anything lighter than this on every channel counts as background when locating the product
+const BACKGROUND_THRESHOLD = 245;
+const ALPHA_THRESHOLD = 16;
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image for compliance analysis'));
+    img.src = url;
+  });
+
+const worstStatus = (statuses: ComplianceStatus[]): ComplianceStatus => {
+  if (statuses.includes('fail')) return 'fail';
+  if (statuses.includes('warn')) return 'warn';
+  return 'pass';
+};
+
+/**
+ * 背景纯度：图像边框像素中恰好为 RGB(255,255,255) 且不透明的比例
+ */
+const measureBackgroundPurity = (data: Uint8ClampedArray, width: number, height: number): number => {
+  let pure = 0;
+  let total = 0;
+  const check = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    total++;
+    if (data[i] === 255 && data[i + 1] === 255 && data[i + 2] === 255 && data[i + 3] === 255) {
+      pure++;
+    }
+  };
+
+  for (let x = 0; x < width; x++) {
+    check(x, 0);
+    check(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    check(0, y);
+    check(width - 1, y);
+  }
+
+  return total > 0 ? pure / total : 0;
+};
+
+/**
+ * 产品占比：非白、非透明像素包围盒的最长边 / 对应画布边
+ */
+const measureFillRatio = (data: Uint8ClampedArray, width: number, height: number): number => {
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const isTransparent = data[i + 3] < ALPHA_THRESHOLD;
+      const isWhite = data[i] > BACKGROUND_THRESHOLD && data[i + 1] > BACKGROUND_THRESHOLD && data[i + 2] > BACKGROUND_THRESHOLD;
+      if (isTransparent || isWhite) continue;
+
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+
+  if (maxX < 0) return 0;
+  return Math.max((maxX - minX + 1) / width, (maxY - minY + 1) / height);
+};
+
+/**
+ * 分析一张图片（data URL 或可跨域访问的 URL）是否符合 Amazon 主图要求
+ */
+export async function analyzeMainImageCompliance(url: string): Promise<ComplianceReport> {
+  const img = await loadImage(url);
+  const width = img.naturalWidth;
+  const height = img.naturalHeight;
+
+  const scale = Math.min(1, ANALYSIS_MAX_SIDE / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const purity = measureBackgroundPurity(data, canvas.width, canvas.height);
+  const fill = measureFillRatio(data, canvas.width, canvas.height);
+  const longestSide = Math.max(width, height);
+
+  const checks: ComplianceCheck[] = [
+    {
+      rule: 'background',
+      label: '纯白背景',
+      status: purity >= MIN_BACKGROUND_PURITY ? 'pass' : 'fail',
+      value: purity,
+      detail: `边缘 ${(purity * 100).toFixed(1)}% 为 RGB(255,255,255)`,
+    },
+    {
+      rule: 'fill',
+      label: '产品占比',
+      status: fill >= TARGET_FILL_RATIO ? 'pass' : fill >= MIN_FILL_RATIO ? 'warn' : 'fail',
+      value: fill,
+      detail: `产品占画面 ${(fill * 100).toFixed(0)}%（建议 ≥ ${TARGET_FILL_RATIO * 100}%）`,
+    },
+    {
+      rule: 'resolution',
+      label: '分辨率',
+      status: longestSide >= RECOMMENDED_LONGEST_SIDE ? 'pass' : longestSide >= MIN_LONGEST_SIDE ? 'warn' : 'fail',
+      value: longestSide,
+      detail: `${width}×${height}px（最长边需 ≥ ${MIN_LONGEST_SIDE}px）`,
+    },
+  ];
+
+  return {
+    status: worstStatus(checks.map(c => c.status)),
+    checks,
+    width,
+    height,
+  };
+}
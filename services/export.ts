@@ -0,0 +1,306 @@
+import { GeneratedImage, ExportSettings } from '../types';
+import { createZip, ZipEntry } from './zip';
+
+/**
+ * 导出配置
+ * 将生成结果按电商平台要求缩放/填充/裁剪、转换格式，并按模板命名
+ */
+
+export type ExportFit = 'original' | 'pad' | 'crop';
+
+export interface ExportProfile {
+  id: string;
+  name: string;
+  description: string;
+  width: number; // 0 with fit 'original' keeps the source size
+  height: number;
+  fit: ExportFit; // pad = 完整缩放后补边, crop = 填满画布后居中裁剪
+  background: string | null; // Fill color; null keeps transparency (PNG only)
+  mimeType: 'image/jpeg' | 'image/png';
+  quality: number; // JPEG quality 0-1
+}
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+  {
+    id: 'original',
+    name: '原图',
+    description: '保持原始尺寸，PNG',
+    width: 0,
+    height: 0,
+    fit: 'original',
+    background: null,
+    mimeType: 'image/png',
+    quality: 1,
+  },
+  {
+    id: 'amazon-main',
+    name: 'Amazon 主图',
+    description: '2000×2000 JPEG，白色补边',
+    width: 2000,
+    height: 2000,
+    fit: 'pad',
+    background: '#FFFFFF',
+    mimeType: 'image/jpeg',
+    quality: 0.92,
+  },
+  {
+    id: 'amazon-aplus-970x600',
+    name: 'A+ 标准图片模块',
+    description: '970×600 JPEG，居中裁剪',
+    width: 970,
+    height: 600,
+    fit: 'crop',
+    background: '#FFFFFF',
+    mimeType: 'image/jpeg',
+    quality: 0.9,
+  },
+  {
+    id: 'amazon-aplus-970x300',
+    name: 'A+ 横幅模块',
+    description: '970×300 JPEG，居中裁剪',
+    width: 970,
+    height: 300,
+    fit: 'crop',
+    background: '#FFFFFF',
+    mimeType: 'image/jpeg',
+    quality: 0.9,
+  },
+  {
+    id: 'amazon-aplus-300x300',
+    name: 'A+ 方形模块',
+    description: '300×300 JPEG，白色补边',
+    width: 300,
+    height: 300,
+    fit: 'pad',
+    background: '#FFFFFF',
+    mimeType: 'image/jpeg',
+    quality: 0.9,
+  },
+  {
+    id: 'amazon-aplus-premium-1464x600',
+    name: 'A+ 高级模块',
+    description: '1464×600 JPEG，居中裁剪',
+    width: 1464,
+    height: 600,
+    fit: 'crop',
+    background: '#FFFFFF',
+    mimeType: 'image/jpeg',
+    quality: 0.9,
+  },
+  {
+    id: 'shopify-square',
+    name: 'Shopify 方图',
+    description: '2048×2048 JPEG，白色补边',
+    width: 2048,
+    height: 2048,
+    fit: 'pad',
+    background: '#FFFFFF',
+    mimeType: 'image/jpeg',
+    quality: 0.9,
+  },
+  {
+    id: 'etsy',
+    name: 'Etsy 商品图',
+    description: '2700×2025 (4:3) JPEG，居中裁剪',
+    width: 2700,
+    height: 2025,
+    fit: 'crop',
+    background: '#FFFFFF',
+    mimeType: 'image/jpeg',
+    quality: 0.9,
+  },
+];
+
+export const getExportProfile = (id: string): ExportProfile =>
+  EXPORT_PROFILES.find(p => p.id === id) || EXPORT_PROFILES[0];
+
+/**
+ * Amazon 图片槽位：主图 + 8 张附图
+ */
+export const IMAGE_SLOTS = ['MAIN', 'PT01', 'PT02', 'PT03', 'PT04', 'PT05', 'PT06', 'PT07', 'PT08'] as const;
+export type ImageSlot = typeof IMAGE_SLOTS[number];
+
+export interface FileNameContext {
+  asin?: string;
+  sku?: string;
+  slot: string; // Usually an ImageSlot; bulk exports continue past PT08 to keep names unique
+  vibe: string;
+  profile: ExportProfile;
+  timestamp: number;
+}
+
+// Amazon bulk image upload expects "<ASIN or SKU>.<SLOT>"
+export const DEFAULT_FILE_NAME_TEMPLATE = '{sku}.{slot}_{vibe}';
+export const FILE_NAME_TOKENS = ['{asin}', '{sku}', '{slot}', '{vibe}', '{profile}', '{date}'];
+
+const sanitizeFileNamePart = (value: string): string =>
+  value
+    .trim()
+    .replace(/[\\/:*?"<>|]+/g, '')
+    .replace(/\s+/g, '-');
+
+/**
+ * 根据模板生成文件名（含扩展名）
+ * 未填写的变量会被移除，相邻的分隔符会被合并
+ */
+export function buildFileName(template: string, context: FileNameContext): string {
+  const date = new Date(context.timestamp);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const values: Record<string, string> = {
+    asin: context.asin || '',
+    sku: context.sku || '',
+    slot: context.slot,
+    vibe: context.vibe,
+    profile: context.profile.id,
+    date: `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`,
+  };
+
+  const baseName = (template || DEFAULT_FILE_NAME_TEMPLATE)
+    .replace(/\{(\w+)\}/g, (match, key: string) => key in values ? sanitizeFileNamePart(values[key]) : match)
+    .replace(/([._-])[._-]+/g, '$1')
+    .replace(/^[._-]+|[._-]+$/g, '');
+
+  const extension = context.profile.mimeType === 'image/jpeg' ? 'jpg' : 'png';
+  return `${baseName || `amz-gen-${context.timestamp}`}.${extension}`;
+}
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image for export'));
+    img.src = url;
+  });
+
+/**
+ * 按导出配置渲染图片
+ * @returns 编码后的图片 Blob（sRGB）
+ */
+export async function renderExport(url: string, profile: ExportProfile): Promise<Blob> {
+  const img = await loadImage(url);
+  const sourceWidth = img.naturalWidth;
+  const sourceHeight = img.naturalHeight;
+
+  const targetWidth = profile.fit === 'original' ? sourceWidth : profile.width;
+  const targetHeight = profile.fit === 'original' ? sourceHeight : profile.height;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = targetWidth;
+  canvas.height = targetHeight;
+  const ctx = canvas.getContext('2d', { colorSpace: 'srgb' });
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available');
+  }
+
+  // JPEG has no alpha channel, so always flatten onto a background
+  const background = profile.background || (profile.mimeType === 'image/jpeg' ? '#FFFFFF' : null);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, targetWidth, targetHeight);
+  }
+
+  const scale = profile.fit === 'crop'
+    ? Math.max(targetWidth / sourceWidth, targetHeight / sourceHeight)
+    : Math.min(targetWidth / sourceWidth, targetHeight / sourceHeight);
+  const drawWidth = sourceWidth * scale;
+  const drawHeight = sourceHeight * scale;
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, (targetWidth - drawWidth) / 2, (targetHeight - drawHeight) / 2, drawWidth, drawHeight);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Failed to encode exported image'))),
+      profile.mimeType,
+      profile.quality
+    );
+  });
+}
+
+/**
+ * 触发浏览器下载
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * 批量导出时按顺序分配槽位：第一张为 MAIN，其余依次为 PT01、PT02...
+ */
+export const slotForIndex = (index: number): string =>
+  index === 0 ? 'MAIN' : `PT${index.toString().padStart(2, '0')}`;
+
+const MANIFEST_COLUMNS = ['file', 'id', 'sku', 'vibe', 'presetId', 'model', 'timestamp', 'seed', 'prompt'] as const;
+
+const escapeCsv = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * 将多张图片按导出配置渲染并打包为 ZIP，附带 manifest.json 与 manifest.csv
+ */
+export async function exportImagesAsZip(images: GeneratedImage[], settings: ExportSettings): Promise<Blob> {
+  const profile = getExportProfile(settings.profileId);
+  const usedNames = new Set<string>();
+  const entries: ZipEntry[] = [];
+  const manifest: Record<(typeof MANIFEST_COLUMNS)[number], string | number | undefined>[] = [];
+  const slotCounters = new Map<string, number>(); // Slots are numbered per SKU
+
+  for (const image of images) {
+    const sku = image.sku || settings.sku;
+    const slotIndex = slotCounters.get(sku) ?? 0;
+    slotCounters.set(sku, slotIndex + 1);
+
+    let fileName = buildFileName(settings.fileNameTemplate, {
+      asin: settings.asin,
+      sku,
+      slot: slotForIndex(slotIndex),
+      vibe: image.vibe,
+      profile,
+      timestamp: image.timestamp,
+    });
+
+    // Templates without {slot} can produce duplicates
+    if (usedNames.has(fileName)) {
+      const dot = fileName.lastIndexOf('.');
+      let n = 2;
+      while (usedNames.has(`${fileName.slice(0, dot)}-${n}${fileName.slice(dot)}`)) n++;
+      fileName = `${fileName.slice(0, dot)}-${n}${fileName.slice(dot)}`;
+    }
+    usedNames.add(fileName);
+
+    entries.push({ name: fileName, data: await renderExport(image.url, profile), lastModified: image.timestamp });
+    manifest.push({
+      file: fileName,
+      id: image.id,
+      sku,
+      vibe: image.vibe,
+      presetId: image.presetId,
+      model: image.model,
+      timestamp: new Date(image.timestamp).toISOString(),
+      seed: image.seed,
+      prompt: image.prompt,
+    });
+  }
+
+  const csv = [
+    MANIFEST_COLUMNS.join(','),
+    ...manifest.map(row => MANIFEST_COLUMNS.map(column => escapeCsv(row[column])).join(',')),
+  ].join('\r\n');
+
+  entries.push({ name: 'manifest.json', data: JSON.stringify({ profile: profile.id, exportedAt: new Date().toISOString(), images: manifest }, null, 2) });
+  // BOM so Excel opens the CSV as UTF-8
+  entries.push({ name: 'manifest.csv', data: '\uFEFF' + csv });
+
+  return createZip(entries);
+}
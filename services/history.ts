@@ -0,0 +1,162 @@
+import { GeneratedImage } from '../types';
+
+/**
+ * 生成历史存储
+ * 使用 IndexedDB 持久化 GeneratedImage（data URL 图片很容易超出 localStorage 配额）
+ */
+
+const DB_NAME = 'amzgen_history';
+const DB_VERSION = 2;
+const STORE_NAME = 'images';
+const TIMESTAMP_INDEX = 'timestamp';
+const ROOT_INDEX = 'rootId'; // v2: version lineage of edited images
+
+export const HISTORY_PAGE_SIZE = 24;
+
+export interface HistoryPage {
+  images: GeneratedImage[];
+  hasMore: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment.'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const store = db.objectStoreNames.contains(STORE_NAME)
+        ? request.transaction!.objectStore(STORE_NAME)
+        : db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      if (!store.indexNames.contains(TIMESTAMP_INDEX)) {
+        store.createIndex(TIMESTAMP_INDEX, 'timestamp');
+      }
+      if (!store.indexNames.contains(ROOT_INDEX)) {
+        store.createIndex(ROOT_INDEX, 'rootId');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed (e.g. private browsing)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const store = transaction.objectStore(STORE_NAME);
+    const request = operation(store);
+
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * 保存（或覆盖）一张生成图片
+ */
+export async function saveHistoryImage(image: GeneratedImage): Promise<void> {
+  await runTransaction('readwrite', store => store.put(image));
+}
+
+/**
+ * 按时间倒序分页读取历史记录
+ * 以上一页最后一条的时间戳为游标，而不是偏移量：分页期间新增或删除的记录不会导致重复或遗漏
+ * @param before 只读取早于该时间戳的记录；省略时从最新一条开始
+ * @param limit 每页数量。与最后一条时间戳相同的记录会一并返回，因此一页可能略多于 limit
+ */
+export async function loadHistoryPage(before?: number, limit: number = HISTORY_PAGE_SIZE): Promise<HistoryPage> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const index = transaction.objectStore(STORE_NAME).index(TIMESTAMP_INDEX);
+    const range = before === undefined ? null : IDBKeyRange.upperBound(before, true);
+    const request = index.openCursor(range, 'prev');
+
+    const images: GeneratedImage[] = [];
+    let hasMore = false;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+
+      const image = cursor.value as GeneratedImage;
+      // The next page starts strictly before the last timestamp, so don't split records that share it
+      if (images.length >= limit && image.timestamp !== images[images.length - 1].timestamp) {
+        // One extra record exists beyond this page
+        hasMore = true;
+        return;
+      }
+
+      images.push(image);
+      cursor.continue();
+    };
+
+    transaction.oncomplete = () => resolve({ images, hasMore });
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * 删除单张历史图片
+ */
+export async function deleteHistoryImage(id: string): Promise<void> {
+  await runTransaction('readwrite', store => store.delete(id));
+}
+
+/**
+ * 清空全部历史记录
+ */
+export async function clearHistory(): Promise<void> {
+  await runTransaction('readwrite', store => store.clear());
+}
+
+/**
+ * 历史记录总数
+ */
+export async function countHistoryImages(): Promise<number> {
+  return (await runTransaction('readonly', store => store.count())) ?? 0;
+}
+
+/**
+ * 读取一张图片的完整版本树（根版本及其所有派生版本），按时间正序
+ * @param rootId 根版本 id（image.rootId || image.id）
+ */
+export async function loadLineage(rootId: string): Promise<GeneratedImage[]> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const store = transaction.objectStore(STORE_NAME);
+    const rootRequest = store.get(rootId);
+    const descendantsRequest = store.index(ROOT_INDEX).getAll(rootId);
+
+    transaction.oncomplete = () => {
+      const images = [
+        ...(rootRequest.result ? [rootRequest.result as GeneratedImage] : []),
+        ...(descendantsRequest.result as GeneratedImage[]),
+      ];
+      resolve(images.sort((a, b) => a.timestamp - b.timestamp));
+    };
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
@@ -0,0 +1,104 @@
+/**
+ * 简单的并发任务队列
+ * 同一时间最多运行 concurrency 个任务，其余任务按加入顺序排队
+ */
+export class JobQueue {
+  private concurrency: number;
+  private running = 0;
+  private paused = false;
+  private waiting: { start: () => void; cancel: (reason: Error) => void }[] = [];
+  private idleResolvers: (() => void)[] = [];
+
+  constructor(concurrency: number = 1) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+  }
+
+  /**
+   * 调整并发数，已在运行的任务不受影响
+   */
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.drain();
+  }
+
+  /**
+   * 暂停：正在运行的任务会继续完成，但不再启动新任务
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.drain();
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  get size(): number {
+    return this.waiting.length;
+  }
+
+  get activeCount(): number {
+    return this.running;
+  }
+
+  /**
+   * 加入一个任务，返回该任务的结果
+   * 任务失败只会拒绝它自己的 Promise，不影响队列中的其他任务
+   */
+  add<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.waiting.push({
+        start: () => {
+          this.running++;
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.running--;
+              this.drain();
+            });
+        },
+        cancel: reject,
+      });
+      this.drain();
+    });
+  }
+
+  /**
+   * 清空尚未开始的任务，它们的 Promise 以 reason 拒绝；正在运行的任务不受影响
+   * @returns 被取消的任务数
+   */
+  clear(reason: Error): number {
+    const cancelled = this.waiting;
+    this.waiting = [];
+    cancelled.forEach(entry => entry.cancel(reason));
+    this.drain();
+    return cancelled.length;
+  }
+
+  /**
+   * 等待队列中所有任务完成
+   */
+  onIdle(): Promise<void> {
+    if (this.running === 0 && this.waiting.length === 0) {
+      return Promise.resolve();
+    }
+    return new Promise(resolve => this.idleResolvers.push(resolve));
+  }
+
+  private drain(): void {
+    while (!this.paused && this.running < this.concurrency && this.waiting.length > 0) {
+      const { start } = this.waiting.shift()!;
+      start();
+    }
+
+    if (this.running === 0 && this.waiting.length === 0) {
+      const resolvers = this.idleResolvers;
+      this.idleResolvers = [];
+      resolvers.forEach(resolve => resolve());
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { vi } from 'vitest';
+
+export interface RecordedRequest {
+  url: string;
+  init: RequestInit;
+  body: any; // Parsed JSON body
+}
+
+type Reply = Response | (() => Response | Promise<Response>);
+
+/**
+ * 本地 fetch 替身：按顺序返回预设的响应，并记录每次请求
+ * 响应用完后再次调用会抛错，便于发现多余的请求（例如意外的重试）
+ */
+export function createFetchStub(...replies: Reply[]) {
+  const queue = [...replies];
+  const requests: RecordedRequest[] = [];
+
+  const fetch = vi.fn(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    if (init.signal?.aborted) {
+      const error = new Error('The operation was aborted.');
+      error.name = 'AbortError';
+      throw error;
+    }
+    requests.push({
+      url: String(input),
+      init,
+      body: typeof init.body === 'string' ? JSON.parse(init.body) : undefined,
+    });
+    const reply = queue.shift();
+    if (!reply) {
+      throw new Error(`Unexpected request #${requests.length} to ${String(input)}`);
+    }
+    return typeof reply === 'function' ? reply() : reply;
+  });
+
+  return {
+    fetch,
+    requests,
+    install() {
+      vi.stubGlobal('fetch', fetch);
+      return this;
+    },
+  };
+}
+
+export const jsonResponse = (body: unknown, init: ResponseInit = {}): Response =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+
+/**
+ * 返回图片等二进制内容，body 为 base64
+ */
+export const binaryResponse = (base64: string, contentType = 'application/octet-stream'): Response =>
+  new Response(Uint8Array.from(atob(base64), c => c.charCodeAt(0)), {
+    status: 200,
+    headers: { 'Content-Type': contentType },
+  });
+
+/**
+ * 以 SSE 格式返回流式响应
+ */
+export const sseResponse = (events: (unknown | string)[]): Response => {
+  const text = events
+    .map(event => typeof event === 'string' ? `${event}\n\n` : `data: ${JSON.stringify(event)}\n\n`)
+    .join('');
+  return new Response(text, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+};
@@ -0,0 +1,124 @@
+/**
+ * OpenRouter chat completions 响应样例（按真实响应结构裁剪，图片数据已缩短）
+ */
+
+export const PNG_BASE64 = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==';
+export const PNG_DATA_URL = `data:image/png;base64,${PNG_BASE64}`;
+/** JPEG 文件头（FF D8 FF E0 ... JFIF），足够用于类型识别 */
+export const JPEG_BASE64 = '/9j/4AAQSkZJRgABAQAAAQABAAD/2wBDAAgGBgcGBQgHBwcJCQgKDBQNDAsLDBkSEw8UHRofHh0aHBwgJC4nICIsIxwcKDcpLDAxNDQ0Hyc5PTgyPC4zNDL/wAALCAABAAEBAREA/8QAFAABAAAAAAAAAAAAAAAAAAAACf/EABQQAQAAAAAAAAAAAAAAAAAAAAD/2gAIAQEAAD8AKp//2Q==';
+export const JPEG_DATA_URL = `data:image/jpeg;base64,${JPEG_BASE64}`;
+export const REMOTE_IMAGE_URL = 'https://storage.example.com/generated/scene-7f3a.png';
+
+const usage = {
+  prompt_tokens: 1290,
+  completion_tokens: 1315,
+  total_tokens: 2605,
+  cost: 0.1396,
+  is_byok: false,
+  prompt_tokens_details: { cached_tokens: 0 },
+  completion_tokens_details: { reasoning_tokens: 0, image_tokens: 1290 },
+};
+
+const completion = (message: Record<string, unknown>, choice: Record<string, unknown> = {}) => ({
+  id: 'gen-1764000000-AbCdEfGhIjKlMnOp',
+  provider: 'Google AI Studio',
+  model: 'google/gemini-3-pro-image-preview',
+  object: 'chat.completion',
+  created: 1764000000,
+  choices: [
+    {
+      logprobs: null,
+      finish_reason: 'stop',
+      native_finish_reason: 'STOP',
+      index: 0,
+      message: { role: 'assistant', content: '', refusal: null, reasoning: null, ...message },
+      ...choice,
+    },
+  ],
+  usage,
+});
+
+/** Gemini 图像模型：图片放在 message.images 中 */
+export const imagesArrayResponse = completion({
+  content: 'Here is your product on a marble countertop.',
+  images: [{ type: 'image_url', image_url: { url: PNG_DATA_URL }, index: 0 }],
+});
+
+/** 部分模型在 content 中返回 Markdown 图片链接 */
+export const markdownImageResponse = completion({
+  content: `Here is the generated scene:\n\n![Generated scene](${REMOTE_IMAGE_URL})`,
+});
+
+/** Markdown 图片链接中直接是 data URI */
+export const markdownDataUriResponse = completion({
+  content: `Done!\n\n![Generated scene](${PNG_DATA_URL})`,
+});
+
+/** content 为 OpenAI 风格的分段数组 */
+export const contentPartsResponse = completion({
+  content: [
+    { type: 'text', text: 'Here is the scene.' },
+    { type: 'image_url', image_url: { url: PNG_DATA_URL } },
+  ],
+});
+
+/** content 中只有裸 URL */
+export const bareUrlResponse = completion({
+  content: `Your image is ready: ${REMOTE_IMAGE_URL}`,
+});
+
+/** content 本身就是 data URI */
+export const dataUriContentResponse = completion({
+  content: PNG_DATA_URL,
+});
+
+/** 图片不在第一个 choice 中 */
+export const imageInSecondChoiceResponse = {
+  ...completion({ content: 'I will now generate the image.' }),
+  choices: [
+    completion({ content: 'I will now generate the image.' }).choices[0],
+    { ...completion({ images: [{ type: 'image_url', image_url: { url: PNG_DATA_URL } }] }).choices[0], index: 1 },
+  ],
+};
+
+/** 模型只返回了文字 */
+export const textOnlyResponse = completion({
+  content: 'I can describe the scene: a bright kitchen with the product on the counter.',
+});
+
+/** 被安全策略拦截 */
+export const contentFilterResponse = completion(
+  { content: null },
+  { finish_reason: 'content_filter', native_finish_reason: 'IMAGE_SAFETY' }
+);
+
+export const expandResponse = (text: string) => ({
+  ...completion({ content: text }),
+  model: 'google/gemini-3-pro-preview',
+});
+
+export const recommendResponse = (content: string) => ({
+  ...completion({ content }),
+  model: 'google/gemini-3-pro-preview',
+});
+
+/** 流式扩展：逐段返回文本，最后一块带 usage */
+export const expandStreamEvents = [
+  ': OPENROUTER PROCESSING',
+  { id: 'gen-stream', choices: [{ index: 0, delta: { role: 'assistant', content: 'A sunlit ' } }] },
+  { id: 'gen-stream', choices: [{ index: 0, delta: { content: 'kitchen counter' } }] },
+  { id: 'gen-stream', choices: [{ index: 0, delta: { content: '.' }, finish_reason: 'stop' }] },
+  { id: 'gen-stream', choices: [], usage: { prompt_tokens: 120, completion_tokens: 4, total_tokens: 124, cost: 0.0002 } },
+  'data: [DONE]',
+];
+
+/** 错误响应体 */
+export const errorBody = (code: number, message: string, metadata?: Record<string, unknown>) => ({
+  error: { code, message, ...(metadata ? { metadata } : {}) },
+});
+
+/** HTTP 200 但上游提供商失败 */
+export const upstreamErrorResponse = {
+  id: 'gen-1764000000-err',
+  error: { code: 502, message: 'Provider returned error', metadata: { provider_name: 'Google AI Studio', raw: 'INTERNAL' } },
+};
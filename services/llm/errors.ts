@@ -0,0 +1,180 @@
+/**
+ * LLM 调用错误
+ * 服务实现把 HTTP 状态码、SDK 异常和响应内容统一转换为带类型的 LLMError，
+ * UI 通过 describeLLMError() 显示对应的提示，而不是笼统的「请检查 API 密钥」
+ */
+
+export type LLMErrorCode =
+  | 'auth'
+  | 'quota'
+  | 'rate_limit'
+  | 'content_policy'
+  | 'model_text'
+  | 'invalid_output'
+  | 'network'
+  | 'server'
+  | 'bad_request';
+
+interface LLMErrorOptions {
+  status?: number;
+  providerId?: string;
+  retryable?: boolean;
+  retryAfterMs?: number; // Server-requested wait before retrying (Retry-After)
+  cause?: unknown;
+}
+
+/**
+ * 所有 LLM 错误的基类
+ */
+export class LLMError extends Error {
+  readonly code: LLMErrorCode;
+  readonly status?: number;
+  readonly providerId?: string;
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(code: LLMErrorCode, message: string, options: LLMErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'LLMError';
+    this.code = code;
+    this.status = options.status;
+    this.providerId = options.providerId;
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/** API 密钥缺失、无效或无权限 (401/403) */
+export class AuthError extends LLMError {
+  constructor(message: string, options: LLMErrorOptions = {}) {
+    super('auth', message, options);
+    this.name = 'AuthError';
+  }
+}
+
+/** 余额或额度不足 (402) */
+export class QuotaError extends LLMError {
+  constructor(message: string, options: LLMErrorOptions = {}) {
+    super('quota', message, options);
+    this.name = 'QuotaError';
+  }
+}
+
+/** 请求过于频繁 (429)，可重试 */
+export class RateLimitError extends LLMError {
+  constructor(message: string, options: LLMErrorOptions = {}) {
+    super('rate_limit', message, { retryable: true, ...options });
+    this.name = 'RateLimitError';
+  }
+}
+
+/** 内容被安全策略拒绝 */
+export class ContentPolicyError extends LLMError {
+  constructor(message: string, options: LLMErrorOptions = {}) {
+    super('content_policy', message, options);
+    this.name = 'ContentPolicyError';
+  }
+}
+
+/** 期望图片，模型却只返回了文本 */
+export class ModelTextError extends LLMError {
+  readonly text: string;
+
+  constructor(text: string, options: LLMErrorOptions = {}) {
+    super('model_text', `The model returned text instead of an image: ${text.slice(0, 200)}`, options);
+    this.name = 'ModelTextError';
+    this.text = text;
+  }
+}
+
+/** 期望结构化输出（JSON），模型返回的内容却无法解析 */
+export class InvalidOutputError extends LLMError {
+  readonly text: string;
+
+  constructor(message: string, text: string, options: LLMErrorOptions = {}) {
+    super('invalid_output', `${message}: ${text.slice(0, 200)}`, options);
+    this.name = 'InvalidOutputError';
+    this.text = text;
+  }
+}
+
+/** 网络连接失败，可重试 */
+export class NetworkError extends LLMError {
+  constructor(message: string, options: LLMErrorOptions = {}) {
+    super('network', message, { retryable: true, ...options });
+    this.name = 'NetworkError';
+  }
+}
+
+/** 服务端错误 (5xx) 或无法解析的响应，可重试 */
+export class ServerError extends LLMError {
+  constructor(message: string, options: LLMErrorOptions = {}) {
+    super('server', message, { retryable: true, ...options });
+    this.name = 'ServerError';
+  }
+}
+
+/**
+ * 判断错误是否由 AbortSignal 取消引起（fetch 与 SDK 都会抛出名为 AbortError 的错误）
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+/**
+ * 创建与 fetch 取消行为一致的 AbortError
+ */
+export const createAbortError = (message: string = 'The operation was aborted.'): Error => {
+  const error = new Error(message);
+  error.name = 'AbortError';
+  return error;
+};
+
+const CONTENT_POLICY_PATTERN = /moderation|flagged|safety|content[ _-]?policy|prohibited|blocked/i;
+
+/**
+ * 根据 HTTP 状态码与错误信息创建对应的 LLMError
+ */
+export function errorFromStatus(status: number, message: string, options: LLMErrorOptions = {}): LLMError {
+  const errorOptions = { ...options, status };
+  if (status === 401) return new AuthError(message, errorOptions);
+  if (status === 402) return new QuotaError(message, errorOptions);
+  // OpenRouter reports moderation refusals as 403
+  if (status === 403) {
+    return CONTENT_POLICY_PATTERN.test(message)
+      ? new ContentPolicyError(message, errorOptions)
+      : new AuthError(message, errorOptions);
+  }
+  if (status === 429) return new RateLimitError(message, errorOptions);
+  if (status === 408 || status >= 500) return new ServerError(message, errorOptions);
+  if (CONTENT_POLICY_PATTERN.test(message)) return new ContentPolicyError(message, errorOptions);
+  return new LLMError('bad_request', message, errorOptions);
+}
+
+/**
+ * 面向用户的错误说明
+ */
+export function describeLLMError(error: unknown): string {
+  if (error instanceof LLMError) {
+    switch (error.code) {
+      case 'auth':
+        return 'API 密钥无效或没有访问该模型的权限，请在设置中检查密钥。';
+      case 'quota':
+        return '账户余额或额度不足，请充值后重试。';
+      case 'rate_limit':
+        return '请求过于频繁，已多次重试仍被限流，请稍后再试或降低并发数。';
+      case 'content_policy':
+        return '内容被模型的安全策略拒绝，请调整场景描述或编辑指令。';
+      case 'model_text':
+        return '模型返回了文字而不是图片，请换一个支持图像输出的模型或重试。';
+      case 'invalid_output':
+        return '模型返回的内容不符合要求的格式，请重试或换一个模型。';
+      case 'network':
+        return '网络连接失败，请检查网络后重试。';
+      case 'server':
+        return '模型服务暂时不可用，请稍后重试。';
+      case 'bad_request':
+        return `请求被拒绝：${error.message}`;
+    }
+  }
+  return error instanceof Error ? error.message : '未知错误';
+}
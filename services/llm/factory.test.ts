@@ -0,0 +1,234 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LLMServiceFactory, DEFAULT_TASK_ROUTING, sanitizeTaskRouting, expandPrompt, generateProductScene } from './factory';
+import { ProviderRegistry } from './registry';
+import { OpenRouterService, OPENROUTER_PROVIDER_ID } from './openrouter';
+import { ILLMService, LLMServiceConfig } from './types';
+import { LLMProvider } from '../../types';
+
+const FAKE_PROVIDER_ID = 'fake';
+
+class FakeService implements ILLMService {
+  constructor(readonly config: LLMServiceConfig, readonly model: string) {}
+  getProviderId() { return FAKE_PROVIDER_ID; }
+  getModel() { return this.model; }
+  isAvailable() { return !!this.config.apiKey; }
+  expandPrompt = vi.fn(async (basePrompt: string) => `${this.model}: ${basePrompt}`);
+  generateImage = vi.fn(async () => `image from ${this.model}`);
+  recommendScenarios = vi.fn(async () => []);
+  analyzeProduct = vi.fn(async () => ({ category: 'Test', materials: [], colors: [], scale: '', audience: '', sellingPoints: [] }));
+  editImage = vi.fn(async () => `edit from ${this.model}`);
+}
+
+const create = vi.fn((config: LLMServiceConfig, model: string) => new FakeService(config, model));
+
+beforeEach(() => {
+  ProviderRegistry.register({
+    id: FAKE_PROVIDER_ID,
+    name: 'Fake',
+    capabilities: ['expand', 'generate', 'recommend', 'analyze', 'edit'],
+    models: [
+      { id: 'text-1', name: 'Text', capabilities: ['expand', 'recommend', 'analyze'] },
+      { id: 'image-1', name: 'Image', capabilities: ['generate', 'edit'] },
+    ],
+    create,
+  });
+  LLMServiceFactory.registerConfig({ apiKey: 'key-1' });
+  LLMServiceFactory.setTaskRouting({});
+  create.mockClear();
+});
+
+afterEach(() => {
+  ProviderRegistry.unregister(FAKE_PROVIDER_ID);
+});
+
+describe('LLMServiceFactory caching', () => {
+  it('reuses one instance per provider and model', () => {
+    const first = LLMServiceFactory.getService({ providerId: FAKE_PROVIDER_ID, model: 'text-1' });
+    const second = LLMServiceFactory.getService({ providerId: FAKE_PROVIDER_ID, model: 'text-1' });
+    expect(second).toBe(first);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('creates separate instances for different models', () => {
+    const text = LLMServiceFactory.getService({ providerId: FAKE_PROVIDER_ID, model: 'text-1' });
+    const image = LLMServiceFactory.getService({ providerId: FAKE_PROVIDER_ID, model: 'image-1' });
+    expect(image).not.toBe(text);
+    expect(image.getModel()).toBe('image-1');
+  });
+
+  it('drops cached instances when the config changes', () => {
+    const before = LLMServiceFactory.getService({ providerId: FAKE_PROVIDER_ID, model: 'text-1' }) as FakeService;
+    LLMServiceFactory.registerConfig({ apiKey: 'key-2', expandPromptSystem: 'custom' });
+    const after = LLMServiceFactory.getService({ providerId: FAKE_PROVIDER_ID, model: 'text-1' }) as FakeService;
+
+    expect(after).not.toBe(before);
+    expect(before.config.apiKey).toBe('key-1');
+    expect(after.config).toEqual({ apiKey: 'key-2', expandPromptSystem: 'custom' });
+  });
+
+  it('keeps cached instances when only the routing changes', () => {
+    const route = { providerId: FAKE_PROVIDER_ID, model: 'text-1' };
+    const before = LLMServiceFactory.getService(route);
+    LLMServiceFactory.setTaskRouting({ expand: route });
+    expect(LLMServiceFactory.getServiceForTask('expand')).toBe(before);
+  });
+
+  it('throws for an unknown provider', () => {
+    expect(() => LLMServiceFactory.getService({ providerId: 'missing', model: 'x' })).toThrow('Unknown LLM provider: missing');
+  });
+
+  it('reports availability without throwing', () => {
+    expect(LLMServiceFactory.isServiceAvailable({ providerId: FAKE_PROVIDER_ID, model: 'text-1' })).toBe(true);
+    expect(LLMServiceFactory.isServiceAvailable({ providerId: 'missing', model: 'x' })).toBe(false);
+    LLMServiceFactory.registerConfig({});
+    expect(LLMServiceFactory.isServiceAvailable({ providerId: FAKE_PROVIDER_ID, model: 'text-1' })).toBe(false);
+  });
+});
+
+describe('LLMServiceFactory routing', () => {
+  it('fills missing tasks from the default routing', () => {
+    LLMServiceFactory.setTaskRouting({ generate: { providerId: FAKE_PROVIDER_ID, model: 'image-1' } });
+    expect(LLMServiceFactory.getTaskRouting()).toEqual({
+      ...DEFAULT_TASK_ROUTING,
+      generate: { providerId: FAKE_PROVIDER_ID, model: 'image-1' },
+    });
+  });
+
+  it('returns a copy of the routing', () => {
+    const routing = LLMServiceFactory.getTaskRouting();
+    routing.expand = { providerId: FAKE_PROVIDER_ID, model: 'text-1' };
+    expect(LLMServiceFactory.getTaskRouting().expand).toEqual(DEFAULT_TASK_ROUTING.expand);
+  });
+
+  it('maps legacy provider enums to OpenRouter routes', () => {
+    const service = LLMServiceFactory.getService(LLMProvider.GEMINI_3_PRO_PREVIEW);
+    expect(service).toBeInstanceOf(OpenRouterService);
+    expect(service.getProviderId()).toBe(OPENROUTER_PROVIDER_ID);
+    expect(service.getModel()).toBe('google/gemini-3-pro-preview');
+  });
+
+  it('routes convenience functions by task unless a target is given', async () => {
+    LLMServiceFactory.setTaskRouting({
+      expand: { providerId: FAKE_PROVIDER_ID, model: 'text-1' },
+      generate: { providerId: FAKE_PROVIDER_ID, model: 'image-1' },
+    });
+
+    await expect(expandPrompt('kitchen')).resolves.toBe('text-1: kitchen');
+    await expect(generateProductScene('img', 'prompt')).resolves.toBe('image from image-1');
+    await expect(generateProductScene('img', 'prompt', undefined, { providerId: FAKE_PROVIDER_ID, model: 'text-1' }))
+      .resolves.toBe('image from text-1');
+  });
+
+  it('passes options through to the service', async () => {
+    LLMServiceFactory.setTaskRouting({ expand: { providerId: FAKE_PROVIDER_ID, model: 'text-1' } });
+    const options = { signal: new AbortController().signal };
+    await expandPrompt('kitchen', 'context', options);
+    const service = LLMServiceFactory.getServiceForTask('expand') as FakeService;
+    expect(service.expandPrompt).toHaveBeenCalledWith('kitchen', 'context', options);
+  });
+});
+
+describe('sanitizeTaskRouting', () => {
+  it('keeps saved routes that are still registered and capable', () => {
+    const routing = sanitizeTaskRouting({
+      expand: { providerId: FAKE_PROVIDER_ID, model: 'text-1' },
+      generate: { providerId: FAKE_PROVIDER_ID, model: 'image-1' },
+    });
+    expect(routing).toEqual({
+      ...DEFAULT_TASK_ROUTING,
+      expand: { providerId: FAKE_PROVIDER_ID, model: 'text-1' },
+      generate: { providerId: FAKE_PROVIDER_ID, model: 'image-1' },
+    });
+  });
+
+  it('falls back to the default route for unknown providers, removed models and wrong capabilities', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const routing = sanitizeTaskRouting({
+      expand: { providerId: 'renamed', model: 'text-1' },
+      generate: { providerId: FAKE_PROVIDER_ID, model: 'removed' },
+      recommend: { providerId: FAKE_PROVIDER_ID, model: 'image-1' },
+      analyze: 'not a route',
+      edit: null,
+    });
+    expect(routing).toEqual(DEFAULT_TASK_ROUTING);
+    vi.restoreAllMocks();
+  });
+
+  it('returns the defaults for anything that is not an object', () => {
+    expect(sanitizeTaskRouting(null)).toEqual(DEFAULT_TASK_ROUTING);
+    expect(sanitizeTaskRouting([1, 2])).toEqual(DEFAULT_TASK_ROUTING);
+  });
+});
+
+describe('mock mode', () => {
+  const MOCK_IMAGE_URL = 'data:image/png;base64,bW9jaw==';
+
+  // Just enough of the DOM for the mock's canvas compositing to run under node
+  const stubCanvas = () => {
+    const noop = () => ({ addColorStop() {} });
+    const measureText = () => ({ width: 0 });
+    const context = new Proxy({}, {
+      get: (_target, property) => property === 'measureText' ? measureText : noop,
+      set: () => true,
+    });
+    vi.stubGlobal('document', {
+      createElement: () => ({ width: 0, height: 0, getContext: () => context, toDataURL: () => MOCK_IMAGE_URL }),
+    });
+    vi.stubGlobal('Image', class {
+      naturalWidth = 100;
+      naturalHeight = 100;
+      onload?: () => void;
+      set src(_url: string) { queueMicrotask(() => this.onload?.()); }
+    });
+  };
+
+  // MOCK_MODE is read when the module loads
+  const loadMockFactory = async () => {
+    vi.stubEnv('VITE_LLM_MOCK', 'true');
+    vi.resetModules();
+    const factory = await import('./factory');
+    factory.LLMServiceFactory.registerConfig({ mockLatencyMs: 0, mockFailureRate: 0 });
+    return factory;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    stubCanvas();
+    // Any request would throw: the stub has no replies
+    vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('Unexpected network request'); }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('generates through the mock provider regardless of the saved routing', async () => {
+    const { LLMServiceFactory: MockFactory, generateProductScene: generate } = await loadMockFactory();
+    MockFactory.setTaskRouting({ generate: { providerId: OPENROUTER_PROVIDER_ID, model: 'google/gemini-3-pro-image-preview' } });
+    const onUsage = vi.fn();
+
+    const result = generate('data:image/png;base64,cHJvZHVjdA==', 'a desk', { onUsage });
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe(MOCK_IMAGE_URL);
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ providerId: 'mock' }));
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('retries simulated server errors like a real provider', async () => {
+    const { LLMServiceFactory: MockFactory, generateProductScene: generate } = await loadMockFactory();
+    MockFactory.registerConfig({ mockLatencyMs: 0, mockFailureRate: 0.5 });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Latency jitter, failure check, error kind (0.1 = ServerError), backoff jitter; then a passing attempt
+    const rolls = [0.5, 0.1, 0.1, 0.5, 0.5, 0.9];
+    vi.spyOn(Math, 'random').mockImplementation(() => rolls.shift() ?? 0.9);
+
+    const result = generate('data:image/png;base64,cHJvZHVjdA==', 'a desk');
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toBe(MOCK_IMAGE_URL);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('[mock] ServerError');
+  });
+});
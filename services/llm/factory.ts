@@ -1,35 +1,117 @@
 import { LLMProvider } from "../../types";
-import { ILLMService, LLMServiceConfig, ImageGenerationOptions } from "./types";
-import { OpenRouterService } from "./openrouter";
+import { ILLMService, LLMServiceConfig, ImageGenerationOptions, ExpandPromptOptions, RequestOptions, RecommendOptions, ScenarioRecommendation, ProductProfile, LLMTask, ModelRoute, ModelTarget, TaskRouting } from "./types";
+import { ProviderRegistry } from "./registry";
+import { OPENROUTER_PROVIDER_ID } from "./openrouter";
+import { MOCK_PROVIDER_ID, MOCK_MODEL } from "./mock";
+
+/**
+ * 旧版 LLMProvider 枚举到模型路由的映射
+ */
+const LEGACY_PROVIDER_ROUTES: Record<LLMProvider, ModelRoute> = {
+  [LLMProvider.GEMINI_3_PRO_IMAGE_PREVIEW]: { providerId: OPENROUTER_PROVIDER_ID, model: "google/gemini-3-pro-image-preview" },
+  [LLMProvider.GEMINI_3_PRO_PREVIEW]: { providerId: OPENROUTER_PROVIDER_ID, model: "google/gemini-3-pro-preview" },
+};
+
+/**
+ * 默认任务路由：文本/视觉任务走 Gemini 3 Pro，生图/编辑走 Nano Banana Pro
+ */
+export const DEFAULT_TASK_ROUTING: TaskRouting = {
+  expand: LEGACY_PROVIDER_ROUTES[LLMProvider.GEMINI_3_PRO_PREVIEW],
+  generate: LEGACY_PROVIDER_ROUTES[LLMProvider.GEMINI_3_PRO_IMAGE_PREVIEW],
+  recommend: LEGACY_PROVIDER_ROUTES[LLMProvider.GEMINI_3_PRO_PREVIEW],
+  analyze: LEGACY_PROVIDER_ROUTES[LLMProvider.GEMINI_3_PRO_PREVIEW],
+  edit: LEGACY_PROVIDER_ROUTES[LLMProvider.GEMINI_3_PRO_IMAGE_PREVIEW],
+};
+
+/**
+ * VITE_LLM_MOCK=true 时所有任务都路由到离线模拟提供商，忽略已保存的路由
+ */
+export const MOCK_MODE = import.meta.env.VITE_LLM_MOCK === 'true';
+
+const MOCK_ROUTE: ModelRoute = { providerId: MOCK_PROVIDER_ID, model: MOCK_MODEL };
+
+const MOCK_TASK_ROUTING: TaskRouting = {
+  expand: MOCK_ROUTE,
+  generate: MOCK_ROUTE,
+  recommend: MOCK_ROUTE,
+  analyze: MOCK_ROUTE,
+  edit: MOCK_ROUTE,
+};
+
+/**
+ * 校验已保存的任务路由：提供商或模型已不存在、或模型不支持该任务时，回退到默认路由
+ */
+export function sanitizeTaskRouting(saved: unknown): TaskRouting {
+  const routing = { ...DEFAULT_TASK_ROUTING };
+  if (!saved || typeof saved !== 'object') return routing;
+  for (const task of Object.keys(routing) as LLMTask[]) {
+    const route = (saved as Record<string, unknown>)[task] as Partial<ModelRoute> | undefined;
+    if (typeof route?.providerId !== 'string' || typeof route.model !== 'string') continue;
+    const provider = ProviderRegistry.get(route.providerId);
+    const model = ProviderRegistry.findModel(route.providerId, route.model);
+    if (provider?.capabilities.includes(task) && model?.capabilities.includes(task)) {
+      routing[task] = { providerId: route.providerId, model: route.model };
+    } else {
+      console.warn(`Saved ${task} route ${route.providerId}/${route.model} is no longer available, using the default`);
+    }
+  }
+  return routing;
+}
+
+const toRoute = (target: ModelTarget): ModelRoute =>
+  typeof target === 'string' ? LEGACY_PROVIDER_ROUTES[target] : target;
 
 /**
  * LLM 服务工厂类
  * 负责创建和管理 LLM 服务实例
  */
 export class LLMServiceFactory {
-  private static instances: Map<LLMProvider, ILLMService> = new Map();
+  private static instances: Map<string, ILLMService> = new Map();
   private static config: LLMServiceConfig = {};
+  private static routing: TaskRouting = { ...(MOCK_MODE ? MOCK_TASK_ROUTING : DEFAULT_TASK_ROUTING) };
 
   static registerConfig(config: LLMServiceConfig): void {
     this.config = config;
     this.instances.clear();
   }
 
-  static getService(provider: LLMProvider = LLMProvider.GEMINI_3_PRO_IMAGE_PREVIEW): ILLMService {
-    if (this.instances.has(provider)) {
-      return this.instances.get(provider)!;
+  static setTaskRouting(routing: Partial<TaskRouting>): void {
+    if (MOCK_MODE) return;
+    this.routing = { ...DEFAULT_TASK_ROUTING, ...routing };
+  }
+
+  static getTaskRouting(): TaskRouting {
+    return { ...this.routing };
+  }
+
+  static getService(target: ModelTarget = LLMProvider.GEMINI_3_PRO_IMAGE_PREVIEW): ILLMService {
+    const route = toRoute(target);
+    const key = `${route.providerId}:${route.model}`;
+    if (this.instances.has(key)) {
+      return this.instances.get(key)!;
     }
 
-    // Create OpenRouter Service with the specific provider
-    const service = new OpenRouterService(this.config, provider);
-    
-    this.instances.set(provider, service);
+    const provider = ProviderRegistry.get(route.providerId);
+    if (!provider) {
+      throw new Error(`Unknown LLM provider: ${route.providerId}`);
+    }
+
+    const service = provider.create(this.config, route.model);
+
+    this.instances.set(key, service);
     return service;
   }
 
-  static isServiceAvailable(provider: LLMProvider = LLMProvider.GEMINI_3_PRO_IMAGE_PREVIEW): boolean {
+  /**
+   * 获取当前路由到指定任务的服务
+   */
+  static getServiceForTask(task: LLMTask): ILLMService {
+    return this.getService(this.routing[task]);
+  }
+
+  static isServiceAvailable(target: ModelTarget = LLMProvider.GEMINI_3_PRO_IMAGE_PREVIEW): boolean {
     try {
-      const service = this.getService(provider);
+      const service = this.getService(target);
       return service.isAvailable();
     } catch (error) {
       return false;
@@ -37,16 +119,20 @@ export class LLMServiceFactory {
   }
 }
 
+const resolveService = (task: LLMTask, target?: ModelTarget): ILLMService =>
+  target ? LLMServiceFactory.getService(target) : LLMServiceFactory.getServiceForTask(task);
+
 /**
  * 便捷函数：扩展提示词
  */
 export async function expandPrompt(
   basePrompt: string,
-  provider: LLMProvider, 
-  customContext: string = ""
+  customContext: string = "",
+  options?: ExpandPromptOptions,
+  target?: ModelTarget
 ): Promise<string> {
-  const service = LLMServiceFactory.getService(provider);
-  return await service.expandPrompt(basePrompt, customContext);
+  const service = resolveService('expand', target);
+  return await service.expandPrompt(basePrompt, customContext, options);
 }
 
 /**
@@ -55,10 +141,10 @@ export async function expandPrompt(
 export async function generateProductScene(
   imageBase64: string,
   prompt: string,
-  provider: LLMProvider,
-  options?: ImageGenerationOptions
+  options?: ImageGenerationOptions,
+  target?: ModelTarget
 ): Promise<string> {
-  const service = LLMServiceFactory.getService(provider);
+  const service = resolveService('generate', target);
   return await service.generateImage(imageBase64, prompt, options);
 }
 
@@ -67,10 +153,23 @@ export async function generateProductScene(
  */
 export async function recommendScenarios(
   imageBase64: string,
-  provider: LLMProvider
-): Promise<string[]> {
-  const service = LLMServiceFactory.getService(provider);
-  return await service.recommendScenarios(imageBase64);
+  options?: RecommendOptions,
+  target?: ModelTarget
+): Promise<ScenarioRecommendation[]> {
+  const service = resolveService('recommend', target);
+  return await service.recommendScenarios(imageBase64, options);
+}
+
+/**
+ * 便捷函数：分析产品
+ */
+export async function analyzeProduct(
+  imageBase64: string,
+  options?: RequestOptions,
+  target?: ModelTarget
+): Promise<ProductProfile> {
+  const service = resolveService('analyze', target);
+  return await service.analyzeProduct(imageBase64, options);
 }
 
 /**
@@ -80,8 +179,9 @@ export async function editImage(
   imageBase64: string,
   maskBase64: string,
   prompt: string,
-  provider: LLMProvider
+  options?: RequestOptions,
+  target?: ModelTarget
 ): Promise<string> {
-  const service = LLMServiceFactory.getService(provider);
-  return await service.editImage(imageBase64, maskBase64, prompt);
-}
\ No newline at end of file
+  const service = resolveService('edit', target);
+  return await service.editImage(imageBase64, maskBase64, prompt, options);
+}
@@ -1,6 +1,11 @@
-import { GoogleGenAI } from "@google/genai";
-import { LLMProvider } from "../../types";
-import { ILLMService, LLMServiceConfig, ImageGenerationOptions } from "./types";
+import { GoogleGenAI, ApiError, GenerateContentResponse } from "@google/genai";
+import { ILLMService, LLMServiceConfig, ImageGenerationOptions, ExpandPromptOptions, RequestOptions, RecommendOptions, ScenarioRecommendation, ProductProfile, LLMUsage } from "./types";
+import { isAbortError, LLMError, AuthError, ContentPolicyError, ModelTextError, NetworkError, errorFromStatus } from "./errors";
+import { withRetry } from "./http";
+import { renderTemplate, templateVariableNames } from "./template";
+import { extractImage, toImagePayload } from "./media";
+import { PRODUCT_ANALYSIS_PROMPT, parseProductProfile } from "./profile";
+import { buildRecommendationPrompt, parseRecommendations, recommendationSchema } from "./recommend";
 
 export const DEFAULT_SYSTEM_INSTRUCTION = `# Role: Amazon Commercial Product Photography Expert
 
@@ -22,33 +27,75 @@ export const DEFAULT_USER_TEMPLATE = `# Task: Write a Commercial Image Gen Promp
 
 ## Input Data
 - **Target Scene**: "{{basePrompt}}"
+{{#if customContext}}
 - **Additional Context**: "{{customContext}}"
+{{/if}}
+{{#if brandColors}}
+- **Brand Colors**: {{brandColors}}
+{{/if}}
+{{#if category}}
+- **Product Category**: {{category}}
+{{/if}}
+{{#if materials}}
+- **Materials**: {{materials}}
+{{/if}}
+{{#if colors}}
+- **Product Colors**: {{colors}} (pick a background that complements them)
+{{/if}}
+{{#if scale}}
+- **Scale**: {{scale}}
+{{/if}}
+{{#if audience}}
+- **Target Audience**: {{audience}}
+{{/if}}
+{{#if sellingPoints}}
+- **Key Selling Points**: {{sellingPoints}}
+{{/if}}
 
 ## Instructions
 Based on the input, write a detailed, commercial-grade prompt.
 - Ensure the scene highlights the product's value.
+- Choose props and settings that fit the product's scale and target audience, and that let its selling points show.
 - If context implies a person, describe their interaction clearly (e.g., "a blurred figure in the background looking admiringly at the product").
 - Emphasize lighting and texture for a premium look.`;
 
-export const DEFAULT_GENERATION_TEMPLATE = `Create a high-end commercial product image for an Amazon listing.
+export const DEFAULT_GENERATION_TEMPLATE = `Create a high-end commercial product image for {{#if marketplace}}a {{marketplace}}{{else}}an Amazon{{/if}} listing.
 Reference Image: Use the provided product image as the main subject.
 Scene Description: {{prompt}}.
+{{#if productName}}
+Product: {{productName}}{{#if category}} ({{category}}){{/if}}
+{{/if}}
 Requirements:
 - **Focus**: Razor sharp on the product for zoom capability.
 - **Composition**: Product is the hero, centered and commanding attention.
 - **Lighting**: Professional studio or natural commercial lighting.
+{{#if brandColors}}
+- **Brand Colors**: Echo {{brandColors}} in props and background accents.
+{{/if}}
+{{#if aspectRatio}}
+- **Aspect Ratio**: {{aspectRatio}}.
+{{/if}}
 Style: Amazon A+ Lifestyle, 8k, Photorealistic, Advertisement.`;
 
+export const GEMINI_PROVIDER_ID = "gemini";
+
+// 文本/多模态任务与生图任务的默认模型 (遵循 OpenRouter 命名习惯，去除 google/ 前缀适配 SDK)
+const DEFAULT_TEXT_MODEL = 'gemini-3-pro-preview';
+const DEFAULT_IMAGE_MODEL = 'gemini-3-pro-image-preview';
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
 /**
  * Gemini LLM 服务实现
  */
 export class GeminiService implements ILLMService {
   private client: GoogleGenAI;
   private config: LLMServiceConfig;
-  private readonly provider = LLMProvider.GEMINI_3_PRO_PREVIEW; // Defaulting to new provider for now
+  private model?: string;
 
-  constructor(config: LLMServiceConfig = {}) {
+  constructor(config: LLMServiceConfig = {}, model?: string) {
     this.config = config;
+    this.model = model || config.model;
     // 优先使用配置中的 API key，然后是环境变量
     const apiKey = config.apiKey || import.meta.env.VITE_GEMINI_API_KEY || (typeof process !== 'undefined' ? process.env.API_KEY : undefined);
     
@@ -59,8 +106,12 @@ export class GeminiService implements ILLMService {
     this.client = new GoogleGenAI({ apiKey: apiKey || "" });
   }
 
-  getProvider(): LLMProvider {
-    return this.provider;
+  getProviderId(): string {
+    return GEMINI_PROVIDER_ID;
+  }
+
+  getModel(): string {
+    return this.model || DEFAULT_TEXT_MODEL;
   }
 
   isAvailable(): boolean {
@@ -68,68 +119,133 @@ export class GeminiService implements ILLMService {
     return !!apiKey;
   }
 
-  private processTemplate(template: string, variables: Record<string, string>): string {
-    let result = template;
-    for (const [key, value] of Object.entries(variables)) {
-      result = result.split(`{{${key}}}`).join(value);
-    }
-    return result;
+  /**
+   * 通过共享请求层（限流 + 重试）调用 SDK，并把 SDK 异常转换为 LLMError
+   */
+  private call<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    return withRetry(async () => {
+      try {
+        return await operation();
+      } catch (error) {
+        if (isAbortError(error) || error instanceof LLMError) throw error;
+        if (error instanceof ApiError) {
+          throw errorFromStatus(error.status, error.message, { providerId: GEMINI_PROVIDER_ID, cause: error });
+        }
+        // fetch failures surface as TypeError before any HTTP status is available
+        if (error instanceof TypeError) {
+          throw new NetworkError(error.message, { providerId: GEMINI_PROVIDER_ID, cause: error });
+        }
+        throw error;
+      }
+    }, { providerId: GEMINI_PROVIDER_ID, signal });
+  }
+
+  /**
+   * 回调 usageMetadata 中的 token 用量（SDK 不返回费用）
+   */
+  private reportUsage(usageMetadata: GenerateContentResponse['usageMetadata'], model: string, options?: RequestOptions): void {
+    if (!usageMetadata || !options?.onUsage) return;
+    const usage: LLMUsage = {
+      providerId: GEMINI_PROVIDER_ID,
+      model,
+      promptTokens: usageMetadata.promptTokenCount ?? 0,
+      completionTokens: usageMetadata.candidatesTokenCount ?? 0,
+      totalTokens: usageMetadata.totalTokenCount ?? 0,
+    };
+    options.onUsage(usage);
   }
 
-  async expandPrompt(basePrompt: string, customContext: string = ""): Promise<string> {
+  private requireApiKey(): void {
     if (!this.isAvailable()) {
-      throw new Error("Gemini API key is not configured. Please set VITE_GEMINI_API_KEY in .env file.");
+      throw new AuthError("Gemini API key is not configured. Please set VITE_GEMINI_API_KEY in .env file.", { providerId: GEMINI_PROVIDER_ID });
+    }
+  }
+
+  /**
+   * 从响应中提取图片；没有图片时区分安全策略拦截与模型只返回了文本
+   */
+  private readImage(response: GenerateContentResponse): string {
+    const image = extractImage(response);
+    if (image) return image;
+
+    const candidate = response.candidates?.[0];
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = candidate?.finishReason;
+    if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+      throw new ContentPolicyError(`Request blocked by Gemini (${blockReason || finishReason})`, { providerId: GEMINI_PROVIDER_ID });
     }
+    throw new ModelTextError(response.text || "Empty response", { providerId: GEMINI_PROVIDER_ID });
+  }
+
+  async expandPrompt(basePrompt: string, customContext: string = "", options?: ExpandPromptOptions): Promise<string> {
+    this.requireApiKey();
 
     try {
-      // 文本/多模态任务使用 pro-preview (遵循 OpenRouter 命名习惯，去除 google/ 前缀适配 SDK)
-      const modelId = this.config.model || 'gemini-3-pro-preview';
+      const modelId = this.model || DEFAULT_TEXT_MODEL;
       
-      const systemInstruction = this.config.expandPromptSystem || DEFAULT_SYSTEM_INSTRUCTION;
-      const userTemplate = this.config.expandPromptUserTemplate || DEFAULT_USER_TEMPLATE;
+      const systemInstruction = options?.systemInstruction || this.config.expandPromptSystem || DEFAULT_SYSTEM_INSTRUCTION;
+      const userTemplate = options?.userTemplate || this.config.expandPromptUserTemplate || DEFAULT_USER_TEMPLATE;
       
-      const userPrompt = this.processTemplate(userTemplate, {
+      const userPrompt = renderTemplate(userTemplate, {
+        ...options?.variables,
         basePrompt,
         customContext
       });
 
-      const response = await this.client.models.generateContent({
+      const request = {
         model: modelId,
         contents: userPrompt,
         config: {
           systemInstruction: systemInstruction,
           temperature: 0.7,
+          abortSignal: options?.signal,
         }
-      });
+      };
+
+      if (options?.onToken) {
+        let text = "";
+        let usageMetadata: GenerateContentResponse['usageMetadata'];
+        // Only opening the stream is retried; a retry after tokens arrived would duplicate them
+        const stream = await this.call(() => this.client.models.generateContentStream(request), options?.signal);
+        for await (const chunk of stream) {
+          usageMetadata = chunk.usageMetadata ?? usageMetadata;
+          const delta = chunk.text;
+          if (delta) {
+            text += delta;
+            options.onToken(delta, text);
+          }
+        }
+        this.reportUsage(usageMetadata, modelId, options);
+        return text || `A professional product shot in a ${basePrompt} setting.`;
+      }
+
+      const response = await this.call(() => this.client.models.generateContent(request), options?.signal);
+      this.reportUsage(response.usageMetadata, modelId, options);
 
       return response.text || `A professional product shot in a ${basePrompt} setting.`;
     } catch (error) {
+      if (isAbortError(error) || error instanceof LLMError) throw error;
       console.error("Gemini expandPrompt error:", error);
       throw new Error(`Failed to expand prompt with Gemini: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   async generateImage(imageBase64: string, prompt: string, options?: ImageGenerationOptions): Promise<string> {
-    if (!this.isAvailable()) {
-      throw new Error("Gemini API key is not configured. Please set VITE_GEMINI_API_KEY in .env file.");
-    }
+    this.requireApiKey();
 
     try {
-      // Clean base64 string if it has the data prefix
-      const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
-      
-      const generationTemplate = this.config.generationPromptTemplate || DEFAULT_GENERATION_TEMPLATE;
+      const generationTemplate = options?.template || this.config.generationPromptTemplate || DEFAULT_GENERATION_TEMPLATE;
       
-      let fullPrompt = this.processTemplate(generationTemplate, { prompt });
+      const quality = options?.quality ?? options?.variables?.quality;
+      let fullPrompt = renderTemplate(generationTemplate, { ...options?.variables, quality, prompt });
 
-      // Append Quality/Style Tags if provided
-      if (options?.quality) {
-        fullPrompt += `\nStyle/Quality: ${options.quality}`;
+      // Append Quality/Style Tags unless the template already places them
+      if (quality && !templateVariableNames(generationTemplate).includes('quality')) {
+        fullPrompt += `\nStyle/Quality: ${quality}`;
       }
 
-      // 生图任务使用 pro-image-preview (遵循 OpenRouter 命名习惯，去除 google/ 前缀适配 SDK)
-      const modelId = this.config.model || 'gemini-3-pro-image-preview';
-      const response = await this.client.models.generateContent({
+      const modelId = this.model || DEFAULT_IMAGE_MODEL;
+      const response = await this.call(() => this.client.models.generateContent({
         model: modelId,
         contents: {
           parts: [
@@ -137,124 +253,114 @@ export class GeminiService implements ILLMService {
               text: fullPrompt,
             },
             {
-              inlineData: {
-                mimeType: 'image/png',
-                data: cleanBase64,
-              },
+              inlineData: toImagePayload(imageBase64),
             },
           ],
         },
-      });
-
-      // Extract image from response
-      const candidates = response.candidates;
-      if (candidates && candidates.length > 0) {
-        const parts = candidates[0].content.parts;
-        for (const part of parts) {
-          if (part.inlineData && part.inlineData.data) {
-            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-          }
-        }
-      }
+        config: {
+          temperature: options?.temperature,
+          seed: options?.seed,
+          abortSignal: options?.signal,
+        },
+      }), options?.signal);
+      this.reportUsage(response.usageMetadata, modelId, options);
 
-      throw new Error("No image data returned from Gemini API");
+      return this.readImage(response);
     } catch (error) {
+      if (isAbortError(error) || error instanceof LLMError) throw error;
       console.error("Gemini generateImage error:", error);
       throw new Error(`Failed to generate image with Gemini: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async recommendScenarios(imageBase64: string): Promise<string[]> {
-    // Placeholder implementation for GeminiService if needed, 
-    // but user is primarily using OpenRouterService.
-    // Implementing basic version using generateContent with image.
-    if (!this.isAvailable()) {
-        throw new Error("Gemini API key is not configured.");
-    }
+  async recommendScenarios(imageBase64: string, options?: RecommendOptions): Promise<ScenarioRecommendation[]> {
+    this.requireApiKey();
 
     try {
-        const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
-        // 多模态分析任务使用 pro-preview
-        const modelId = 'gemini-3-pro-preview'; 
-        
-        const prompt = `Analyze the provided product image. Generate 3 distinct, high-quality commercial photography scene descriptions suitable for Amazon product listings. 
-        Focus on lighting, background, and atmosphere that complements this specific product. 
-        Return the result as a JSON array of strings. 
-        Example: ["A minimalist wooden table...", "A sunny kitchen counter...", "A dark moody studio..."]`;
-
-        const response = await this.client.models.generateContent({
+        const modelId = this.model || DEFAULT_TEXT_MODEL;
+
+        const response = await this.call(() => this.client.models.generateContent({
             model: modelId,
             contents: {
                 parts: [
-                    { text: prompt },
-                    { inlineData: { mimeType: 'image/png', data: cleanBase64 } }
+                    { text: buildRecommendationPrompt(options) },
+                    { inlineData: toImagePayload(imageBase64) }
                 ]
+            },
+            config: {
+                responseMimeType: "application/json",
+                responseJsonSchema: recommendationSchema(options?.count),
+                abortSignal: options?.signal,
             }
-        });
+        }), options?.signal);
+        this.reportUsage(response.usageMetadata, modelId, options);
 
-        const text = response.text || "[]";
-        const jsonMatch = text.match(/\[.*\]/s);
-        if (jsonMatch) {
-            return JSON.parse(jsonMatch[0]);
-        }
-        return [];
+        return parseRecommendations(response.text || "", GEMINI_PROVIDER_ID, options?.count);
     } catch (error) {
+        if (isAbortError(error) || error instanceof LLMError) throw error;
         console.error("Gemini recommendScenarios error:", error);
-        return [];
+        throw new Error(`Failed to recommend scenarios with Gemini: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async editImage(imageBase64: string, maskBase64: string, prompt: string): Promise<string> {
-    if (!this.isAvailable()) {
-      throw new Error("Gemini API key is not configured. Please set VITE_GEMINI_API_KEY in .env file.");
+  async analyzeProduct(imageBase64: string, options?: RequestOptions): Promise<ProductProfile> {
+    this.requireApiKey();
+
+    try {
+      const modelId = this.model || DEFAULT_TEXT_MODEL;
+      const response = await this.call(() => this.client.models.generateContent({
+        model: modelId,
+        contents: {
+          parts: [
+            { text: PRODUCT_ANALYSIS_PROMPT },
+            { inlineData: toImagePayload(imageBase64) }
+          ]
+        },
+        config: {
+          responseMimeType: "application/json",
+          temperature: 0.2,
+          abortSignal: options?.signal,
+        }
+      }), options?.signal);
+      this.reportUsage(response.usageMetadata, modelId, options);
+
+      return parseProductProfile(response.text || "", GEMINI_PROVIDER_ID);
+    } catch (error) {
+      if (isAbortError(error) || error instanceof LLMError) throw error;
+      console.error("Gemini analyzeProduct error:", error);
+      throw new Error(`Failed to analyze product with Gemini: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
+  }
+
+  async editImage(imageBase64: string, maskBase64: string, prompt: string, options?: RequestOptions): Promise<string> {
+    this.requireApiKey();
 
     try {
-      const cleanImageBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
-      const cleanMaskBase64 = maskBase64.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
-      
-      // 编辑/Inpainting 任务使用 pro-image-preview
-      const modelId = 'gemini-3-pro-image-preview';
+      const modelId = this.model || DEFAULT_IMAGE_MODEL;
 
       const fullPrompt = `Perform an inpainting/edit task on the image using the provided mask.
       The white area in the mask indicates the region to modify.
       Instruction: ${prompt}
       Return only the resulting image.`;
 
-      const response = await this.client.models.generateContent({
+      const response = await this.call(() => this.client.models.generateContent({
         model: modelId,
         contents: {
           parts: [
             { text: fullPrompt },
-            {
-              inlineData: {
-                mimeType: 'image/png',
-                data: cleanImageBase64,
-              },
-            },
-            {
-              inlineData: {
-                mimeType: 'image/png',
-                data: cleanMaskBase64, // Mask as the second image
-              },
-            }
+            { inlineData: toImagePayload(imageBase64) },
+            { inlineData: toImagePayload(maskBase64) }, // Mask as the second image
           ],
         },
-      });
-
-      // Extract image from response
-      const candidates = response.candidates;
-      if (candidates && candidates.length > 0) {
-        const parts = candidates[0].content.parts;
-        for (const part of parts) {
-          if (part.inlineData && part.inlineData.data) {
-            return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-          }
-        }
-      }
+        config: {
+          abortSignal: options?.signal,
+        },
+      }), options?.signal);
+      this.reportUsage(response.usageMetadata, modelId, options);
 
-      throw new Error("No image data returned from Gemini API for edit request");
+      return this.readImage(response);
     } catch (error) {
+      if (isAbortError(error) || error instanceof LLMError) throw error;
       console.error("Gemini editImage error:", error);
       throw new Error(`Failed to edit image with Gemini: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { requestJson, request, parseRetryAfter, backoffDelay, setRequestLimit, DEFAULT_RETRY_POLICY } from './http';
+import { InvalidOutputError, NetworkError, RateLimitError, ServerError, isAbortError } from './errors';
+import { createFetchStub, jsonResponse } from './__fixtures__/fetchStub';
+import { errorBody, upstreamErrorResponse } from './__fixtures__/openrouterResponses';
+
+const URL = 'https://api.example.com/v1/chat/completions';
+
+// Limiter state (request window, Retry-After blocks) is per provider, so each test gets its own
+let testCount = 0;
+let options: { providerId: string; retry: { baseDelayMs: number; maxDelayMs: number } };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  options = { providerId: `http-test-${++testCount}`, retry: { baseDelayMs: 100, maxDelayMs: 1000 } };
+  setRequestLimit(options.providerId, 10_000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('parseRetryAfter', () => {
+  it('parses seconds and HTTP dates', () => {
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT')).toBe(5000);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('backoffDelay', () => {
+  it('grows exponentially with 50-100% jitter and a ceiling', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(backoffDelay(0)).toBe(DEFAULT_RETRY_POLICY.baseDelayMs * 0.5);
+    expect(backoffDelay(2)).toBe(DEFAULT_RETRY_POLICY.baseDelayMs * 4 * 0.5);
+
+    vi.spyOn(Math, 'random').mockReturnValue(0.999999);
+    expect(backoffDelay(20)).toBeCloseTo(DEFAULT_RETRY_POLICY.maxDelayMs, 0);
+  });
+});
+
+describe('requestJson', () => {
+  it('waits for Retry-After before retrying a 429', async () => {
+    const stub = createFetchStub(
+      jsonResponse(errorBody(429, 'Rate limit exceeded'), { status: 429, headers: { 'Retry-After': '3' } }),
+      jsonResponse({ ok: true })
+    ).install();
+
+    const result = requestJson(URL, {}, options);
+    await vi.advanceTimersByTimeAsync(2900);
+    expect(stub.requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(result).resolves.toEqual({ ok: true });
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    const stub = createFetchStub(
+      ...Array.from({ length: 3 }, () => jsonResponse(errorBody(503, 'Overloaded'), { status: 503 }))
+    ).install();
+
+    const result = requestJson(URL, {}, { ...options, retry: { ...options.retry, maxRetries: 2 } }).catch(e => e);
+    await vi.runAllTimersAsync();
+    expect(await result).toBeInstanceOf(ServerError);
+    expect(stub.requests).toHaveLength(3);
+  });
+
+  it('surfaces the last RateLimitError when retries run out', async () => {
+    createFetchStub(
+      jsonResponse(errorBody(429, 'Slow down'), { status: 429 }),
+      jsonResponse(errorBody(429, 'Slow down'), { status: 429 })
+    ).install();
+
+    const result = requestJson(URL, {}, { ...options, retry: { ...options.retry, maxRetries: 1 } }).catch(e => e);
+    await vi.runAllTimersAsync();
+    const error = await result;
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.providerId).toBe(options.providerId);
+  });
+
+  it('does not resend a 200 response that carries an error payload', async () => {
+    const stub = createFetchStub(jsonResponse(upstreamErrorResponse), jsonResponse({ ok: true })).install();
+    const error = await requestJson(URL, {}, options).catch(e => e);
+    expect(error).toBeInstanceOf(ServerError);
+    expect(error.retryable).toBe(false);
+    expect(error.message).toBe('Provider returned error (INTERNAL)');
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('does not resend a 200 response whose body is not JSON', async () => {
+    const stub = createFetchStub(new Response('OK, image queued'), jsonResponse({ ok: true })).install();
+    const error = await requestJson(URL, {}, options).catch(e => e);
+    expect(error).toBeInstanceOf(InvalidOutputError);
+    expect(error.message).toBe('Invalid JSON response: OK, image queued');
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('reports HTML error pages by status instead of a JSON parse error', async () => {
+    createFetchStub(new Response('<html><body>Bad gateway</body></html>', { status: 502, statusText: 'Bad Gateway' })).install();
+    const result = requestJson(URL, {}, { ...options, retry: { maxRetries: 0 } }).catch(e => e);
+    const error = await result;
+    expect(error).toBeInstanceOf(ServerError);
+    expect(error.message).toBe('502 Bad Gateway');
+  });
+
+  it('wraps fetch failures in a retryable NetworkError', async () => {
+    const stub = createFetchStub(
+      () => { throw new TypeError('Failed to fetch'); },
+      jsonResponse({ ok: true })
+    ).install();
+    const result = requestJson(URL, {}, options);
+    await vi.runAllTimersAsync();
+    await expect(result).resolves.toEqual({ ok: true });
+    expect(stub.fetch).toHaveBeenCalledTimes(2);
+
+    createFetchStub(() => { throw new TypeError('Failed to fetch'); }).install();
+    await expect(requestJson(URL, {}, { ...options, retry: { maxRetries: 0 } })).rejects.toBeInstanceOf(NetworkError);
+  });
+
+  it('stops waiting between retries when aborted', async () => {
+    createFetchStub(jsonResponse(errorBody(503, 'Overloaded'), { status: 503 })).install();
+    const controller = new AbortController();
+    const result = requestJson(URL, {}, { ...options, signal: controller.signal }).catch(e => e);
+
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+    expect(isAbortError(await result)).toBe(true);
+  });
+});
+
+describe('request', () => {
+  it('returns the raw response so callers can stream it', async () => {
+    createFetchStub(new Response('data: {}\n\n', { status: 200 })).install();
+    const response = await request(URL, {}, options);
+    await expect(response.text()).resolves.toBe('data: {}\n\n');
+  });
+});
+
+describe('rate limiter', () => {
+  it('holds requests beyond the per-minute ceiling until the window frees up', async () => {
+    const provider = options.providerId;
+    setRequestLimit(provider, 2);
+    const stub = createFetchStub(...Array.from({ length: 3 }, () => jsonResponse({ ok: true }))).install();
+
+    const results = [1, 2, 3].map(() => requestJson(URL, {}, { providerId: provider }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(stub.requests).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    await Promise.all(results);
+    expect(stub.requests).toHaveLength(3);
+  });
+});
@@ -0,0 +1,222 @@
+import { LLMError, NetworkError, InvalidOutputError, errorFromStatus, isAbortError, createAbortError } from "./errors";
+
+/**
+ * 共享请求层
+ * - 429 / 5xx / 网络错误按指数退避 + 随机抖动重试，优先遵循 Retry-After
+ * - 每个提供商一个滑动窗口限流器，限制每分钟请求数
+ * - 错误响应体安全解析（HTML 错误页不会再触发二次 JSON 解析错误）
+ */
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+export const DEFAULT_REQUESTS_PER_MINUTE = 60;
+
+export interface HttpRequestOptions {
+  providerId: string;
+  signal?: AbortSignal;
+  retry?: Partial<RetryPolicy>;
+  skipRateLimit?: boolean; // Requests that don't hit the provider API (e.g. image downloads from a CDN) skip its limiter
+}
+
+/**
+ * 可取消的等待；取消时抛出 AbortError
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * 滑动窗口限流器：任意 60 秒内最多 requestsPerMinute 个请求
+ */
+class RateLimiter {
+  requestsPerMinute: number;
+  private timestamps: number[] = [];
+  private blockedUntil = 0;
+
+  constructor(requestsPerMinute: number) {
+    this.requestsPerMinute = requestsPerMinute;
+  }
+
+  /**
+   * 服务端要求等待（Retry-After）时，暂停该提供商的所有请求
+   */
+  blockFor(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+  }
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    while (true) {
+      const now = Date.now();
+      this.timestamps = this.timestamps.filter(t => now - t < 60000);
+
+      const waitForBlock = this.blockedUntil - now;
+      const waitForWindow = this.timestamps.length >= this.requestsPerMinute
+        ? this.timestamps[0] + 60000 - now
+        : 0;
+      const wait = Math.max(waitForBlock, waitForWindow);
+
+      if (wait <= 0) {
+        this.timestamps.push(now);
+        return;
+      }
+      await sleep(wait, signal);
+    }
+  }
+}
+
+const limiters = new Map<string, RateLimiter>();
+
+const getLimiter = (providerId: string): RateLimiter => {
+  if (!limiters.has(providerId)) {
+    limiters.set(providerId, new RateLimiter(DEFAULT_REQUESTS_PER_MINUTE));
+  }
+  return limiters.get(providerId)!;
+};
+
+/**
+ * 设置某个提供商每分钟最多发出的请求数
+ */
+export function setRequestLimit(providerId: string, requestsPerMinute: number): void {
+  getLimiter(providerId).requestsPerMinute = Math.max(1, Math.floor(requestsPerMinute));
+}
+
+/**
+ * 解析 Retry-After（秒数或 HTTP 日期）
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 第 attempt 次重试前的等待时间：指数退避，乘以 50%-100% 的随机抖动
+ */
+export function backoffDelay(attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return exponential * (0.5 + Math.random() * 0.5);
+}
+
+/**
+ * 带限流与重试地执行一次操作。operation 抛出 retryable 的 LLMError 时会被重试
+ */
+export async function withRetry<T>(operation: () => Promise<T>, options: HttpRequestOptions): Promise<T> {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+  const limiter = getLimiter(options.providerId);
+
+  for (let attempt = 0; ; attempt++) {
+    if (!options.skipRateLimit) {
+      await limiter.acquire(options.signal);
+    }
+    try {
+      return await operation();
+    } catch (error) {
+      if (isAbortError(error) || !(error instanceof LLMError) || !error.retryable || attempt >= policy.maxRetries) {
+        throw error;
+      }
+
+      if (error.retryAfterMs !== undefined && !options.skipRateLimit) {
+        limiter.blockFor(error.retryAfterMs);
+      }
+      const delay = error.retryAfterMs ?? backoffDelay(attempt, policy);
+      console.warn(`[${options.providerId}] ${error.name} (${error.message}), retrying in ${Math.round(delay)}ms (${attempt + 1}/${policy.maxRetries})`);
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+/**
+ * 读取响应体；JSON 解析失败时返回原始文本
+ */
+const readBody = async (response: Response): Promise<{ json?: any; text: string }> => {
+  const text = await response.text().catch(() => '');
+  try {
+    return { json: JSON.parse(text), text };
+  } catch {
+    return { text };
+  }
+};
+
+/**
+ * 从错误载荷中提取信息（兼容 OpenAI / OpenRouter 的 { error: { message, code } } 格式）
+ * retryable 为 false 时，即使状态码本身可重试（429 / 5xx）也不再重试
+ */
+export function errorFromPayload(
+  status: number,
+  payload: any,
+  fallback: string,
+  providerId: string,
+  options: { retryAfterMs?: number; retryable?: boolean } = {},
+): LLMError {
+  const detail = payload?.error?.metadata?.raw || payload?.error?.metadata?.reasons?.join(', ');
+  const message = payload?.error?.message || payload?.message || fallback;
+  const code = typeof payload?.error?.code === 'number' ? payload.error.code : status;
+  return errorFromStatus(code, detail ? `${message} (${detail})` : message, { providerId, ...options });
+}
+
+const fetchOnce = async (url: string, init: RequestInit, options: HttpRequestOptions): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal: options.signal });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new NetworkError(error instanceof Error ? error.message : 'Network request failed', { providerId: options.providerId, cause: error });
+  }
+
+  if (response.ok) return response;
+
+  const body = await readBody(response);
+  const fallback = body.text.trim().startsWith('<')
+    ? `${response.status} ${response.statusText}`.trim() // HTML error page
+    : body.text.slice(0, 200) || response.statusText;
+  throw errorFromPayload(response.status, body.json, fallback, options.providerId, { retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')) });
+};
+
+/**
+ * 发送 HTTP 请求，返回状态为 2xx 的 Response（用于流式响应）；失败时抛出 LLMError
+ */
+export async function request(url: string, init: RequestInit, options: HttpRequestOptions): Promise<Response> {
+  return withRetry(() => fetchOnce(url, init, options), options);
+}
+
+/**
+ * 发送请求并解析 JSON。只有 HTTP 层的失败（429 / 5xx / 网络错误）会重试；
+ * 2xx 响应已被上游处理（可能已计费），响应体不是 JSON 或带有 error 字段时直接抛出，不再重发
+ */
+export async function requestJson<T = any>(url: string, init: RequestInit, options: HttpRequestOptions): Promise<T> {
+  const response = await request(url, init, options);
+  const body = await readBody(response);
+  if (body.json === undefined) {
+    throw new InvalidOutputError('Invalid JSON response', body.text, { providerId: options.providerId, status: response.status });
+  }
+  // Upstream failures can arrive as 200 with an error payload
+  if (body.json.error) {
+    throw errorFromPayload(500, body.json, 'Upstream provider error', options.providerId, { retryable: false });
+  }
+  return body.json as T;
+}
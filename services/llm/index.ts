@@ -3,5 +3,31 @@
  */
 
 export * from './types';
-export { GeminiService, DEFAULT_SYSTEM_INSTRUCTION, DEFAULT_USER_TEMPLATE, DEFAULT_GENERATION_TEMPLATE } from './gemini';
-export { LLMServiceFactory, expandPrompt, generateProductScene, recommendScenarios } from './factory';
+export { GeminiService, GEMINI_PROVIDER_ID, DEFAULT_SYSTEM_INSTRUCTION, DEFAULT_USER_TEMPLATE, DEFAULT_GENERATION_TEMPLATE } from './gemini';
+export { OpenRouterService, OPENROUTER_PROVIDER_ID } from './openrouter';
+export { MockLLMService, MOCK_PROVIDER_ID, MOCK_MODEL } from './mock';
+export { ProviderRegistry } from './registry';
+export { LLMServiceFactory, DEFAULT_TASK_ROUTING, sanitizeTaskRouting, MOCK_MODE, expandPrompt, generateProductScene, recommendScenarios, analyzeProduct, editImage } from './factory';
+export {
+  LLMError,
+  AuthError,
+  QuotaError,
+  RateLimitError,
+  ContentPolicyError,
+  ModelTextError,
+  InvalidOutputError,
+  NetworkError,
+  ServerError,
+  isAbortError,
+  createAbortError,
+  describeLLMError,
+} from './errors';
+export type { LLMErrorCode } from './errors';
+export { setRequestLimit, DEFAULT_RETRY_POLICY, DEFAULT_REQUESTS_PER_MINUTE } from './http';
+export { detectMimeType, toImagePayload, toDataUrl, fetchImageAsDataUrl, resolveImage, extractImage, isDataUrl, isRemoteUrl } from './media';
+export type { ImagePayload } from './media';
+export { renderTemplate, validateTemplate, templateVariableNames, templateVariablesFor, exampleTemplateVariables, TEMPLATE_VARIABLES, PRODUCT_TEMPLATE_VARIABLES, PROFILE_TEMPLATE_VARIABLES } from './template';
+export type { TemplateIssue, TemplateScope, TemplateVariableDefinition } from './template';
+export { parseProductProfile, profileTemplateVariables, describeProductProfile } from './profile';
+export { parseRecommendations, buildRecommendationPrompt, recommendationSchema, DEFAULT_RECOMMENDATION_COUNT, MAX_RECOMMENDATION_COUNT } from './recommend';
+export type { RecommendationSchema } from './recommend';
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { detectMimeType, toImagePayload, toDataUrl, extractImage, fetchImageAsDataUrl, resolveImage } from './media';
+import { requestJson, setRequestLimit } from './http';
+import { InvalidOutputError } from './errors';
+import { createFetchStub, binaryResponse, jsonResponse } from './__fixtures__/fetchStub';
+import {
+  PNG_BASE64,
+  PNG_DATA_URL,
+  JPEG_BASE64,
+  JPEG_DATA_URL,
+  REMOTE_IMAGE_URL,
+  imagesArrayResponse,
+  markdownImageResponse,
+  markdownDataUriResponse,
+  contentPartsResponse,
+  textOnlyResponse,
+} from './__fixtures__/openrouterResponses';
+
+const PROVIDER_ID = 'media-test';
+const WEBP_BASE64 = btoa('RIFF\x24\x00\x00\x00WEBPVP8 ');
+const GIF_BASE64 = btoa('GIF89a\x01\x00\x01\x00');
+
+beforeEach(() => {
+  setRequestLimit(PROVIDER_ID, 10_000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('detectMimeType', () => {
+  it.each([
+    ['PNG', PNG_BASE64, 'image/png'],
+    ['JPEG', JPEG_BASE64, 'image/jpeg'],
+    ['WEBP', WEBP_BASE64, 'image/webp'],
+    ['GIF', GIF_BASE64, 'image/gif'],
+  ])('recognizes %s by its file signature', (_label, base64, expected) => {
+    expect(detectMimeType(base64)).toBe(expected);
+  });
+
+  it('returns undefined for unknown or invalid data', () => {
+    expect(detectMimeType(btoa('hello world'))).toBeUndefined();
+    expect(detectMimeType('not base64!')).toBeUndefined();
+  });
+});
+
+describe('toImagePayload', () => {
+  it('strips the data prefix', () => {
+    expect(toImagePayload(PNG_DATA_URL)).toEqual({ mimeType: 'image/png', data: PNG_BASE64 });
+  });
+
+  it('prefers the sniffed type over a wrong declared type', () => {
+    expect(toImagePayload(`data:image/png;base64,${JPEG_BASE64}`).mimeType).toBe('image/jpeg');
+  });
+
+  it('falls back to the declared type and normalizes image/jpg', () => {
+    const unknown = btoa('????????????');
+    expect(toImagePayload(`data:image/jpg;base64,${unknown}`).mimeType).toBe('image/jpeg');
+    expect(toImagePayload(`data:image/svg+xml;base64,${unknown}`).mimeType).toBe('image/svg+xml');
+  });
+
+  it('accepts raw base64 and removes line breaks', () => {
+    const wrapped = JPEG_BASE64.replace(/(.{40})/g, '$1\n');
+    expect(toImagePayload(wrapped)).toEqual({ mimeType: 'image/jpeg', data: JPEG_BASE64 });
+  });
+
+  it('encodes percent-encoded data URLs', () => {
+    const payload = toImagePayload('data:image/svg+xml,%3Csvg%2F%3E');
+    expect(payload).toEqual({ mimeType: 'image/svg+xml', data: btoa('<svg/>') });
+  });
+
+  it('rejects remote URLs', () => {
+    expect(() => toImagePayload(REMOTE_IMAGE_URL)).toThrow(/fetched first/);
+  });
+});
+
+describe('toDataUrl', () => {
+  it('rebuilds a data URL with the real type', () => {
+    expect(toDataUrl(JPEG_BASE64)).toBe(JPEG_DATA_URL);
+    expect(toDataUrl(`data:image/webp;base64,${PNG_BASE64}`)).toBe(PNG_DATA_URL);
+    expect(toDataUrl({ mimeType: 'image/gif', data: GIF_BASE64 })).toBe(`data:image/gif;base64,${GIF_BASE64}`);
+  });
+});
+
+describe('extractImage', () => {
+  it('reads chat completion responses', () => {
+    expect(extractImage(imagesArrayResponse)).toBe(PNG_DATA_URL);
+    expect(extractImage(contentPartsResponse)).toBe(PNG_DATA_URL);
+    expect(extractImage(markdownDataUriResponse)).toBe(PNG_DATA_URL);
+    expect(extractImage(markdownImageResponse)).toBe(REMOTE_IMAGE_URL);
+  });
+
+  it('finds a data URI embedded in prose', () => {
+    const response = { choices: [{ message: { content: `Result:\n${PNG_DATA_URL}\nEnjoy.` } }] };
+    expect(extractImage(response)).toBe(PNG_DATA_URL);
+  });
+
+  it('reads Gemini inline data with the real type', () => {
+    const response = {
+      candidates: [
+        { content: { parts: [{ text: 'Here you go' }, { inlineData: { mimeType: 'image/jpeg', data: PNG_BASE64 } }] } },
+      ],
+    };
+    expect(extractImage(response)).toBe(`data:image/jpeg;base64,${PNG_BASE64}`);
+  });
+
+  it('only takes bare URLs that look like images', () => {
+    const prose = (content: string) => ({ choices: [{ message: { content } }] });
+    expect(extractImage(prose(`Saved to ${REMOTE_IMAGE_URL}.`))).toBe(REMOTE_IMAGE_URL);
+    expect(extractImage(prose('See https://cdn.example.com/out/scene.JPG?sig=abc for the result'))).toBe('https://cdn.example.com/out/scene.JPG?sig=abc');
+    expect(extractImage(prose('Done: https://replicate.delivery/pbxt/abc123/out-0'))).toBe('https://replicate.delivery/pbxt/abc123/out-0');
+    expect(extractImage(prose('Learn more at https://openrouter.ai/docs or https://example.com/scene.png.html'))).toBeNull();
+  });
+
+  it('returns null when there is no image', () => {
+    expect(extractImage(textOnlyResponse)).toBeNull();
+    expect(extractImage({ candidates: [{ content: { parts: [{ text: 'no' }] } }] })).toBeNull();
+    expect(extractImage(undefined)).toBeNull();
+  });
+});
+
+describe('fetchImageAsDataUrl', () => {
+  it('downloads the image and sniffs its type', async () => {
+    const stub = createFetchStub(binaryResponse(JPEG_BASE64, 'image/png')).install();
+    await expect(fetchImageAsDataUrl(REMOTE_IMAGE_URL, { providerId: PROVIDER_ID })).resolves.toBe(JPEG_DATA_URL);
+    expect(stub.requests[0].url).toBe(REMOTE_IMAGE_URL);
+  });
+
+  it('uses the Content-Type header when the signature is unknown', async () => {
+    const svg = btoa('<svg/>');
+    createFetchStub(binaryResponse(svg, 'image/svg+xml; charset=utf-8')).install();
+    await expect(fetchImageAsDataUrl(REMOTE_IMAGE_URL, { providerId: PROVIDER_ID })).resolves.toBe(`data:image/svg+xml;base64,${svg}`);
+  });
+
+  it('rejects a body that is not an image', async () => {
+    createFetchStub(new Response('<html><body>Link expired</body></html>', { status: 200, headers: { 'Content-Type': 'text/html' } })).install();
+    const error = await fetchImageAsDataUrl(REMOTE_IMAGE_URL, { providerId: PROVIDER_ID }).catch(e => e);
+    expect(error).toBeInstanceOf(InvalidOutputError);
+    expect(error.message).toContain('(text/html)');
+    expect(error.text).toContain('Link expired');
+  });
+
+  it('rejects an empty or unlabeled body instead of assuming PNG', async () => {
+    createFetchStub(binaryResponse(btoa('not an image'), 'application/octet-stream'), binaryResponse('', 'image/png')).install();
+    await expect(fetchImageAsDataUrl(REMOTE_IMAGE_URL, { providerId: PROVIDER_ID })).rejects.toBeInstanceOf(InvalidOutputError);
+    await expect(fetchImageAsDataUrl(REMOTE_IMAGE_URL, { providerId: PROVIDER_ID })).rejects.toBeInstanceOf(InvalidOutputError);
+  });
+
+  it("does not use the provider's request limit", async () => {
+    vi.useFakeTimers();
+    const provider = 'media-test-limit';
+    setRequestLimit(provider, 1);
+    createFetchStub(binaryResponse(PNG_BASE64, 'image/png'), binaryResponse(PNG_BASE64, 'image/png'), jsonResponse({ ok: true })).install();
+
+    await fetchImageAsDataUrl(REMOTE_IMAGE_URL, { providerId: provider });
+    await fetchImageAsDataUrl(REMOTE_IMAGE_URL, { providerId: provider });
+    // The single request allowed this minute is still available for the API
+    let settled = false;
+    const apiCall = requestJson('https://api.example.com', {}, { providerId: provider }).finally(() => { settled = true; });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(settled).toBe(true);
+    await expect(apiCall).resolves.toEqual({ ok: true });
+  });
+
+  it('leaves data URLs alone apart from the type when resolving', async () => {
+    const stub = createFetchStub().install();
+    await expect(resolveImage(`data:image/png;base64,${JPEG_BASE64}`, { providerId: PROVIDER_ID })).resolves.toBe(JPEG_DATA_URL);
+    expect(stub.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,182 @@
+import { request } from "./http";
+import { InvalidOutputError } from "./errors";
+
+/**
+ * 图片数据处理
+ * - 根据文件头识别真实的 MIME 类型（不再把所有输入都标成 image/png）
+ * - 统一 data URL / 纯 base64 / 远程 URL 三种形式
+ * - 从各提供商的响应中提取图片
+ */
+
+export interface ImagePayload {
+  mimeType: string;
+  data: string; // base64 without the data: prefix
+}
+
+const DEFAULT_MIME_TYPE = "image/png";
+
+const DATA_URL_PATTERN = /^data:([^;,]*)((?:;[^;,]*)*?),(.*)$/s;
+const DATA_URI_IN_TEXT = /data:image\/[a-z0-9.+-]+;base64,[a-z0-9+/]+=*/i;
+const MARKDOWN_IMAGE = /!\[[^\]]*\]\(\s*([^)\s]+)\s*\)/;
+// Bare URLs in prose only count as images with an image extension or on a host that serves generated images
+const BARE_IMAGE_URL = /(https?:\/\/[^\s)"'<>]+?\.(?:png|jpe?g|webp|gif|avif)(?:[?#][^\s)"'<>]*)?)(?=[\s)"'<>,;!]|\.(?:\s|$)|$)/i;
+const IMAGE_HOST_URL = /(https?:\/\/(?:[a-z0-9-]+\.)*(?:replicate\.delivery|fal\.media|oaidalleapiprodscus\.blob\.core\.windows\.net)\/[^\s)"'<>]+)/i;
+
+export const isDataUrl = (value: string): boolean => /^data:/i.test(value.trim());
+
+export const isRemoteUrl = (value: string): boolean => /^https?:\/\//i.test(value.trim());
+
+const decodeHead = (base64: string, byteCount: number): Uint8Array => {
+  // 4 base64 chars encode 3 bytes
+  const head = base64.slice(0, Math.ceil(byteCount / 3) * 4);
+  try {
+    return Uint8Array.from(atob(head), c => c.charCodeAt(0));
+  } catch {
+    return new Uint8Array();
+  }
+};
+
+const matches = (bytes: Uint8Array, offset: number, signature: number[] | string): boolean => {
+  const expected = typeof signature === "string" ? Array.from(signature, c => c.charCodeAt(0)) : signature;
+  return expected.every((byte, index) => bytes[offset + index] === byte);
+};
+
+/**
+ * 根据文件头识别图片类型，无法识别时返回 undefined
+ */
+export function detectMimeType(input: string | Uint8Array): string | undefined {
+  const bytes = typeof input === "string" ? decodeHead(input.replace(/\s/g, ""), 16) : input;
+  if (matches(bytes, 0, [0x89, 0x50, 0x4e, 0x47])) return "image/png";
+  if (matches(bytes, 0, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (matches(bytes, 0, "GIF8")) return "image/gif";
+  if (matches(bytes, 0, "RIFF") && matches(bytes, 8, "WEBP")) return "image/webp";
+  if (matches(bytes, 4, "ftypavif") || matches(bytes, 4, "ftypavis")) return "image/avif";
+  if (matches(bytes, 4, "ftypheic") || matches(bytes, 4, "ftypheix")) return "image/heic";
+  if (matches(bytes, 0, "BM")) return "image/bmp";
+  return undefined;
+}
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  const chunkSize = 0x8000; // Stay below the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+/**
+ * 把 data URL 或纯 base64 字符串转换为 { mimeType, data }
+ * MIME 类型以文件头为准，其次是 data URL 中声明的类型
+ */
+export function toImagePayload(input: string): ImagePayload {
+  const value = input.trim();
+  if (isRemoteUrl(value)) {
+    throw new Error("Remote image URLs must be fetched first (see fetchImageAsDataUrl).");
+  }
+
+  const match = value.match(DATA_URL_PATTERN);
+  if (!match) {
+    const data = value.replace(/\s/g, "");
+    return { mimeType: detectMimeType(data) || DEFAULT_MIME_TYPE, data };
+  }
+
+  const [, declaredType, parameters, body] = match;
+  const data = /;base64/i.test(parameters)
+    ? body.replace(/\s/g, "")
+    : bytesToBase64(new TextEncoder().encode(decodeURIComponent(body)));
+  const declared = declaredType.toLowerCase() === "image/jpg" ? "image/jpeg" : declaredType.toLowerCase();
+  return { mimeType: detectMimeType(data) || declared || DEFAULT_MIME_TYPE, data };
+}
+
+/**
+ * 规范化为带正确 MIME 类型的 data URL
+ */
+export function toDataUrl(input: string | ImagePayload): string {
+  const payload = typeof input === "string" ? toImagePayload(input) : input;
+  return `data:${payload.mimeType};base64,${payload.data}`;
+}
+
+/**
+ * 下载远程图片并转换为 data URL（远程链接通常会过期，保存到历史前需要内联）
+ * 图片通常来自 CDN 而不是提供商 API，不占用该提供商的限流额度；文件头和 Content-Type 都不是图片时抛出 InvalidOutputError
+ */
+export async function fetchImageAsDataUrl(url: string, options: { providerId: string; signal?: AbortSignal }): Promise<string> {
+  const response = await request(url, { method: "GET" }, { ...options, skipRateLimit: true });
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const headerType = response.headers.get("Content-Type")?.split(";")[0].trim().toLowerCase();
+  const mimeType = detectMimeType(bytes) || (headerType?.startsWith("image/") ? headerType : undefined);
+  if (!mimeType || bytes.length === 0) {
+    // Expired links often return an HTML page with status 200
+    const preview = new TextDecoder().decode(bytes.subarray(0, 200));
+    throw new InvalidOutputError(`Downloaded file is not an image (${headerType || "no Content-Type"}) from ${url}`, preview, { providerId: options.providerId });
+  }
+  return `data:${mimeType};base64,${bytesToBase64(bytes)}`;
+}
+
+/**
+ * 把提取到的图片统一转换为 data URL：远程 URL 会被下载，data URL 会修正 MIME 类型
+ */
+export async function resolveImage(image: string, options: { providerId: string; signal?: AbortSignal }): Promise<string> {
+  return isRemoteUrl(image) ? fetchImageAsDataUrl(image, options) : toDataUrl(image);
+}
+
+/**
+ * 从一段文本中找出图片：Markdown 图片、内嵌 data URI、看起来是图片的裸 URL
+ */
+const findImageInText = (text: string): string | null => {
+  const markdown = text.match(MARKDOWN_IMAGE);
+  if (markdown && (isRemoteUrl(markdown[1]) || isDataUrl(markdown[1]))) return markdown[1];
+
+  const dataUri = text.match(DATA_URI_IN_TEXT);
+  if (dataUri) return dataUri[0];
+
+  const url = text.match(BARE_IMAGE_URL) ?? text.match(IMAGE_HOST_URL);
+  return url ? url[1] : null;
+};
+
+const findImageInParts = (parts: any[]): string | null => {
+  for (const part of parts) {
+    // OpenAI-style content parts
+    const partUrl = part?.image_url?.url ?? (typeof part?.image_url === "string" ? part.image_url : undefined);
+    if (partUrl) return partUrl;
+    // Gemini inline data
+    if (part?.inlineData?.data) {
+      return toDataUrl({ mimeType: part.inlineData.mimeType || DEFAULT_MIME_TYPE, data: part.inlineData.data });
+    }
+    if (typeof part?.text === "string") {
+      const found = findImageInText(part.text);
+      if (found) return found;
+    }
+  }
+  return null;
+};
+
+/**
+ * 从提供商响应中提取第一张图片（URL 或 data URL），找不到时返回 null
+ * 支持 OpenRouter / OpenAI chat completions（message.images、内容分段、Markdown、裸 URL、data URI）
+ * 以及 Gemini generateContent（candidates[].content.parts[].inlineData）
+ */
+export function extractImage(response: any): string | null {
+  for (const choice of Array.isArray(response?.choices) ? response.choices : []) {
+    const message = choice?.message;
+    if (Array.isArray(message?.images)) {
+      const found = findImageInParts(message.images);
+      if (found) return found;
+    }
+    if (Array.isArray(message?.content)) {
+      const found = findImageInParts(message.content);
+      if (found) return found;
+    } else if (typeof message?.content === "string" && message.content) {
+      const found = findImageInText(message.content);
+      if (found) return found;
+    }
+  }
+
+  for (const candidate of Array.isArray(response?.candidates) ? response.candidates : []) {
+    const found = findImageInParts(candidate?.content?.parts || []);
+    if (found) return found;
+  }
+
+  return null;
+}
@@ -0,0 +1,299 @@
+import { ILLMService, LLMServiceConfig, ImageGenerationOptions, ExpandPromptOptions, RequestOptions, RecommendOptions, ScenarioRecommendation, ProductProfile, LLMTask } from "./types";
+import { LLMError, RateLimitError, ServerError, ContentPolicyError, ModelTextError, createAbortError } from "./errors";
+import { sleep, withRetry } from "./http";
+import { DEFAULT_RECOMMENDATION_COUNT, MAX_RECOMMENDATION_COUNT } from "./recommend";
+
+export const MOCK_PROVIDER_ID = "mock";
+export const MOCK_MODEL = "mock-v1";
+
+const DEFAULT_LATENCY_MS = 800;
+const IMAGE_SIZE = 1024;
+
+const LIGHTING = ["soft diffused studio lighting", "warm golden-hour sunlight", "crisp high-key lighting", "moody rim lighting"];
+const SURFACES = ["a polished marble countertop", "a light oak table", "a matte concrete plinth", "a linen-covered shelf"];
+const MOODS = ["clean and premium", "warm and inviting", "bold and modern", "calm and minimal"];
+
+const QUALITY_TAGS = "High quality, photorealistic, 8k";
+
+const MOCK_RECOMMENDATIONS: ScenarioRecommendation[] = [
+  { name: "Scandi Kitchen Morning", description: "A bright Scandinavian kitchen counter with morning light and a blurred plant in the background.", quality: QUALITY_TAGS, rationale: "Everyday context helps shoppers picture the product at home." },
+  { name: "Warm-Grey Studio", description: "A minimalist studio set with a seamless warm-grey backdrop and a soft shadow under the product.", quality: QUALITY_TAGS, rationale: "A distraction-free shot that shows the product's shape clearly." },
+  { name: "Living Room at Dusk", description: "A cosy living-room side table at dusk, lit by a nearby lamp with gentle bokeh.", quality: QUALITY_TAGS, rationale: "Warm evening light adds an emotional, premium feel." },
+  { name: "Sunny Picnic", description: "A checkered picnic blanket on fresh grass in dappled afternoon sunlight.", quality: QUALITY_TAGS, rationale: "An outdoor setting suggests portability and leisure." },
+  { name: "Concrete Plinth", description: "A matte concrete plinth against a deep teal wall with a hard directional light.", quality: QUALITY_TAGS, rationale: "Bold contrast makes the listing stand out in search results." },
+  { name: "Holiday Table", description: "A festive dinner table with soft candlelight, pine branches and wrapped gifts.", quality: QUALITY_TAGS, rationale: "A seasonal scene targets gift shoppers." },
+  { name: "Home Office Desk", description: "A tidy oak desk by a window with a laptop and a notebook slightly out of focus.", quality: QUALITY_TAGS, rationale: "Shows the product fitting into a daily work routine." },
+  { name: "Floating Pastel Set", description: "The product floating above a pastel gradient backdrop with geometric props.", quality: QUALITY_TAGS, rationale: "A creative shot for A+ content and social ads." },
+];
+
+const MOCK_PROFILES: ProductProfile[] = [
+  { category: "Kitchen & Dining", materials: ["stainless steel", "silicone"], colors: ["silver", "black"], scale: "handheld, about 25 cm tall", audience: "home cooks and commuters", sellingPoints: ["leak-proof lid", "keeps drinks cold for 24 hours", "dishwasher safe"] },
+  { category: "Home & Living", materials: ["ceramic", "bamboo"], colors: ["matte white", "natural wood"], scale: "tabletop, about 15 cm wide", audience: "design-minded homeowners", sellingPoints: ["minimalist design", "handmade finish", "gift ready"] },
+  { category: "Sports & Outdoors", materials: ["nylon", "ABS plastic"], colors: ["orange", "charcoal"], scale: "backpack-sized, about 40 cm long", audience: "hikers and campers", sellingPoints: ["lightweight", "weather resistant", "packs flat"] },
+];
+
+/**
+ * 字符串哈希 (FNV-1a)，用于从输入确定性地选择措辞和颜色
+ */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const pick = <T>(items: T[], hash: number, salt: number): T => items[(hash >>> salt) % items.length];
+
+// Rough token estimate (~4 characters per token) so usage tracking has something to show
+const estimateTokens = (text: string): number => Math.max(1, Math.ceil(text.length / 4));
+
+const loadImage = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image for mock rendering"));
+    img.src = url;
+  });
+
+const createCanvas = (width: number, height: number): { canvas: HTMLCanvasElement; ctx: CanvasRenderingContext2D } => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not available");
+  }
+  return { canvas, ctx };
+};
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+      if (lines.length === maxLines) break;
+    } else {
+      line = candidate;
+    }
+  }
+  if (lines.length < maxLines && line) lines.push(line);
+  return lines;
+};
+
+/**
+ * 离线模拟服务：不发出任何网络请求
+ * - 扩展提示词、推荐结果与产品画像由输入确定性地生成
+ * - 生图在 Canvas 上把产品合成到渐变背景上，并标注提示词
+ * - 编辑只在蒙版内着色并标注编辑指令
+ * - 可配置延迟 (mockLatencyMs) 与失败率 (mockFailureRate, 0-1)，用于演示重试、取消和错误提示
+ */
+export class MockLLMService implements ILLMService {
+  private model: string;
+  private latencyMs: number;
+  private failureRate: number;
+
+  constructor(config: LLMServiceConfig = {}, model?: string) {
+    this.model = model || config.model || MOCK_MODEL;
+    this.latencyMs = config.mockLatencyMs ?? Number(import.meta.env.VITE_LLM_MOCK_LATENCY_MS ?? DEFAULT_LATENCY_MS);
+    this.failureRate = config.mockFailureRate ?? Number(import.meta.env.VITE_LLM_MOCK_FAILURE_RATE ?? 0);
+  }
+
+  getProviderId(): string {
+    return MOCK_PROVIDER_ID;
+  }
+
+  getModel(): string {
+    return this.model;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  /**
+   * 模拟网络延迟与随机失败；与真实提供商一样经过共享请求层的限流与重试，模拟的 429 / 5xx 会被自动重试
+   */
+  private async simulateCall(task: LLMTask, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) throw createAbortError();
+    await withRetry(async () => {
+      // ±50% jitter so parallel jobs finish in a realistic, shuffled order
+      await sleep(this.latencyMs * (0.5 + Math.random()), signal);
+      if (Math.random() < this.failureRate) {
+        throw this.simulatedError(task);
+      }
+    }, { providerId: MOCK_PROVIDER_ID, signal });
+  }
+
+  private simulatedError(task: LLMTask): LLMError {
+    const options = { providerId: MOCK_PROVIDER_ID };
+    const roll = Math.random();
+    if (roll < 0.4) return new ServerError("Simulated upstream failure", { ...options, status: 502 });
+    if (roll < 0.7) return new RateLimitError("Simulated rate limit", { ...options, status: 429 });
+    if (roll < 0.85 || task === "expand" || task === "recommend" || task === "analyze") {
+      return new ContentPolicyError("Simulated content policy refusal", options);
+    }
+    return new ModelTextError("I can describe this scene, but I cannot produce an image right now.", options);
+  }
+
+  private reportUsage(input: string, output: string, options?: RequestOptions): void {
+    const promptTokens = estimateTokens(input);
+    const completionTokens = estimateTokens(output);
+    options?.onUsage?.({
+      providerId: MOCK_PROVIDER_ID,
+      model: this.model,
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      cost: 0,
+    });
+  }
+
+  async expandPrompt(basePrompt: string, customContext: string = "", options?: ExpandPromptOptions): Promise<string> {
+    await this.simulateCall("expand", options?.signal);
+
+    const hash = hashString(`${basePrompt}\n${customContext}`);
+    const text = [
+      `Commercial product photograph: ${basePrompt.trim()}.`,
+      customContext.trim() ? `Context: ${customContext.trim()}.` : "",
+      `The product sits on ${pick(SURFACES, hash, 0)}, lit with ${pick(LIGHTING, hash, 4)}.`,
+      `Overall mood is ${pick(MOODS, hash, 8)}, razor-sharp focus on the product, shallow depth of field, 8k.`,
+    ].filter(Boolean).join(" ");
+
+    if (options?.onToken) {
+      // Stream word by word like a real provider
+      let streamed = "";
+      for (const word of text.split(" ")) {
+        const delta = streamed ? ` ${word}` : word;
+        streamed += delta;
+        options.onToken(delta, streamed);
+        await sleep(15, options.signal);
+      }
+    }
+
+    this.reportUsage(`${basePrompt}${customContext}`, text, options);
+    return text;
+  }
+
+  async generateImage(imageBase64: string, prompt: string, options?: ImageGenerationOptions): Promise<string> {
+    await this.simulateCall("generate", options?.signal);
+
+    const hash = hashString(`${prompt}\n${options?.seed ?? ""}`);
+    const { canvas, ctx } = createCanvas(IMAGE_SIZE, IMAGE_SIZE);
+
+    // Background gradient derived from the prompt (and seed) so variations differ
+    const hue = hash % 360;
+    const gradient = ctx.createLinearGradient(0, 0, IMAGE_SIZE, IMAGE_SIZE);
+    gradient.addColorStop(0, `hsl(${hue}, 55%, 82%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 50) % 360}, 45%, 58%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, IMAGE_SIZE, IMAGE_SIZE);
+
+    // Product composited at ~70% of the frame, with a soft ground shadow
+    const product = await loadImage(imageBase64);
+    const scale = Math.min((IMAGE_SIZE * 0.7) / product.naturalWidth, (IMAGE_SIZE * 0.6) / product.naturalHeight);
+    const width = product.naturalWidth * scale;
+    const height = product.naturalHeight * scale;
+    const x = (IMAGE_SIZE - width) / 2;
+    const y = (IMAGE_SIZE * 0.8 - height) / 2;
+    ctx.fillStyle = "rgba(0, 0, 0, 0.15)";
+    ctx.beginPath();
+    ctx.ellipse(IMAGE_SIZE / 2, y + height, width * 0.45, 18, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.drawImage(product, x, y, width, height);
+
+    // Prompt label
+    ctx.fillStyle = "rgba(0, 0, 0, 0.55)";
+    ctx.fillRect(0, IMAGE_SIZE * 0.8, IMAGE_SIZE, IMAGE_SIZE * 0.2);
+    ctx.fillStyle = "#FFFFFF";
+    ctx.font = "bold 22px sans-serif";
+    ctx.fillText(`MOCK · ${this.model}${options?.seed !== undefined ? ` · seed ${options.seed}` : ""}`, 32, IMAGE_SIZE * 0.8 + 40);
+    ctx.font = "20px sans-serif";
+    wrapText(ctx, prompt, IMAGE_SIZE - 64, 4).forEach((line, index) => {
+      ctx.fillText(line, 32, IMAGE_SIZE * 0.8 + 76 + index * 28);
+    });
+
+    const url = canvas.toDataURL("image/png");
+    this.reportUsage(prompt, "", options);
+    return url;
+  }
+
+  async recommendScenarios(imageBase64: string, options?: RecommendOptions): Promise<ScenarioRecommendation[]> {
+    await this.simulateCall("recommend", options?.signal);
+    const count = Math.min(MAX_RECOMMENDATION_COUNT, Math.max(1, options?.count ?? DEFAULT_RECOMMENDATION_COUNT));
+    const audience = options?.profile?.audience;
+    // Focused recommendations vary the lighting of a single setting
+    const scenes = options?.diversity === "focused"
+      ? Array.from({ length: count }, (_, index) => ({
+          ...MOCK_RECOMMENDATIONS[0],
+          name: `${MOCK_RECOMMENDATIONS[0].name} ${index + 1}`,
+          description: `${MOCK_RECOMMENDATIONS[0].description} Lit with ${LIGHTING[index % LIGHTING.length]}.`,
+        }))
+      : MOCK_RECOMMENDATIONS.slice(0, count);
+    const recommendations = scenes.map(scene => audience ? { ...scene, rationale: `${scene.rationale} Appeals to ${audience}.` } : scene);
+    this.reportUsage(imageBase64.slice(0, 400), JSON.stringify(recommendations), options);
+    return recommendations;
+  }
+
+  async analyzeProduct(imageBase64: string, options?: RequestOptions): Promise<ProductProfile> {
+    await this.simulateCall("analyze", options?.signal);
+    // Same image, same profile
+    const profile = pick(MOCK_PROFILES, hashString(imageBase64.slice(-2000)), 0);
+    this.reportUsage(imageBase64.slice(0, 400), JSON.stringify(profile), options);
+    return { ...profile, materials: [...profile.materials], colors: [...profile.colors], sellingPoints: [...profile.sellingPoints] };
+  }
+
+  async editImage(imageBase64: string, maskBase64: string, prompt: string, options?: RequestOptions): Promise<string> {
+    await this.simulateCall("edit", options?.signal);
+
+    const [image, mask] = await Promise.all([loadImage(imageBase64), loadImage(maskBase64)]);
+    const { canvas, ctx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    ctx.drawImage(image, 0, 0);
+
+    const { ctx: maskCtx } = createCanvas(image.naturalWidth, image.naturalHeight);
+    maskCtx.drawImage(mask, 0, 0, image.naturalWidth, image.naturalHeight);
+    const maskData = maskCtx.getImageData(0, 0, image.naturalWidth, image.naturalHeight).data;
+
+    // Tint the masked (white) area with a colour derived from the instruction
+    const hue = hashString(prompt) % 360;
+    const { ctx: tintCtx } = createCanvas(1, 1);
+    tintCtx.fillStyle = `hsl(${hue}, 70%, 50%)`;
+    tintCtx.fillRect(0, 0, 1, 1);
+    const [tr, tg, tb] = tintCtx.getImageData(0, 0, 1, 1).data;
+
+    const imageData = ctx.getImageData(0, 0, image.naturalWidth, image.naturalHeight);
+    const pixels = imageData.data;
+    let minX = Infinity, minY = Infinity;
+    for (let i = 0; i < pixels.length; i += 4) {
+      const coverage = maskData[i] / 255;
+      if (coverage === 0) continue;
+      const amount = coverage * 0.5;
+      pixels[i] = pixels[i] * (1 - amount) + tr * amount;
+      pixels[i + 1] = pixels[i + 1] * (1 - amount) + tg * amount;
+      pixels[i + 2] = pixels[i + 2] * (1 - amount) + tb * amount;
+      const pixel = i / 4;
+      minX = Math.min(minX, pixel % image.naturalWidth);
+      minY = Math.min(minY, Math.floor(pixel / image.naturalWidth));
+    }
+    ctx.putImageData(imageData, 0, 0);
+
+    // Label the edit at the top-left corner of the mask
+    if (minX !== Infinity) {
+      ctx.font = "bold 20px sans-serif";
+      ctx.fillStyle = "#FFFFFF";
+      ctx.strokeStyle = "rgba(0, 0, 0, 0.6)";
+      ctx.lineWidth = 4;
+      const label = `MOCK EDIT: ${prompt}`.slice(0, 60);
+      ctx.strokeText(label, minX + 8, minY + 28);
+      ctx.fillText(label, minX + 8, minY + 28);
+    }
+
+    const url = canvas.toDataURL("image/png");
+    this.reportUsage(prompt, "", options);
+    return url;
+  }
+}
@@ -0,0 +1,341 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { OpenRouterService, OPENROUTER_PROVIDER_ID } from './openrouter';
+import { AuthError, ContentPolicyError, ModelTextError, InvalidOutputError, QuotaError, ServerError } from './errors';
+import { setRequestLimit } from './http';
+import { createFetchStub, jsonResponse, sseResponse, binaryResponse } from './__fixtures__/fetchStub';
+import {
+  PNG_BASE64,
+  PNG_DATA_URL,
+  JPEG_BASE64,
+  JPEG_DATA_URL,
+  REMOTE_IMAGE_URL,
+  imagesArrayResponse,
+  markdownImageResponse,
+  markdownDataUriResponse,
+  contentPartsResponse,
+  bareUrlResponse,
+  dataUriContentResponse,
+  imageInSecondChoiceResponse,
+  textOnlyResponse,
+  contentFilterResponse,
+  expandResponse,
+  recommendResponse,
+  expandStreamEvents,
+  errorBody,
+  upstreamErrorResponse,
+} from './__fixtures__/openrouterResponses';
+
+const API_URL = 'https://openrouter.ai/api/v1/chat/completions';
+const IMAGE_MODEL = 'google/gemini-3-pro-image-preview';
+const TEXT_MODEL = 'google/gemini-3-pro-preview';
+
+const PRODUCT_PROFILE = {
+  category: 'Kitchen & Dining',
+  materials: ['stainless steel'],
+  colors: ['silver'],
+  scale: 'handheld',
+  audience: 'commuters',
+  sellingPoints: ['leak-proof lid', 'keeps drinks cold'],
+};
+
+const createService = (model: string = IMAGE_MODEL, config: Record<string, unknown> = {}) =>
+  new OpenRouterService({ apiKey: 'sk-or-test', ...config }, model);
+
+beforeEach(() => {
+  vi.stubGlobal('window', { location: { href: 'http://localhost:3000/' } });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  // Keep the per-provider limiter out of the way of fast consecutive tests
+  setRequestLimit(OPENROUTER_PROVIDER_ID, 10_000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('OpenRouterService image extraction', () => {
+  const cases = [
+    ['message.images', imagesArrayResponse],
+    ['content parts', contentPartsResponse],
+    ['a markdown image link with a data URI', markdownDataUriResponse],
+    ['a data URI as the content', dataUriContentResponse],
+    ['an image in a later choice', imageInSecondChoiceResponse],
+  ] as const;
+
+  it.each(cases)('generateImage reads %s', async (_label, response) => {
+    createFetchStub(jsonResponse(response)).install();
+    await expect(createService().generateImage(PNG_DATA_URL, 'marble counter')).resolves.toBe(PNG_DATA_URL);
+  });
+
+  it.each(cases)('editImage reads %s', async (_label, response) => {
+    createFetchStub(jsonResponse(response)).install();
+    await expect(createService().editImage(PNG_DATA_URL, PNG_DATA_URL, 'remove the cup')).resolves.toBe(PNG_DATA_URL);
+  });
+
+  it.each([
+    ['a markdown image link', markdownImageResponse],
+    ['a bare URL in the content', bareUrlResponse],
+  ])('downloads remote images from %s into a data URL', async (_label, response) => {
+    const stub = createFetchStub(jsonResponse(response), binaryResponse(PNG_BASE64)).install();
+    await expect(createService().generateImage(PNG_DATA_URL, 'scene')).resolves.toBe(PNG_DATA_URL);
+    expect(stub.requests[1].url).toBe(REMOTE_IMAGE_URL);
+  });
+
+  it('throws ModelTextError with the model text when no image is returned', async () => {
+    createFetchStub(jsonResponse(textOnlyResponse)).install();
+    const error = await createService().generateImage(PNG_DATA_URL, 'kitchen').catch(e => e);
+    expect(error).toBeInstanceOf(ModelTextError);
+    expect(error.text).toContain('I can describe the scene');
+  });
+
+  it('throws ContentPolicyError when the response was filtered', async () => {
+    createFetchStub(jsonResponse(contentFilterResponse)).install();
+    await expect(createService().editImage(PNG_DATA_URL, PNG_DATA_URL, 'edit')).rejects.toBeInstanceOf(ContentPolicyError);
+  });
+});
+
+describe('OpenRouterService requests', () => {
+  it('sends the image modality, seed, temperature and usage accounting for image models', async () => {
+    const stub = createFetchStub(jsonResponse(imagesArrayResponse)).install();
+    await createService().generateImage(PNG_DATA_URL, 'marble counter', { seed: 42, temperature: 0.4, quality: '8k' });
+
+    const [request] = stub.requests;
+    expect(request.url).toBe(API_URL);
+    expect((request.init.headers as Record<string, string>).Authorization).toBe('Bearer sk-or-test');
+    expect(request.body).toMatchObject({
+      model: IMAGE_MODEL,
+      modalities: ['image', 'text'],
+      seed: 42,
+      temperature: 0.4,
+      usage: { include: true },
+    });
+    // The data prefix is normalized, not added twice
+    expect(request.body.messages[0].content[1].image_url.url).toBe(PNG_DATA_URL);
+    expect(request.body.messages[0].content[0].text).toContain('Style/Quality: 8k');
+  });
+
+  it('labels uploads with their real MIME type', async () => {
+    const stub = createFetchStub(jsonResponse(imagesArrayResponse)).install();
+    await createService().editImage(`data:image/png;base64,${JPEG_BASE64}`, PNG_BASE64, 'edit');
+    const [, image, mask] = stub.requests[0].body.messages[0].content;
+    expect(image.image_url.url).toBe(JPEG_DATA_URL);
+    expect(mask.image_url.url).toBe(PNG_DATA_URL);
+  });
+
+  it('omits the image modality for text models', async () => {
+    const stub = createFetchStub(jsonResponse(dataUriContentResponse)).install();
+    await createService('openai/gpt-4o').generateImage(PNG_DATA_URL, 'scene');
+    expect(stub.requests[0].body.modalities).toBeUndefined();
+  });
+
+  it('reports usage including the charged cost', async () => {
+    createFetchStub(jsonResponse(imagesArrayResponse)).install();
+    const onUsage = vi.fn();
+    await createService().generateImage(PNG_DATA_URL, 'scene', { onUsage });
+    expect(onUsage).toHaveBeenCalledWith({
+      providerId: OPENROUTER_PROVIDER_ID,
+      model: IMAGE_MODEL,
+      promptTokens: 1290,
+      completionTokens: 1315,
+      totalTokens: 2605,
+      cost: 0.1396,
+    });
+  });
+
+  it('throws AuthError on 401 without retrying', async () => {
+    const stub = createFetchStub(jsonResponse(errorBody(401, 'No auth credentials found'), { status: 401 })).install();
+    await expect(createService().generateImage(PNG_DATA_URL, 'scene')).rejects.toBeInstanceOf(AuthError);
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('throws QuotaError on 402', async () => {
+    createFetchStub(jsonResponse(errorBody(402, 'Insufficient credits'), { status: 402 })).install();
+    await expect(createService().generateImage(PNG_DATA_URL, 'scene')).rejects.toBeInstanceOf(QuotaError);
+  });
+
+  it('does not resend a generation whose HTTP 200 response carries an upstream error', async () => {
+    const stub = createFetchStub(jsonResponse(upstreamErrorResponse), jsonResponse(imagesArrayResponse)).install();
+    await expect(createService().generateImage(PNG_DATA_URL, 'scene')).rejects.toBeInstanceOf(ServerError);
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('fails fast without an API key', async () => {
+    vi.stubEnv('VITE_OPENROUTER_API_KEY', '');
+    const stub = createFetchStub().install();
+    await expect(new OpenRouterService({}, IMAGE_MODEL).generateImage(PNG_DATA_URL, 'scene')).rejects.toBeInstanceOf(AuthError);
+    expect(stub.requests).toHaveLength(0);
+    vi.unstubAllEnvs();
+  });
+});
+
+describe('OpenRouterService prompt templates', () => {
+  it('substitutes every occurrence of the expand template variables', async () => {
+    const stub = createFetchStub(jsonResponse(expandResponse('Expanded'))).install();
+    const service = createService(TEXT_MODEL, {
+      expandPromptSystem: 'You are a photographer.',
+      expandPromptUserTemplate: 'Scene: {{basePrompt}} / {{basePrompt}} | Context: {{customContext}} | {{unknown}}',
+    });
+
+    await expect(service.expandPrompt('kitchen', 'morning light')).resolves.toBe('Expanded');
+    expect(stub.requests[0].body.messages).toEqual([
+      { role: 'system', content: 'You are a photographer.' },
+      // Unknown placeholders are left untouched
+      { role: 'user', content: 'Scene: kitchen / kitchen | Context: morning light | {{unknown}}' },
+    ]);
+  });
+
+  it('substitutes the prompt into the generation template', async () => {
+    const stub = createFetchStub(jsonResponse(imagesArrayResponse)).install();
+    await createService(IMAGE_MODEL, { generationPromptTemplate: 'Render {{prompt}}. Again: {{prompt}}' })
+      .generateImage(PNG_DATA_URL, 'a marble counter');
+    expect(stub.requests[0].body.messages[0].content[0].text).toBe('Render a marble counter. Again: a marble counter');
+  });
+
+  it('does not expand placeholders inside substituted values', async () => {
+    const stub = createFetchStub(jsonResponse(expandResponse('Expanded'))).install();
+    const service = createService(TEXT_MODEL, { expandPromptUserTemplate: '{{basePrompt}} | {{customContext}}' });
+    await service.expandPrompt('Keep {{customContext}} as typed', 'morning light');
+    expect(stub.requests[0].body.messages[1].content).toBe('Keep {{customContext}} as typed | morning light');
+  });
+
+  it('fills product and brand variables and skips empty sections', async () => {
+    const stub = createFetchStub(jsonResponse(imagesArrayResponse)).install();
+    const template = '{{prompt}}\n{{#if brandColors}}\nColors: {{brandColors}}\n{{/if}}\nFor {{productName}} on {{marketplace|e-commerce}}';
+    await createService(IMAGE_MODEL, { generationPromptTemplate: template })
+      .generateImage(PNG_DATA_URL, 'a desk', { variables: { productName: 'Lamp', brandColors: '' } });
+    expect(stub.requests[0].body.messages[0].content[0].text).toBe('a desk\nFor Lamp on e-commerce');
+  });
+
+  it('uses per-request templates over the configured ones', async () => {
+    const stub = createFetchStub(jsonResponse(expandResponse('Expanded')), jsonResponse(imagesArrayResponse)).install();
+    const config = { expandPromptSystem: 'Current system', expandPromptUserTemplate: 'Current {{basePrompt}}', generationPromptTemplate: 'Current {{prompt}}' };
+    await createService(TEXT_MODEL, config)
+      .expandPrompt('kitchen', '', { systemInstruction: 'Old system', userTemplate: 'Old {{basePrompt}}' });
+    await createService(IMAGE_MODEL, config).generateImage(PNG_DATA_URL, 'a desk', { template: 'Old {{prompt}}' });
+    expect(stub.requests[0].body.messages).toEqual([
+      { role: 'system', content: 'Old system' },
+      { role: 'user', content: 'Old kitchen' },
+    ]);
+    expect(stub.requests[1].body.messages[0].content[0].text).toBe('Old a desk');
+  });
+
+  it('does not append the quality line when the template places it', async () => {
+    const stub = createFetchStub(jsonResponse(imagesArrayResponse)).install();
+    await createService(IMAGE_MODEL, { generationPromptTemplate: '{{prompt}}, {{quality}}' })
+      .generateImage(PNG_DATA_URL, 'a desk', { quality: '8k' });
+    expect(stub.requests[0].body.messages[0].content[0].text).toBe('a desk, 8k');
+  });
+
+  it('falls back to a default prompt when the model returns nothing', async () => {
+    createFetchStub(jsonResponse(expandResponse(''))).install();
+    await expect(createService(TEXT_MODEL).expandPrompt('studio')).resolves.toBe('A professional product shot in a studio setting.');
+  });
+
+  it('streams expansion tokens and reports usage from the final chunk', async () => {
+    const stub = createFetchStub(sseResponse(expandStreamEvents)).install();
+    const onToken = vi.fn();
+    const onUsage = vi.fn();
+
+    await expect(createService(TEXT_MODEL).expandPrompt('kitchen', '', { onToken, onUsage })).resolves.toBe('A sunlit kitchen counter.');
+    expect(stub.requests[0].body.stream).toBe(true);
+    expect(onToken.mock.calls.map(([delta]) => delta)).toEqual(['A sunlit ', 'kitchen counter', '.']);
+    expect(onToken).toHaveBeenLastCalledWith('.', 'A sunlit kitchen counter.');
+    expect(onUsage).toHaveBeenCalledWith(expect.objectContaining({ totalTokens: 124, cost: 0.0002 }));
+  });
+
+  it('rejects a malformed stream chunk instead of dropping it', async () => {
+    createFetchStub(sseResponse([
+      expandStreamEvents[1],
+      'data: {"id":"gen-stream","choices":[{"index":0,"delta":{"content":"kitch',
+      expandStreamEvents[3],
+      'data: [DONE]',
+    ])).install();
+    const onToken = vi.fn();
+
+    const error = await createService(TEXT_MODEL).expandPrompt('kitchen', '', { onToken }).catch(e => e);
+    expect(error).toBeInstanceOf(InvalidOutputError);
+    expect(error.text).toContain('"content":"kitch');
+    expect(onToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('releases the connection when [DONE] arrives before the server closes the stream', async () => {
+    const cancel = vi.fn();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // The stream is left open after [DONE]
+        controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(expandStreamEvents[1])}\n\ndata: [DONE]\n\n`));
+      },
+      cancel,
+    });
+    createFetchStub(new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } })).install();
+
+    await expect(createService(TEXT_MODEL).expandPrompt('kitchen', '', { onToken: vi.fn() })).resolves.toBe('A sunlit ');
+    expect(cancel).toHaveBeenCalled();
+  });
+});
+
+describe('OpenRouterService.recommendScenarios', () => {
+  const scenarios = [
+    { name: 'Sunny Kitchen', description: 'A sunny kitchen counter', quality: 'photorealistic, 8k', rationale: 'Everyday use' },
+    { name: 'Dark Studio', description: 'A dark studio with rim light', quality: 'moody, high contrast', rationale: 'Premium feel' },
+    { name: 'Picnic', description: 'A picnic blanket in the park', quality: 'natural light', rationale: 'Portability' },
+  ];
+
+  it.each([
+    ['a structured output object', JSON.stringify({ scenarios })],
+    ['a fenced json code block', `\`\`\`json\n${JSON.stringify({ scenarios }, null, 2)}\n\`\`\``],
+    ['an array surrounded by prose', `Here are three ideas:\n${JSON.stringify(scenarios)}\nLet me know!`],
+  ])('extracts %s', async (_label, content) => {
+    createFetchStub(jsonResponse(recommendResponse(content))).install();
+    await expect(createService(TEXT_MODEL).recommendScenarios(PNG_DATA_URL)).resolves.toEqual(scenarios);
+  });
+
+  it('requests a JSON schema with the configured count and diversity', async () => {
+    const stub = createFetchStub(jsonResponse(recommendResponse(JSON.stringify({ scenarios })))).install();
+    await createService(TEXT_MODEL).recommendScenarios(PNG_DATA_URL, { count: 5, diversity: 'diverse' });
+    const { response_format, messages } = stub.requests[0].body;
+    expect(response_format.type).toBe('json_schema');
+    expect(response_format.json_schema.schema.properties.scenarios).toMatchObject({ minItems: 5, maxItems: 5 });
+    expect(messages[0].content[0].text).toContain('Suggest 5 commercial');
+    expect(messages[0].content[0].text).toContain('no two may share a setting');
+  });
+
+  it.each([
+    ['content without JSON', 'Sorry, I cannot see the image.'],
+    ['invalid JSON', '[{"description": "A kitchen"},]'],
+    ['plain strings instead of scenario objects', '["A kitchen", "A studio"]'],
+  ])('throws InvalidOutputError for %s instead of inventing suggestions', async (_label, content) => {
+    createFetchStub(jsonResponse(recommendResponse(content))).install();
+    await expect(createService(TEXT_MODEL).recommendScenarios(PNG_DATA_URL)).rejects.toBeInstanceOf(InvalidOutputError);
+  });
+
+  it('propagates API errors', async () => {
+    createFetchStub(jsonResponse(errorBody(401, 'Invalid key'), { status: 401 })).install();
+    await expect(createService(TEXT_MODEL).recommendScenarios(PNG_DATA_URL)).rejects.toBeInstanceOf(AuthError);
+  });
+
+  it('adds the product profile to the request', async () => {
+    const stub = createFetchStub(jsonResponse(recommendResponse(JSON.stringify({ scenarios })))).install();
+    await createService(TEXT_MODEL).recommendScenarios(PNG_DATA_URL, { profile: PRODUCT_PROFILE });
+    const prompt = stub.requests[0].body.messages[0].content[0].text;
+    expect(prompt).toContain('- Category: Kitchen & Dining');
+    expect(prompt).toContain('- Key selling points: leak-proof lid; keeps drinks cold');
+  });
+});
+
+describe('OpenRouterService.analyzeProduct', () => {
+  it('parses the profile from a fenced JSON object', async () => {
+    const content = `\`\`\`json\n${JSON.stringify(PRODUCT_PROFILE, null, 2)}\n\`\`\``;
+    const stub = createFetchStub(jsonResponse(recommendResponse(content))).install();
+    await expect(createService(TEXT_MODEL).analyzeProduct(PNG_DATA_URL)).resolves.toEqual(PRODUCT_PROFILE);
+    expect(stub.requests[0].body.messages[0].content[1].image_url.url).toBe(PNG_DATA_URL);
+  });
+
+  it('throws InvalidOutputError when the model answers in prose', async () => {
+    createFetchStub(jsonResponse(recommendResponse('I cannot tell what this product is.'))).install();
+    await expect(createService(TEXT_MODEL).analyzeProduct(PNG_DATA_URL)).rejects.toBeInstanceOf(InvalidOutputError);
+  });
+});
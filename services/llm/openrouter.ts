@@ -1,10 +1,17 @@
-import { LLMProvider } from "../../types";
-import { ILLMService, LLMServiceConfig, ImageGenerationOptions } from "./types";
+import { ILLMService, LLMServiceConfig, ImageGenerationOptions, ExpandPromptOptions, RequestOptions, RecommendOptions, ScenarioRecommendation, ProductProfile } from "./types";
+import { isAbortError, LLMError, AuthError, ContentPolicyError, ModelTextError, InvalidOutputError } from "./errors";
+import { request, requestJson, errorFromPayload } from "./http";
+import { renderTemplate, templateVariableNames } from "./template";
+import { extractImage, resolveImage, toDataUrl } from "./media";
+import { PRODUCT_ANALYSIS_PROMPT, parseProductProfile } from "./profile";
+import { buildRecommendationPrompt, parseRecommendations, recommendationSchema } from "./recommend";
 
-const PROVIDER_MODEL_MAP: Record<LLMProvider, string> = {
-  [LLMProvider.GEMINI_3_PRO_IMAGE_PREVIEW]: "google/gemini-3-pro-image-preview",
-  [LLMProvider.GEMINI_3_PRO_PREVIEW]: "google/gemini-3-pro-preview",
-};
+export const OPENROUTER_PROVIDER_ID = "openrouter";
+export const OPENROUTER_DEFAULT_MODEL = "google/gemini-3-pro-image-preview";
+const OPENROUTER_API_URL = "https://openrouter.ai/api/v1/chat/completions";
+
+// Image-capable models must explicitly request the image output modality
+const supportsImageOutput = (model: string): boolean => /image/i.test(model);
 
 const DEFAULT_SYSTEM_INSTRUCTION = `# Role: E-Commerce Product Photography Expert
 
@@ -26,34 +33,71 @@ const DEFAULT_USER_TEMPLATE = `# Task: Write a Commercial Image Gen Prompt
 
 ## Input Data
 - **Target Scene**: "{{basePrompt}}"
+{{#if customContext}}
 - **Additional Context**: "{{customContext}}"
+{{/if}}
+{{#if brandColors}}
+- **Brand Colors**: {{brandColors}}
+{{/if}}
+{{#if category}}
+- **Product Category**: {{category}}
+{{/if}}
+{{#if materials}}
+- **Materials**: {{materials}}
+{{/if}}
+{{#if colors}}
+- **Product Colors**: {{colors}} (pick a background that complements them)
+{{/if}}
+{{#if scale}}
+- **Scale**: {{scale}}
+{{/if}}
+{{#if audience}}
+- **Target Audience**: {{audience}}
+{{/if}}
+{{#if sellingPoints}}
+- **Key Selling Points**: {{sellingPoints}}
+{{/if}}
 
 ## Instructions
 Based on the input, write a detailed, commercial-grade prompt.
 - Ensure the scene highlights the product's value proposition.
+- Choose props and settings that fit the product's scale and target audience, and that let its selling points show.
 - Emphasize lighting and texture for a premium, trustworthy look.
 - Adapt the style to fit general e-commerce standards (clean, professional).`;
 
-const DEFAULT_GENERATION_TEMPLATE = `Create a high-end commercial product image for e-commerce.
+const DEFAULT_GENERATION_TEMPLATE = `Create a high-end commercial product image for {{#if marketplace}}a {{marketplace}} listing{{else}}e-commerce{{/if}}.
 Reference Image: Use the provided product image as the main subject.
 Scene Description: {{prompt}}.
+{{#if productName}}
+Product: {{productName}}{{#if category}} ({{category}}){{/if}}
+{{/if}}
 Requirements:
 - **Focus**: Sharp on the product.
 - **Composition**: Product is the hero, centered and commanding attention.
 - **Lighting**: Professional studio or natural commercial lighting.
+{{#if brandColors}}
+- **Brand Colors**: Echo {{brandColors}} in props and background accents.
+{{/if}}
+{{#if aspectRatio}}
+- **Aspect Ratio**: {{aspectRatio}}.
+{{/if}}
 Style: E-commerce Lifestyle, High Resolution, Photorealistic, Advertisement.`;
 
 export class OpenRouterService implements ILLMService {
   private config: LLMServiceConfig;
-  private provider: LLMProvider;
+  private model: string;
 
-  constructor(config: LLMServiceConfig = {}, provider: LLMProvider = LLMProvider.GEMINI_3_PRO_IMAGE_PREVIEW) {
+  constructor(config: LLMServiceConfig = {}, model: string = OPENROUTER_DEFAULT_MODEL) {
     this.config = config;
-    this.provider = provider;
+    this.model = model;
+  }
+
+  getProviderId(): string {
+    return OPENROUTER_PROVIDER_ID;
   }
 
-  getProvider(): LLMProvider {
-    return this.provider;
+  getModel(): string {
+    return this.model;
   }
 
   isAvailable(): boolean {
@@ -64,28 +108,123 @@ export class OpenRouterService implements ILLMService {
   private getApiKey(): string {
     const apiKey = this.config.apiKey || import.meta.env.VITE_OPENROUTER_API_KEY || (typeof process !== 'undefined' ? process.env.OPENROUTER_API_KEY : undefined);
     if (!apiKey) {
-      throw new Error("OpenRouter API key not found. Please set VITE_OPENROUTER_API_KEY.");
+      throw new AuthError("OpenRouter API key not found. Please set VITE_OPENROUTER_API_KEY.", { providerId: OPENROUTER_PROVIDER_ID });
     }
     return apiKey;
   }
 
-  private processTemplate(template: string, variables: Record<string, string>): string {
-    let result = template;
-    for (const [key, value] of Object.entries(variables)) {
-      // Replace {{key}} with value, handle multiple occurrences
-      result = result.split(`{{${key}}}`).join(value);
+  private buildRequest(apiKey: string, body: Record<string, unknown>): RequestInit {
+    return {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "HTTP-Referer": window.location.href,
+        "X-Title": "AmzGen",
+        "Content-Type": "application/json"
+      },
+      // Ask OpenRouter to include token counts and the charged cost in every response
+      body: JSON.stringify({ ...body, usage: { include: true } })
+    };
+  }
+
+  /**
+   * 把 OpenRouter 返回的 usage 字段转换为 LLMUsage 并回调
+   */
+  private reportUsage(usage: any, options?: RequestOptions): void {
+    if (!usage || !options?.onUsage) return;
+    options.onUsage({
+      providerId: OPENROUTER_PROVIDER_ID,
+      model: this.model,
+      promptTokens: usage.prompt_tokens ?? 0,
+      completionTokens: usage.completion_tokens ?? 0,
+      totalTokens: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+      cost: typeof usage.cost === "number" ? usage.cost : undefined,
+    });
+  }
+
+  /**
+   * 从响应中未找到图片时，区分安全策略拒绝与模型只返回了文本
+   */
+  private noImageError(data: any): LLMError {
+    const choice = data.choices?.[0];
+    const finishReason = `${choice?.finish_reason || ""} ${choice?.native_finish_reason || ""}`;
+    const content = choice?.message?.content || choice?.message?.refusal || "";
+    if (/content_filter|safety|prohibited|blocklist/i.test(finishReason) || choice?.message?.refusal) {
+      return new ContentPolicyError(content || `Request blocked by the model (${finishReason.trim()})`, { providerId: OPENROUTER_PROVIDER_ID });
+    }
+    return new ModelTextError(content || "Empty response", { providerId: OPENROUTER_PROVIDER_ID });
+  }
+
+  /**
+   * 读取 OpenRouter 的 SSE 流，逐段回调增量文本；用量信息在最后一个数据块中返回
+   */
+  private async readStream(response: Response, onToken: (delta: string, text: string) => void): Promise<{ text: string; usage?: any }> {
+    if (!response.body) {
+      throw new Error("Streaming is not supported in this environment.");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+    let usage: any;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are newline separated; keep the trailing partial line for the next chunk
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const rawLine of lines) {
+          const line = rawLine.trim();
+          // Lines starting with ":" are keep-alive comments (e.g. ": OPENROUTER PROCESSING")
+          if (!line.startsWith("data:")) continue;
+
+          const payload = line.slice(5).trim();
+          if (!payload) continue;
+          if (payload === "[DONE]") return { text, usage };
+
+          let chunk: any;
+          try {
+            chunk = JSON.parse(payload);
+          } catch {
+            // Dropping the chunk would silently cut words out of the text, so fail the stream instead
+            throw new InvalidOutputError("Malformed stream chunk", payload, { providerId: OPENROUTER_PROVIDER_ID });
+          }
+          if (chunk.error) {
+            throw errorFromPayload(500, chunk, "Stream error", OPENROUTER_PROVIDER_ID);
+          }
+          if (chunk.usage) {
+            usage = chunk.usage;
+          }
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onToken(delta, text);
+          }
+        }
+      }
+    } finally {
+      // Release the connection when we stop before the server closes it ([DONE] or an error)
+      reader.cancel().catch(() => {});
     }
-    return result;
+
+    return { text, usage };
   }
 
-  async expandPrompt(basePrompt: string, customContext: string = ""): Promise<string> {
+  async expandPrompt(basePrompt: string, customContext: string = "", options?: ExpandPromptOptions): Promise<string> {
     const apiKey = this.getApiKey();
-    const modelId = PROVIDER_MODEL_MAP[this.provider];
+    const modelId = this.model;
 
-    const systemInstruction = this.config.expandPromptSystem || DEFAULT_SYSTEM_INSTRUCTION;
-    const userTemplate = this.config.expandPromptUserTemplate || DEFAULT_USER_TEMPLATE;
+    const systemInstruction = options?.systemInstruction || this.config.expandPromptSystem || DEFAULT_SYSTEM_INSTRUCTION;
+    const userTemplate = options?.userTemplate || this.config.expandPromptUserTemplate || DEFAULT_USER_TEMPLATE;
     
-    const userPrompt = this.processTemplate(userTemplate, {
+    const userPrompt = renderTemplate(userTemplate, {
+      ...options?.variables,
       basePrompt,
       customContext
     });
@@ -93,34 +232,33 @@ export class OpenRouterService implements ILLMService {
     console.log("🔵 [Expand Prompt] Input to LLM (User Template Filled):", userPrompt);
 
     try {
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${apiKey}`,
-          "HTTP-Referer": window.location.href,
-          "X-Title": "AmzGen",
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
-          model: modelId,
-          messages: [
-            { role: "system", content: systemInstruction },
-            { role: "user", content: userPrompt }
-          ],
-          temperature: 0.7,
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`OpenRouter API error: ${errorData.error?.message || response.statusText}`);
+      const body: Record<string, unknown> = {
+        model: modelId,
+        messages: [
+          { role: "system", content: systemInstruction },
+          { role: "user", content: userPrompt }
+        ],
+        temperature: 0.7,
+        stream: !!options?.onToken,
+      };
+      const requestOptions = { providerId: OPENROUTER_PROVIDER_ID, signal: options?.signal };
+
+      let expandedText: string;
+      if (options?.onToken) {
+        const response = await request(OPENROUTER_API_URL, this.buildRequest(apiKey, body), requestOptions);
+        const streamed = await this.readStream(response, options.onToken);
+        expandedText = streamed.text;
+        this.reportUsage(streamed.usage, options);
+      } else {
+        const data = await requestJson(OPENROUTER_API_URL, this.buildRequest(apiKey, body), requestOptions);
+        expandedText = data.choices?.[0]?.message?.content;
+        this.reportUsage(data.usage, options);
       }
-
-      const data = await response.json();
-      const expandedText = data.choices[0]?.message?.content || `A professional product shot in a ${basePrompt} setting.`;
+      expandedText = expandedText || `A professional product shot in a ${basePrompt} setting.`;
       console.log("🟢 [Expand Prompt] Output from LLM:", expandedText);
       return expandedText;
     } catch (error) {
+      if (isAbortError(error) || error instanceof LLMError) throw error;
       console.error("OpenRouter expandPrompt error:", error);
       throw new Error(`Failed to expand prompt: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -128,16 +266,16 @@ export class OpenRouterService implements ILLMService {
 
   async generateImage(imageBase64: string, prompt: string, options?: ImageGenerationOptions): Promise<string> {
     const apiKey = this.getApiKey();
-    const modelId = PROVIDER_MODEL_MAP[this.provider];
-    const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
+    const modelId = this.model;
 
-    const generationTemplate = this.config.generationPromptTemplate || DEFAULT_GENERATION_TEMPLATE;
+    const generationTemplate = options?.template || this.config.generationPromptTemplate || DEFAULT_GENERATION_TEMPLATE;
     
-    let fullPrompt = this.processTemplate(generationTemplate, { prompt });
+    const quality = options?.quality ?? options?.variables?.quality;
+    let fullPrompt = renderTemplate(generationTemplate, { ...options?.variables, quality, prompt });
 
-    // Append Quality/Style Tags if provided
-    if (options?.quality) {
-      fullPrompt += `\nStyle/Quality: ${options.quality}`;
+    // Append Quality/Style Tags unless the template already places them
+    if (quality && !templateVariableNames(generationTemplate).includes('quality')) {
+      fullPrompt += `\nStyle/Quality: ${quality}`;
     }
 
     console.log("🎨 [Generate Image] Final Prompt to Model:", fullPrompt);
@@ -153,7 +291,7 @@ export class OpenRouterService implements ILLMService {
               {
                 type: "image_url",
                 image_url: {
-                  url: `data:image/png;base64,${cleanBase64}`
+                  url: toDataUrl(imageBase64)
                 }
               }
             ]
@@ -161,107 +299,51 @@ export class OpenRouterService implements ILLMService {
         ]
       };
 
-      // Special handling for Gemini 3 Pro Image Preview as requested by user
-      if (this.provider === LLMProvider.GEMINI_3_PRO_IMAGE_PREVIEW) {
+      // Image models need the image modality to return pictures instead of text
+      if (supportsImageOutput(modelId)) {
         body.modalities = ["image", "text"];
       }
 
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${apiKey}`,
-          "HTTP-Referer": window.location.href,
-          "X-Title": "AmzGen",
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify(body)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`OpenRouter API error: ${errorData.error?.message || response.statusText}`);
+      if (options?.temperature !== undefined) {
+        body.temperature = options.temperature;
+      }
+      if (options?.seed !== undefined) {
+        body.seed = options.seed;
       }
 
-      const data = await response.json();
+      const data = await requestJson(
+        OPENROUTER_API_URL,
+        this.buildRequest(apiKey, body),
+        { providerId: OPENROUTER_PROVIDER_ID, signal: options?.signal }
+      );
       console.log("OpenRouter Full Response:", data); // Debug log
+      this.reportUsage(data.usage, options);
 
-      let finalContent: string | null = null;
-
-      // Iterate through all choices to find the image content
-      if (data.choices && Array.isArray(data.choices)) {
-        for (const choice of data.choices) {
-          // 1. Check 'message.images' (Specific structure for some Google models on OpenRouter/AI Studio)
-          // Based on user log: message.images -> array of { type: "image_url", image_url: { url: "..." } }
-          if (choice.message?.images && Array.isArray(choice.message.images) && choice.message.images.length > 0) {
-             const firstImg = choice.message.images[0];
-             if (firstImg.image_url?.url) {
-                finalContent = firstImg.image_url.url;
-                break;
-             }
-          }
-
-          const content = choice.message?.content;
-          if (content) {
-             // Check for URL or Base64
-             // Relaxed regex to catch URLs without extension if needed, but prioritizing standard formats
-             const urlMatch = content.match(/\!\[.*?\]\((.*?)\)/) || content.match(/(https?:\/\/[^\s)]+)/i);
-             if (urlMatch) {
-                // Simple validation to check if it looks like a url
-                if (urlMatch[1].includes("http")) {
-                    finalContent = urlMatch[1];
-                    break;
-                }
-             }
-             if (content.startsWith("data:image")) {
-                finalContent = content;
-                break;
-             }
-          }
-        }
-      }
-
-      if (finalContent) {
-        return finalContent;
+      const image = extractImage(data);
+      if (image) {
+        return await resolveImage(image, { providerId: OPENROUTER_PROVIDER_ID, signal: options?.signal });
       }
 
       // If we reached here, we didn't find an image in any choice.
-      // Check if the first choice has text content that might be an error or refusal
-      const firstContent = data.choices?.[0]?.message?.content;
-      if (firstContent) {
-         console.warn("Model returned text instead of image:", firstContent);
-         throw new Error("The selected model returned text instead of an image.");
-      }
-
-      throw new Error("No valid image content returned from OpenRouter API (checked all choices).");
+      // The first choice's text is usually a refusal or a description instead of a picture
+      console.warn("Model returned text instead of image:", data.choices?.[0]?.message?.content);
+      throw this.noImageError(data);
 
     } catch (error) {
+      if (isAbortError(error) || error instanceof LLMError) throw error;
       console.error("OpenRouter generateImage error:", error);
       throw new Error(`Failed to generate image: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async recommendScenarios(imageBase64: string): Promise<string[]> {
+  async recommendScenarios(imageBase64: string, options?: RecommendOptions): Promise<ScenarioRecommendation[]> {
     const apiKey = this.getApiKey();
-    const modelId = "google/gemini-3-pro-preview"; // As requested
-    const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
+    const modelId = this.model;
 
-    const prompt = `Analyze the product image. Suggest 3 distinct, commercial e-commerce photography scenarios suitable for online marketplaces like Amazon.
-    Focus on environments, lighting, and props that increase conversion rates.
-    Scenarios should be diverse (e.g., studio, lifestyle, creative) but strictly professional.
-    Do NOT use restricted terms like 'Amazon Choice' or 'Best Seller'.
-    Output format: JSON array of strings.
-    ONLY output the JSON array.`;
+    const prompt = buildRecommendationPrompt(options);
 
     try {
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${apiKey}`,
-          "HTTP-Referer": window.location.href,
-          "X-Title": "AmzGen",
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
+      const data = await requestJson(OPENROUTER_API_URL, this.buildRequest(apiKey, {
           model: modelId,
           messages: [
             {
@@ -271,51 +353,63 @@ export class OpenRouterService implements ILLMService {
                 {
                   type: "image_url",
                   image_url: {
-                    url: `data:image/png;base64,${cleanBase64}`
+                    url: toDataUrl(imageBase64)
                   }
                 }
               ]
             }
-          ]
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`OpenRouter API error: ${errorData.error?.message || response.statusText}`);
-      }
+          ],
+          // Models without structured output support ignore this and answer from the prompt
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "scenario_recommendations", strict: true, schema: recommendationSchema(options?.count) }
+          }
+        }), { providerId: OPENROUTER_PROVIDER_ID, signal: options?.signal });
+      this.reportUsage(data.usage, options);
 
-      const data = await response.json();
-      const content = data.choices[0]?.message?.content || "[]";
+      const content = data.choices?.[0]?.message?.content || "";
       
       console.log("🔍 [Recommend Scenarios] Raw Output:", content);
 
-      // Clean markdown code blocks if present
-      const jsonString = content.replace(/```json\n?|\n?```/g, '').trim();
-      
-      // Find array brackets
-      const start = jsonString.indexOf('[');
-      const end = jsonString.lastIndexOf(']');
-      
-      if (start !== -1 && end !== -1) {
-        const jsonArray = jsonString.substring(start, end + 1);
-        return JSON.parse(jsonArray);
-      }
-      
-      return [];
+      return parseRecommendations(content, OPENROUTER_PROVIDER_ID, options?.count);
     } catch (error) {
+        if (isAbortError(error) || error instanceof LLMError) throw error;
         console.error("OpenRouter recommendScenarios error:", error);
-        return ["A clean studio setting with soft lighting.", "A lifestyle setting with natural sunlight.", "A professional commercial background."]; // Fallback
+        throw new Error(`Failed to recommend scenarios: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async editImage(imageBase64: string, maskBase64: string, prompt: string): Promise<string> {
+  async analyzeProduct(imageBase64: string, options?: RequestOptions): Promise<ProductProfile> {
     const apiKey = this.getApiKey();
-    // Using the image generation/editing capable model
-    const modelId = "google/gemini-3-pro-image-preview";
-    
-    const cleanImageBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
-    const cleanMaskBase64 = maskBase64.replace(/^data:image\/(png|jpeg|jpg|webp);base64,/, '');
+
+    try {
+      const data = await requestJson(OPENROUTER_API_URL, this.buildRequest(apiKey, {
+        model: this.model,
+        messages: [
+          {
+            role: "user",
+            content: [
+              { type: "text", text: PRODUCT_ANALYSIS_PROMPT },
+              { type: "image_url", image_url: { url: toDataUrl(imageBase64) } }
+            ]
+          }
+        ],
+        temperature: 0.2,
+      }), { providerId: OPENROUTER_PROVIDER_ID, signal: options?.signal });
+      this.reportUsage(data.usage, options);
+
+      const content = data.choices?.[0]?.message?.content || "";
+      return parseProductProfile(content, OPENROUTER_PROVIDER_ID);
+    } catch (error) {
+      if (isAbortError(error) || error instanceof LLMError) throw error;
+      console.error("OpenRouter analyzeProduct error:", error);
+      throw new Error(`Failed to analyze product: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async editImage(imageBase64: string, maskBase64: string, prompt: string, options?: RequestOptions): Promise<string> {
+    const apiKey = this.getApiKey();
+    const modelId = this.model;
 
     console.log("🎨 [Edit Image] Sending request to", modelId);
 
@@ -333,13 +427,13 @@ export class OpenRouterService implements ILLMService {
               {
                 type: "image_url",
                 image_url: {
-                  url: `data:image/png;base64,${cleanImageBase64}`
+                  url: toDataUrl(imageBase64)
                 }
               },
               {
                 type: "image_url",
                 image_url: {
-                  url: `data:image/png;base64,${cleanMaskBase64}`
+                  url: toDataUrl(maskBase64)
                 }
               }
             ]
@@ -347,67 +441,30 @@ export class OpenRouterService implements ILLMService {
         ]
       };
 
-      // Explicitly request image modality if using Gemini Image Preview model
-      if (modelId.includes("gemini-3-pro-image-preview")) {
+      // Explicitly request image modality if using an image-capable model
+      if (supportsImageOutput(modelId)) {
         body.modalities = ["image", "text"];
       }
 
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${apiKey}`,
-          "HTTP-Referer": window.location.href,
-          "X-Title": "AmzGen",
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify(body)
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(`OpenRouter API error: ${errorData.error?.message || response.statusText}`);
-      }
-
-      const data = await response.json();
+      const data = await requestJson(
+        OPENROUTER_API_URL,
+        this.buildRequest(apiKey, body),
+        { providerId: OPENROUTER_PROVIDER_ID, signal: options?.signal }
+      );
       console.log("OpenRouter Edit Response:", data);
+      this.reportUsage(data.usage, options);
 
-      // Reuse extraction logic
-      let finalContent: string | null = null;
-      if (data.choices && Array.isArray(data.choices)) {
-        for (const choice of data.choices) {
-          if (choice.message?.images && Array.isArray(choice.message.images) && choice.message.images.length > 0) {
-             const firstImg = choice.message.images[0];
-             if (firstImg.image_url?.url) {
-                finalContent = firstImg.image_url.url;
-                break;
-             }
-          }
-          const content = choice.message?.content;
-          if (content) {
-             const urlMatch = content.match(/\!\[.*?\]\((.*?)\)/) || content.match(/(https?:\/\/[^\s)]+)/i);
-             if (urlMatch) {
-                if (urlMatch[1].includes("http")) {
-                    finalContent = urlMatch[1];
-                    break;
-                }
-             }
-             if (content.startsWith("data:image")) {
-                finalContent = content;
-                break;
-             }
-          }
-        }
+      const image = extractImage(data);
+      if (image) {
+        return await resolveImage(image, { providerId: OPENROUTER_PROVIDER_ID, signal: options?.signal });
       }
 
-      if (finalContent) return finalContent;
-      
       // Debug info for failure
-      const firstContent = data.choices?.[0]?.message?.content;
-      console.warn("Failed to find image in response. Model output:", firstContent);
-      
-      throw new Error("No image returned for edit request. The model might have output text instead: " + (firstContent?.substring(0, 100) || "Empty response"));
+      console.warn("Failed to find image in response. Model output:", data.choices?.[0]?.message?.content);
+      throw this.noImageError(data);
 
     } catch (error) {
+        if (isAbortError(error) || error instanceof LLMError) throw error;
         console.error("OpenRouter editImage error:", error);
         throw new Error(`Failed to edit image: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { parseProductProfile, profileTemplateVariables } from './profile';
+import { InvalidOutputError } from './errors';
+
+describe('parseProductProfile', () => {
+  it('normalizes lists given as strings and alternative field names', () => {
+    const content = 'Profile: {"category": " Toys ", "materials": "wood, cotton, wood", "dominantColors": ["red", ""], "size": "palm-sized", "targetAudience": "toddlers", "keySellingPoints": "safe paint; machine washable"}';
+    expect(parseProductProfile(content, 'test')).toEqual({
+      category: 'Toys',
+      materials: ['wood', 'cotton'],
+      colors: ['red'],
+      scale: 'palm-sized',
+      audience: 'toddlers',
+      sellingPoints: ['safe paint', 'machine washable'],
+    });
+  });
+
+  it.each([
+    ['prose', 'A wooden toy.'],
+    ['an array', '["wood"]'],
+    ['an object without product details', '{"scale": "small"}'],
+    ['broken JSON', '{"category": "Toys",}'],
+  ])('rejects %s', (_label, content) => {
+    expect(() => parseProductProfile(content, 'test')).toThrow(InvalidOutputError);
+  });
+});
+
+describe('profileTemplateVariables', () => {
+  it('joins lists and leaves empty fields undefined', () => {
+    const variables = profileTemplateVariables({
+      category: '',
+      materials: ['wood', 'cotton'],
+      colors: [],
+      scale: 'palm-sized',
+      audience: '',
+      sellingPoints: ['safe paint', 'machine washable'],
+    });
+    expect(variables).toEqual({
+      category: undefined,
+      materials: 'wood, cotton',
+      colors: undefined,
+      scale: 'palm-sized',
+      audience: undefined,
+      sellingPoints: 'safe paint; machine washable',
+    });
+  });
+});
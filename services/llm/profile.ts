@@ -0,0 +1,91 @@
+import { ProductProfile, TemplateVariables } from "./types";
+import { InvalidOutputError } from "./errors";
+
+/**
+ * 产品分析：让视觉模型从产品图中提取结构化的产品画像
+ * 画像用于场景推荐的上下文，以及提示词模板中的产品变量
+ */
+
+export const PRODUCT_ANALYSIS_PROMPT = `Analyze the product in the image for an e-commerce photography brief.
+Return ONLY a JSON object with these fields:
+{
+  "category": "Marketplace category, e.g. \\"Kitchen & Dining > Water Bottles\\"",
+  "materials": ["Visible materials, e.g. \\"brushed stainless steel\\""],
+  "colors": ["Dominant product colors, most prominent first"],
+  "scale": "Physical size and how it is handled, e.g. \\"handheld, about 25 cm tall\\"",
+  "audience": "Likely buyers, e.g. \\"commuters and gym-goers\\"",
+  "sellingPoints": ["Up to 5 short selling points visible in or implied by the product"]
+}
+Describe only what can be seen or reasonably inferred. Do NOT invent brand names or certifications.`;
+
+const MAX_LIST_ITEMS = 6;
+
+const toText = (value: unknown): string => (typeof value === "string" || typeof value === "number" ? String(value).trim() : "");
+
+// Models sometimes return a comma separated string instead of an array
+const toList = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value.map(toText) : toText(value).split(/[,;\n]/).map(item => item.trim());
+  return [...new Set(items.filter(Boolean))].slice(0, MAX_LIST_ITEMS);
+};
+
+/**
+ * 解析模型返回的产品画像；没有可用的 JSON 对象时抛出 InvalidOutputError
+ */
+export function parseProductProfile(content: string, providerId: string): ProductProfile {
+  // Clean markdown code blocks if present, then take the outermost object
+  const text = content.replace(/```(?:json)?/gi, "");
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  let parsed: unknown;
+  try {
+    parsed = start !== -1 && end > start ? JSON.parse(text.slice(start, end + 1)) : undefined;
+  } catch {
+    parsed = undefined;
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new InvalidOutputError("Product analysis is not a JSON object", content || "Empty response", { providerId });
+  }
+  const data = parsed as Record<string, unknown>;
+
+  const profile: ProductProfile = {
+    category: toText(data.category),
+    materials: toList(data.materials),
+    colors: toList(data.colors ?? data.dominantColors),
+    scale: toText(data.scale ?? data.size),
+    audience: toText(data.audience ?? data.targetAudience),
+    sellingPoints: toList(data.sellingPoints ?? data.keySellingPoints),
+  };
+  if (!profile.category && !profile.materials.length && !profile.colors.length && !profile.sellingPoints.length) {
+    throw new InvalidOutputError("Product analysis has no product details", content, { providerId });
+  }
+  return profile;
+}
+
+/**
+ * 产品画像对应的模板变量；类目只在用户未填写时由画像补充
+ */
+export function profileTemplateVariables(profile: ProductProfile | undefined): TemplateVariables {
+  if (!profile) return {};
+  return {
+    category: profile.category || undefined,
+    materials: profile.materials.join(", ") || undefined,
+    colors: profile.colors.join(", ") || undefined,
+    scale: profile.scale || undefined,
+    audience: profile.audience || undefined,
+    sellingPoints: profile.sellingPoints.join("; ") || undefined,
+  };
+}
+
+/**
+ * 画像的文字描述，附加在推荐请求中
+ */
+export function describeProductProfile(profile: ProductProfile): string {
+  return [
+    profile.category && `- Category: ${profile.category}`,
+    profile.materials.length > 0 && `- Materials: ${profile.materials.join(", ")}`,
+    profile.colors.length > 0 && `- Dominant colors: ${profile.colors.join(", ")}`,
+    profile.scale && `- Scale: ${profile.scale}`,
+    profile.audience && `- Target audience: ${profile.audience}`,
+    profile.sellingPoints.length > 0 && `- Key selling points: ${profile.sellingPoints.join("; ")}`,
+  ].filter(Boolean).join("\n");
+}
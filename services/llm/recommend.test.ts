@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { parseRecommendations, recommendationSchema } from './recommend';
+import { InvalidOutputError } from './errors';
+
+describe('parseRecommendations', () => {
+  it('accepts common field aliases and tag lists', () => {
+    const content = JSON.stringify({ scenarios: [{ title: 'Desk', scene: ' A tidy desk ', qualityTags: ['8k', 'sharp'], reason: 'Work context' }] });
+    expect(parseRecommendations(content, 'test')).toEqual([
+      { name: 'Desk', description: 'A tidy desk', quality: '8k, sharp', rationale: 'Work context' },
+    ]);
+  });
+
+  it('skips items without a description and trims to the requested count', () => {
+    const items = [{ name: 'Empty' }, ...Array.from({ length: 4 }, (_, index) => ({ description: `Scene ${index}` }))];
+    const result = parseRecommendations(JSON.stringify(items), 'test', 2);
+    expect(result.map(item => item.description)).toEqual(['Scene 0', 'Scene 1']);
+  });
+
+  it('throws when no item is usable', () => {
+    expect(() => parseRecommendations('{"scenarios": [{"name": "Only a name"}]}', 'test')).toThrow(InvalidOutputError);
+  });
+});
+
+describe('recommendationSchema', () => {
+  it('clamps the requested count', () => {
+    const items = (count: number) => recommendationSchema(count).properties.scenarios;
+    expect(items(0)).toMatchObject({ minItems: 1, maxItems: 1 });
+    expect(items(20)).toMatchObject({ minItems: 8, maxItems: 8 });
+  });
+});
@@ -0,0 +1,132 @@
+import { ProductProfile, RecommendationDiversity, ScenarioRecommendation } from "./types";
+import { InvalidOutputError } from "./errors";
+import { describeProductProfile } from "./profile";
+
+/**
+ * 场景推荐：共享的提示词、JSON Schema 与结果解析
+ * 各服务在支持结构化输出时把 schema 交给模型，不支持时仍按同一结构解析文本
+ */
+
+export const DEFAULT_RECOMMENDATION_COUNT = 3;
+export const MAX_RECOMMENDATION_COUNT = 8;
+
+const DIVERSITY_INSTRUCTIONS: Record<RecommendationDiversity, string> = {
+  focused: "Keep the scenarios close in style: variations on the one setting that suits this product best (different angles, props or lighting).",
+  balanced: "Mix styles: include at least one clean studio shot and at least one lifestyle scene.",
+  diverse: "Make every scenario a different style (e.g., studio, lifestyle, outdoor, seasonal, creative); no two may share a setting or lighting approach.",
+};
+
+const clampCount = (count: number | undefined): number =>
+  Math.min(MAX_RECOMMENDATION_COUNT, Math.max(1, Math.round(count ?? DEFAULT_RECOMMENDATION_COUNT)));
+
+export interface RecommendationSchema {
+  type: "object";
+  properties: {
+    scenarios: {
+      type: "array";
+      minItems: number;
+      maxItems: number;
+      items: Record<string, unknown>; // Schema of one scenario
+    };
+  };
+  required: string[];
+  additionalProperties: false;
+}
+
+/**
+ * 推荐结果的 JSON Schema（顶层必须是对象，满足 OpenAI 风格 strict 模式的要求）
+ */
+export function recommendationSchema(count?: number): RecommendationSchema {
+  const total = clampCount(count);
+  return {
+    type: "object",
+    properties: {
+      scenarios: {
+        type: "array",
+        minItems: total,
+        maxItems: total,
+        items: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "Short scene name, 2-5 words" },
+            description: { type: "string", description: "Scene description used as the base prompt: environment, surface, lighting and props" },
+            quality: { type: "string", description: "Comma separated quality and style tags" },
+            rationale: { type: "string", description: "One sentence on why this scene sells this product" },
+          },
+          required: ["name", "description", "quality", "rationale"],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ["scenarios"],
+    additionalProperties: false,
+  };
+}
+
+/**
+ * 构建推荐提示词
+ */
+export function buildRecommendationPrompt(options: { count?: number; diversity?: RecommendationDiversity; profile?: ProductProfile } = {}): string {
+  const total = clampCount(options.count);
+  const lines = [
+    `Analyze the product image. Suggest ${total} commercial e-commerce photography scenario${total === 1 ? "" : "s"} suitable for online marketplaces like Amazon.`,
+    "Focus on environments, lighting, and props that increase conversion rates. Keep every scenario strictly professional.",
+    DIVERSITY_INSTRUCTIONS[options.diversity ?? "balanced"],
+    "Do NOT use restricted terms like 'Amazon Choice' or 'Best Seller'. Do NOT describe the product itself; it comes from the image.",
+  ];
+  if (options.profile) {
+    lines.push("", `Product profile (fit the scenes to this product and its buyers):\n${describeProductProfile(options.profile)}`);
+  }
+  lines.push(
+    "",
+    `Return ONLY a JSON object: {"scenarios": [{"name": "...", "description": "...", "quality": "...", "rationale": "..."}]} with exactly ${total} item${total === 1 ? "" : "s"}.`,
+  );
+  return lines.join("\n");
+}
+
+const toText = (value: unknown): string => (typeof value === "string" ? value.trim() : "");
+
+const toRecommendation = (item: unknown): ScenarioRecommendation | null => {
+  if (!item || typeof item !== "object" || Array.isArray(item)) return null;
+  const data = item as Record<string, unknown>;
+  const description = toText(data.description ?? data.scene ?? data.prompt);
+  if (!description) return null;
+  const tags = data.quality ?? data.qualityTags;
+  const quality = Array.isArray(tags) ? tags.map(toText).filter(Boolean).join(", ") : toText(tags);
+  return {
+    name: toText(data.name ?? data.title),
+    description,
+    quality,
+    rationale: toText(data.rationale ?? data.reason),
+  };
+};
+
+/**
+ * 解析推荐结果；输出不是所需结构时抛出 InvalidOutputError，而不是返回占位建议
+ */
+export function parseRecommendations(content: string, providerId: string, count?: number): ScenarioRecommendation[] {
+  const text = content.replace(/```(?:json)?/gi, "").trim();
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    // Structured output is not available everywhere; fall back to the outermost JSON value in the text
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+    try {
+      data = start !== -1 && end > start ? JSON.parse(text.slice(start, end + 1)) : undefined;
+    } catch {
+      data = undefined;
+    }
+  }
+
+  const items = Array.isArray(data) ? data : (data as { scenarios?: unknown } | undefined)?.scenarios;
+  if (!Array.isArray(items)) {
+    throw new InvalidOutputError("Recommendations are not a JSON list of scenarios", content || "Empty response", { providerId });
+  }
+  const recommendations = items.map(toRecommendation).filter((item): item is ScenarioRecommendation => item !== null);
+  if (recommendations.length === 0) {
+    throw new InvalidOutputError("Recommendations contain no usable scenario", content, { providerId });
+  }
+  return recommendations.slice(0, clampCount(count));
+}
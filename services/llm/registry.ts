@@ -0,0 +1,87 @@
+import { LLMTask, ModelDefinition, ProviderDefinition } from "./types";
+import { OpenRouterService, OPENROUTER_PROVIDER_ID } from "./openrouter";
+import { GeminiService, GEMINI_PROVIDER_ID } from "./gemini";
+import { MockLLMService, MOCK_PROVIDER_ID, MOCK_MODEL } from "./mock";
+
+/**
+ * LLM 提供商注册表
+ * 提供商以 ID 注册，并声明自己支持的任务与模型
+ */
+export class ProviderRegistry {
+  private static providers: Map<string, ProviderDefinition> = new Map();
+
+  static register(definition: ProviderDefinition): void {
+    this.providers.set(definition.id, definition);
+  }
+
+  static unregister(id: string): void {
+    this.providers.delete(id);
+  }
+
+  static get(id: string): ProviderDefinition | undefined {
+    return this.providers.get(id);
+  }
+
+  static list(): ProviderDefinition[] {
+    return Array.from(this.providers.values());
+  }
+
+  static findModel(providerId: string, modelId: string): ModelDefinition | undefined {
+    return this.providers.get(providerId)?.models.find(m => m.id === modelId);
+  }
+
+  /**
+   * 列出能处理指定任务的所有 提供商/模型 组合
+   */
+  static listModelsForTask(task: LLMTask): { provider: ProviderDefinition; model: ModelDefinition }[] {
+    const result: { provider: ProviderDefinition; model: ModelDefinition }[] = [];
+    for (const provider of this.providers.values()) {
+      if (!provider.capabilities.includes(task)) continue;
+      for (const model of provider.models) {
+        if (model.capabilities.includes(task)) {
+          result.push({ provider, model });
+        }
+      }
+    }
+    return result;
+  }
+}
+
+// Built-in providers
+ProviderRegistry.register({
+  id: OPENROUTER_PROVIDER_ID,
+  name: "OpenRouter",
+  description: "通过 OpenRouter 统一 API 访问",
+  capabilities: ['expand', 'generate', 'recommend', 'analyze', 'edit'],
+  models: [
+    { id: "google/gemini-3-pro-image-preview", name: "Nano Banana Pro", description: "Gemini 3 Pro 图像预览版", capabilities: ['generate', 'edit'] },
+    { id: "google/gemini-2.5-flash-image", name: "Nano Banana", description: "Gemini 2.5 Flash 图像版", capabilities: ['generate', 'edit'] },
+    { id: "google/gemini-3-pro-preview", name: "Gemini 3 Pro Preview", description: "Gemini 3 Pro 预览版 (文本/视觉)", capabilities: ['expand', 'recommend', 'analyze'] },
+    { id: "google/gemini-2.5-flash", name: "Gemini 2.5 Flash", description: "快速文本/视觉模型", capabilities: ['expand', 'recommend', 'analyze'] },
+  ],
+  create: (config, model) => new OpenRouterService(config, model),
+});
+
+ProviderRegistry.register({
+  id: GEMINI_PROVIDER_ID,
+  name: "Gemini SDK",
+  description: "使用 @google/genai SDK 直连 Google",
+  capabilities: ['expand', 'generate', 'recommend', 'analyze', 'edit'],
+  models: [
+    { id: "gemini-3-pro-image-preview", name: "Nano Banana Pro", description: "Gemini 3 Pro 图像预览版", capabilities: ['generate', 'edit'] },
+    { id: "gemini-3-pro-preview", name: "Gemini 3 Pro Preview", description: "Gemini 3 Pro 预览版 (文本/视觉)", capabilities: ['expand', 'recommend', 'analyze'] },
+  ],
+  // The SDK needs a Google key, not the OpenRouter key held in config.apiKey
+  create: (config, model) => new GeminiService({ ...config, apiKey: config.geminiApiKey }, model),
+});
+
+ProviderRegistry.register({
+  id: MOCK_PROVIDER_ID,
+  name: "Mock (离线)",
+  description: "不调用任何 API，生成确定性的占位结果，用于开发与测试",
+  capabilities: ['expand', 'generate', 'recommend', 'analyze', 'edit'],
+  models: [
+    { id: MOCK_MODEL, name: "Mock", description: "离线占位模型", capabilities: ['expand', 'generate', 'recommend', 'analyze', 'edit'] },
+  ],
+  create: (config, model) => new MockLLMService(config, model),
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { renderTemplate, validateTemplate, templateVariableNames } from './template';
+
+describe('renderTemplate', () => {
+  it('substitutes every occurrence and leaves unknown names untouched', () => {
+    expect(renderTemplate('{{prompt}} / {{prompt}} / {{promt}}', { prompt: 'kitchen' })).toBe('kitchen / kitchen / {{promt}}');
+  });
+
+  it('renders documented variables without a value as empty', () => {
+    expect(renderTemplate('[{{category}}]', {})).toBe('[]');
+  });
+
+  it('does not expand placeholders inside substituted values', () => {
+    const result = renderTemplate('{{basePrompt}} | {{customContext}}', {
+      basePrompt: 'Show {{customContext}} literally',
+      customContext: 'morning light',
+    });
+    expect(result).toBe('Show {{customContext}} literally | morning light');
+  });
+
+  it('uses the default when the value is empty', () => {
+    expect(renderTemplate('For {{marketplace|e-commerce}}', { marketplace: '  ' })).toBe('For e-commerce');
+    expect(renderTemplate('For {{marketplace|e-commerce}}', { marketplace: 'Amazon DE' })).toBe('For Amazon DE');
+  });
+
+  it('renders conditionals with else and unless branches', () => {
+    const template = '{{#if category}}in {{category}}{{else}}uncategorized{{/if}}{{#unless brandColors}}, neutral{{/unless}}';
+    expect(renderTemplate(template, { category: 'Toys' })).toBe('in Toys, neutral');
+    expect(renderTemplate(template, { brandColors: 'red' })).toBe('uncategorized');
+  });
+
+  it('nests conditionals', () => {
+    const template = '{{#if productName}}{{productName}}{{#if category}} ({{category}}){{/if}}{{/if}}';
+    expect(renderTemplate(template, { productName: 'Mug', category: 'Kitchen' })).toBe('Mug (Kitchen)');
+    expect(renderTemplate(template, { productName: 'Mug' })).toBe('Mug');
+    expect(renderTemplate(template, { category: 'Kitchen' })).toBe('');
+  });
+
+  it('removes conditional tags that sit on their own line', () => {
+    const template = 'Scene: {{basePrompt}}\n{{#if customContext}}\nContext: {{customContext}}\n{{/if}}\nEnd';
+    expect(renderTemplate(template, { basePrompt: 'studio', customContext: '' })).toBe('Scene: studio\nEnd');
+    expect(renderTemplate(template, { basePrompt: 'studio', customContext: 'a cat' })).toBe('Scene: studio\nContext: a cat\nEnd');
+  });
+});
+
+describe('validateTemplate', () => {
+  it('accepts a valid template', () => {
+    expect(validateTemplate('{{#if customContext}}{{customContext}}{{/if}} {{basePrompt|studio}}', 'expand')).toEqual([]);
+  });
+
+  it('suggests the closest variable for a typo', () => {
+    const [issue] = validateTemplate('Scene: {{basePromt}}', 'expand');
+    expect(issue).toMatchObject({ level: 'warning', line: 1, suggestion: 'basePrompt' });
+  });
+
+  it('flags variables that belong to the other template', () => {
+    const [issue] = validateTemplate('{{prompt}}', 'expand');
+    expect(issue.level).toBe('warning');
+    expect(issue.suggestion).toBeUndefined();
+    expect(issue.message).toContain('不可用');
+  });
+
+  it.each([
+    ['an unclosed block', 'a\n{{#if category}}x', 2],
+    ['a stray closing tag', '{{/if}}', 1],
+    ['else outside a block', 'x {{else}} y', 1],
+    ['mismatched closing tags', '{{#if category}}x{{/unless}}', 1],
+    ['a block without a variable', '{{#if}}x{{/if}}', 1],
+    ['a missing closing brace', 'one\ntwo {{prompt}', 2],
+    ['an unrecognized tag', '{{prompt text}}', 1],
+  ])('reports %s as an error', (_label, template, line) => {
+    const issues = validateTemplate(template, 'generate');
+    expect(issues.find(issue => issue.level === 'error')).toMatchObject({ line });
+  });
+});
+
+describe('templateVariableNames', () => {
+  it('includes variables used only in conditions', () => {
+    expect(templateVariableNames('{{#if productName}}x{{/if}} {{prompt}}').sort()).toEqual(['productName', 'prompt']);
+  });
+});
@@ -0,0 +1,301 @@
+import { TemplateVariables } from "./types";
+
+/**
+ * 提示词模板引擎
+ *
+ * 语法：
+ * - `{{name}}`：插入变量；`{{name|默认值}}`：变量为空时使用默认值
+ * - `{{#if name}}...{{else}}...{{/if}}`：变量非空时输出第一段，否则输出 else 段（可省略）
+ * - `{{#unless name}}...{{/unless}}`：变量为空时输出
+ *
+ * 变量值原样插入，不会再次展开其中的 `{{...}}`。未知变量保持原样输出，由 validateTemplate 提示。
+ * 独占一行的条件标签会连同换行一起移除，避免条件不成立时留下空行。
+ */
+
+export type TemplateScope = 'expand' | 'generate';
+
+export interface TemplateVariableDefinition {
+  name: string;
+  label: string;
+  description: string;
+  example: string;
+  scopes: TemplateScope[];
+}
+
+/**
+ * 模板中可用的变量
+ */
+export const TEMPLATE_VARIABLES: TemplateVariableDefinition[] = [
+  { name: 'basePrompt', label: '场景描述', description: '预设的场景描述', example: 'A sunny kitchen counter', scopes: ['expand'] },
+  { name: 'customContext', label: '附加上下文', description: '生成时填写的附加上下文，可能为空', example: 'a person looking at the product', scopes: ['expand'] },
+  { name: 'prompt', label: '扩展后的提示词', description: '提示扩展步骤输出的完整提示词', example: 'A sleek bottle on a marble counter, morning light...', scopes: ['generate'] },
+  { name: 'productName', label: '产品名称', description: '产品标题，未填写时为 SKU', example: 'Insulated Water Bottle 750ml', scopes: ['expand', 'generate'] },
+  { name: 'category', label: '类目', description: '产品目录中填写的类目，未填写时使用产品分析的结果', example: 'Kitchen & Dining', scopes: ['expand', 'generate'] },
+  { name: 'materials', label: '材质', description: '产品分析识别的材质', example: 'stainless steel, silicone', scopes: ['expand', 'generate'] },
+  { name: 'colors', label: '产品颜色', description: '产品分析识别的主要颜色', example: 'silver, black', scopes: ['expand', 'generate'] },
+  { name: 'scale', label: '尺寸', description: '产品分析估计的尺寸与使用方式', example: 'handheld, about 25 cm tall', scopes: ['expand', 'generate'] },
+  { name: 'audience', label: '目标人群', description: '产品分析推断的目标人群', example: 'commuters and gym-goers', scopes: ['expand', 'generate'] },
+  { name: 'sellingPoints', label: '卖点', description: '产品分析提取的核心卖点', example: 'leak-proof lid; keeps drinks cold for 24 hours', scopes: ['expand', 'generate'] },
+  { name: 'brandColors', label: '品牌色', description: '全局提示设置中的品牌色', example: 'navy blue and warm orange', scopes: ['expand', 'generate'] },
+  { name: 'marketplace', label: '目标平台', description: '全局提示设置中的目标平台', example: 'Amazon US', scopes: ['expand', 'generate'] },
+  { name: 'aspectRatio', label: '画面比例', description: '全局提示设置中的画面比例', example: '1:1', scopes: ['expand', 'generate'] },
+  { name: 'quality', label: '质量标签', description: '预设的质量/风格标签', example: 'High quality, photorealistic, 8k', scopes: ['expand', 'generate'] },
+];
+
+// Variables that differ between products of the same batch
+export const PRODUCT_TEMPLATE_VARIABLES = ['productName', 'category', 'materials', 'colors', 'scale', 'audience', 'sellingPoints'];
+
+// Variables filled from the product analysis
+export const PROFILE_TEMPLATE_VARIABLES = ['category', 'materials', 'colors', 'scale', 'audience', 'sellingPoints'];
+
+export const templateVariablesFor = (scope: TemplateScope): TemplateVariableDefinition[] =>
+  TEMPLATE_VARIABLES.filter(variable => variable.scopes.includes(scope));
+
+/**
+ * 示例变量值，用于设置页预览
+ */
+export const exampleTemplateVariables = (scope: TemplateScope): TemplateVariables =>
+  Object.fromEntries(templateVariablesFor(scope).map(variable => [variable.name, variable.example]));
+
+export interface TemplateIssue {
+  level: 'error' | 'warning';
+  message: string;
+  line: number; // 1-based
+  suggestion?: string; // Closest known variable for a likely typo
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; name: string; fallback?: string; raw: string; line: number }
+  | { kind: 'block'; name: string; negate: boolean; body: TemplateNode[]; alternate: TemplateNode[]; line: number };
+
+interface ParsedTemplate {
+  nodes: TemplateNode[];
+  issues: TemplateIssue[];
+}
+
+const TAG_PATTERN = /\{\{([^{}]*)\}\}/g;
+const VARIABLE_PATTERN = /^([A-Za-z_]\w*)\s*(?:\|([\s\S]*))?$/;
+const BLOCK_OPEN_PATTERN = /^#(if|unless)(?:\s+([A-Za-z_]\w*))?\s*$/;
+const BLOCK_CLOSE_PATTERN = /^\/(if|unless)\s*$/;
+
+const lineAt = (template: string, index: number): number => template.slice(0, index).split('\n').length;
+
+const isBlockTag = (content: string): boolean => /^(#|\/|else\b)/.test(content.trim());
+
+/**
+ * 解析模板；语法错误不会中断解析，尽量按用户意图输出
+ */
+const parseTemplate = (template: string): ParsedTemplate => {
+  const root: TemplateNode[] = [];
+  const issues: TemplateIssue[] = [];
+  // Open blocks; `target` is where child nodes currently go (body or alternate)
+  const stack: { block: Extract<TemplateNode, { kind: 'block' }>; type: string; line: number; target: TemplateNode[]; hasElse: boolean }[] = [];
+  const current = () => (stack.length ? stack[stack.length - 1].target : root);
+
+  const pushText = (text: string, index: number) => {
+    if (!text) return;
+    const unclosed = text.indexOf('{{');
+    if (unclosed !== -1) {
+      issues.push({ level: 'error', message: '"{{" 缺少对应的 "}}"', line: lineAt(template, index + unclosed) });
+    } else if (text.includes('}}')) {
+      issues.push({ level: 'warning', message: '多余的 "}}"，可能少写了一个 "{"', line: lineAt(template, index + text.indexOf('}}')) });
+    }
+    current().push({ kind: 'text', text });
+  };
+  // Malformed tags are kept in the output as written
+  const pushRaw = (raw: string) => {
+    current().push({ kind: 'text', text: raw });
+  };
+
+  let cursor = 0;
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG_PATTERN.exec(template)) !== null) {
+    const raw = match[0];
+    const content = match[1].trim();
+    let start = match.index;
+    let end = start + raw.length;
+    const line = lineAt(template, start);
+
+    // A block tag alone on its line takes the whole line with it
+    if (isBlockTag(content)) {
+      const lineStart = template.lastIndexOf('\n', start - 1) + 1;
+      const newline = template.indexOf('\n', end);
+      const lineEnd = newline === -1 ? template.length : newline;
+      if (lineStart >= cursor && !template.slice(lineStart, start).trim() && !template.slice(end, lineEnd).trim()) {
+        start = lineStart;
+        end = newline === -1 ? template.length : newline + 1;
+        TAG_PATTERN.lastIndex = end;
+      }
+    }
+
+    pushText(template.slice(cursor, start), cursor);
+    cursor = end;
+
+    const open = content.match(BLOCK_OPEN_PATTERN);
+    if (open) {
+      if (!open[2]) {
+        issues.push({ level: 'error', message: `{{#${open[1]}}} 缺少变量名`, line });
+      }
+      const block: Extract<TemplateNode, { kind: 'block' }> = { kind: 'block', name: open[2] || '', negate: open[1] === 'unless', body: [], alternate: [], line };
+      current().push(block);
+      stack.push({ block, type: open[1], line, target: block.body, hasElse: false });
+      continue;
+    }
+
+    if (content === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top) {
+        issues.push({ level: 'error', message: '{{else}} 不在条件块内', line });
+        pushRaw(raw);
+      } else if (top.hasElse) {
+        issues.push({ level: 'error', message: `{{#${top.type}}} 中有多个 {{else}}`, line });
+      } else {
+        top.hasElse = true;
+        top.target = top.block.alternate;
+      }
+      continue;
+    }
+
+    const close = content.match(BLOCK_CLOSE_PATTERN);
+    if (close) {
+      const top = stack[stack.length - 1];
+      if (!top) {
+        issues.push({ level: 'error', message: `多余的 {{/${close[1]}}}`, line });
+        pushRaw(raw);
+      } else {
+        if (top.type !== close[1]) {
+          issues.push({ level: 'error', message: `{{#${top.type}}}（第 ${top.line} 行）应以 {{/${top.type}}} 结束`, line });
+        }
+        stack.pop();
+      }
+      continue;
+    }
+
+    const variable = content.match(VARIABLE_PATTERN);
+    if (variable) {
+      current().push({ kind: 'variable', name: variable[1], fallback: variable[2], raw, line });
+      continue;
+    }
+
+    issues.push({ level: 'error', message: `无法识别的标签 ${raw}`, line });
+    pushRaw(raw);
+  }
+  pushText(template.slice(cursor), cursor);
+
+  for (const open of stack) {
+    issues.push({ level: 'error', message: `{{#${open.type}${open.block.name ? ` ${open.block.name}` : ''}}} 没有对应的 {{/${open.type}}}`, line: open.line });
+  }
+
+  return { nodes: root, issues };
+};
+
+const KNOWN_VARIABLES = new Set(TEMPLATE_VARIABLES.map(variable => variable.name));
+
+const hasValue = (value: string | undefined): boolean => !!value && value.trim() !== '';
+
+const renderNodes = (nodes: TemplateNode[], variables: TemplateVariables): string =>
+  nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'variable': {
+        const value = variables[node.name];
+        if (hasValue(value)) return value;
+        if (node.fallback !== undefined) return node.fallback;
+        // Unknown names stay visible so a typo shows up in the prompt instead of vanishing
+        return KNOWN_VARIABLES.has(node.name) || node.name in variables ? '' : node.raw;
+      }
+      case 'block': {
+        const truthy = hasValue(variables[node.name]) !== node.negate;
+        return renderNodes(truthy ? node.body : node.alternate, variables);
+      }
+    }
+  }).join('');
+
+/**
+ * 用变量渲染模板
+ */
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  return renderNodes(parseTemplate(template).nodes, variables);
+}
+
+const collectNames = (nodes: TemplateNode[], names: Set<string>): Set<string> => {
+  for (const node of nodes) {
+    if (node.kind === 'variable') names.add(node.name);
+    if (node.kind === 'block') {
+      if (node.name) names.add(node.name);
+      collectNames(node.body, names);
+      collectNames(node.alternate, names);
+    }
+  }
+  return names;
+};
+
+/**
+ * 模板中引用的所有变量名（包括条件中的变量）
+ */
+export function templateVariableNames(template: string): string[] {
+  return [...collectNames(parseTemplate(template).nodes, new Set())];
+}
+
+const editDistance = (a: string, b: string): number => {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+};
+
+const suggestVariable = (name: string, candidates: string[]): string | undefined => {
+  let best: { name: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = candidate.toLowerCase() === name.toLowerCase() ? 0 : editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (!best || distance < best.distance) best = { name: candidate, distance };
+  }
+  return best && best.distance <= Math.max(2, Math.floor(name.length / 4)) ? best.name : undefined;
+};
+
+/**
+ * 检查模板：语法错误、未知变量（附带可能的拼写建议）、当前步骤不可用的变量
+ */
+export function validateTemplate(template: string, scope: TemplateScope): TemplateIssue[] {
+  const { nodes, issues } = parseTemplate(template);
+  const available = templateVariablesFor(scope).map(variable => variable.name);
+
+  const checkName = (name: string, line: number) => {
+    if (!name || available.includes(name)) return;
+    if (KNOWN_VARIABLES.has(name)) {
+      issues.push({ level: 'warning', message: `变量 {{${name}}} 在此模板中不可用，将输出为空`, line });
+      return;
+    }
+    const suggestion = suggestVariable(name, available);
+    issues.push({
+      level: 'warning',
+      message: suggestion ? `未知变量 {{${name}}}，是否想写 {{${suggestion}}}？` : `未知变量 {{${name}}}，将原样输出`,
+      line,
+      suggestion,
+    });
+  };
+
+  const walk = (list: TemplateNode[]) => {
+    for (const node of list) {
+      if (node.kind === 'variable') checkName(node.name, node.line);
+      if (node.kind === 'block') {
+        checkName(node.name, node.line);
+        walk(node.body);
+        walk(node.alternate);
+      }
+    }
+  };
+  walk(nodes);
+
+  return issues.sort((a, b) => a.line - b.line);
+}
@@ -5,6 +5,7 @@ import { LLMProvider } from '../../types';
  */
 export interface LLMServiceConfig {
   apiKey?: string;
+  geminiApiKey?: string; // Gemini SDK 直连使用的密钥（apiKey 默认是 OpenRouter 密钥）
   baseUrl?: string;
   model?: string;
   
@@ -12,16 +13,65 @@ export interface LLMServiceConfig {
   expandPromptSystem?: string;
   expandPromptUserTemplate?: string;
   generationPromptTemplate?: string;
+
+  // Mock provider
+  mockLatencyMs?: number; // 模拟延迟（默认 800ms，±50% 抖动）
+  mockFailureRate?: number; // 模拟失败率 0-1
   
   [key: string]: any; // 允许额外的配置项，便于未来扩展
 }
 
+/**
+ * 可路由的任务类型
+ */
+export type LLMTask = 'expand' | 'generate' | 'recommend' | 'analyze' | 'edit';
+
+/**
+ * 指向某个提供商下具体模型的路由
+ */
+export interface ModelRoute {
+  providerId: string;
+  model: string;
+}
+
+/**
+ * 每个任务使用的模型路由
+ */
+export type TaskRouting = Record<LLMTask, ModelRoute>;
+
+/**
+ * 服务目标：模型路由，或旧版 LLMProvider 枚举
+ */
+export type ModelTarget = ModelRoute | LLMProvider;
+
+/**
+ * 模型定义
+ */
+export interface ModelDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  capabilities: LLMTask[];
+}
+
+/**
+ * 提供商定义 - 注册到 ProviderRegistry 中
+ */
+export interface ProviderDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  capabilities: LLMTask[];
+  models: ModelDefinition[];
+  create(config: LLMServiceConfig, model: string): ILLMService;
+}
+
 /**
  * Prompt 扩展结果
  */
 export interface PromptExpansionResult {
   expandedPrompt: string;
-  provider: LLMProvider;
+  providerId: string;
   model?: string;
 }
 
@@ -30,12 +80,95 @@ export interface PromptExpansionResult {
  */
 export interface ImageGenerationResult {
   imageUrl: string;
-  provider: LLMProvider;
+  providerId: string;
   model?: string;
 }
 
-export interface ImageGenerationOptions {
+/**
+ * 单次调用的 token 用量与费用
+ */
+export interface LLMUsage {
+  providerId: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost?: number; // 美元；提供商未返回费用时为空
+}
+
+/**
+ * 从产品图分析得到的产品画像
+ */
+export interface ProductProfile {
+  category: string;
+  materials: string[];
+  colors: string[]; // 主要颜色，按占比从高到低
+  scale: string; // 尺寸与使用方式，如 "handheld, about 25 cm tall"
+  audience: string;
+  sellingPoints: string[];
+}
+
+/**
+ * 提示词模板变量（见 template.ts 中的 TEMPLATE_VARIABLES）
+ */
+export interface TemplateVariables {
+  productName?: string;
+  category?: string;
+  brandColors?: string;
+  marketplace?: string;
+  aspectRatio?: string;
   quality?: string;
+  [name: string]: string | undefined;
+}
+
+/**
+ * 通用请求选项
+ */
+export interface RequestOptions {
+  signal?: AbortSignal; // 取消请求；被取消时抛出 name 为 AbortError 的错误
+  onUsage?: (usage: LLMUsage) => void; // 调用完成后回调本次用量（包括没有返回图片的调用）
+}
+
+/**
+ * 提示词扩展选项
+ */
+export interface ExpandPromptOptions extends RequestOptions {
+  onToken?: (delta: string, text: string) => void; // 提供时以流式方式返回，text 为目前为止的完整文本
+  variables?: TemplateVariables; // 填入用户模板的产品与品牌信息
+  systemInstruction?: string; // 覆盖配置中的 expandPromptSystem（例如 A/B 对比时使用旧版本）
+  userTemplate?: string; // 覆盖配置中的 expandPromptUserTemplate
+}
+
+/**
+ * 推荐场景之间的风格差异：focused 围绕一个最合适的场景变化，diverse 每个场景风格都不同
+ */
+export type RecommendationDiversity = 'focused' | 'balanced' | 'diverse';
+
+/**
+ * 一条场景推荐
+ */
+export interface ScenarioRecommendation {
+  name: string; // 简短的场景名，模型未给出时为空
+  description: string; // 场景描述，用作扩展的基础提示词
+  quality: string; // 质量/风格标签
+  rationale: string; // 推荐理由
+}
+
+/**
+ * 场景推荐选项
+ */
+export interface RecommendOptions extends RequestOptions {
+  profile?: ProductProfile; // 已有的产品画像，作为推荐的上下文
+  count?: number; // 推荐数量（默认 3，最多 8）
+  diversity?: RecommendationDiversity; // 默认 balanced
+}
+
+export interface ImageGenerationOptions extends RequestOptions {
+  quality?: string; // 模板未引用 {{quality}} 时追加在提示词末尾
+  variables?: TemplateVariables; // 填入生成模板的产品与品牌信息
+  template?: string; // 覆盖配置中的 generationPromptTemplate
+  temperature?: number; // 采样温度（后端支持时生效）
+  seed?: number; // 随机种子，相同种子 + 相同提示词尽量复现结果（后端支持时生效）
 }
 
 /**
@@ -43,9 +176,14 @@ export interface ImageGenerationOptions {
  */
 export interface ILLMService {
   /**
-   * 获取服务提供商类型
+   * 获取服务提供商 ID（对应 ProviderRegistry 中的注册 ID）
    */
-  getProvider(): LLMProvider;
+  getProviderId(): string;
+
+  /**
+   * 获取当前使用的模型 ID
+   */
+  getModel(): string;
 
   /**
    * 检查服务是否可用（API 密钥是否配置等）
@@ -56,15 +194,16 @@ export interface ILLMService {
    * 扩展基础提示词为详细的图像生成提示词
    * @param basePrompt 基础场景描述
    * @param customContext 用户自定义上下文
+   * @param options 取消信号与流式回调
    * @returns 扩展后的详细提示词
    */
-  expandPrompt(basePrompt: string, customContext?: string): Promise<string>;
+  expandPrompt(basePrompt: string, customContext?: string, options?: ExpandPromptOptions): Promise<string>;
 
   /**
    * 生成产品场景图像
    * @param imageBase64 产品图像的 base64 编码
    * @param prompt 场景描述提示词
-   * @param options 图像生成选项 (如尺寸)
+   * @param options 图像生成选项 (如尺寸、取消信号)
    * @returns 生成图像的 base64 数据 URL
    */
   generateImage(imageBase64: string, prompt: string, options?: ImageGenerationOptions): Promise<string>;
@@ -72,16 +211,26 @@ export interface ILLMService {
   /**
    * 根据产品图片推荐场景
    * @param imageBase64 产品图片
-   * @returns 推荐的场景描述列表
+   * @param options 取消信号、产品画像、数量与风格差异
+   * @returns 推荐的场景；输出无法解析时抛出 InvalidOutputError
+   */
+  recommendScenarios(imageBase64: string, options?: RecommendOptions): Promise<ScenarioRecommendation[]>;
+
+  /**
+   * 分析产品图片，返回结构化的产品画像
+   * @param imageBase64 产品图片
+   * @param options 取消信号
+   * @returns 产品画像；模型没有返回可解析的画像时抛出 InvalidOutputError
    */
-  recommendScenarios(imageBase64: string): Promise<string[]>;
+  analyzeProduct(imageBase64: string, options?: RequestOptions): Promise<ProductProfile>;
 
   /**
    * 编辑图像 (Inpainting)
    * @param imageBase64 原图
    * @param maskBase64 蒙版图 (黑底白字)
    * @param prompt 编辑提示词
+   * @param options 取消信号
    * @returns 编辑后的图片 URL
    */
-  editImage(imageBase64: string, maskBase64: string, prompt: string): Promise<string>;
+  editImage(imageBase64: string, maskBase64: string, prompt: string, options?: RequestOptions): Promise<string>;
 }
@@ -0,0 +1,234 @@
+import { MattingSettings } from '../types';
+
+/**
+ * 白底抠图
+ * 1. 从图像边缘开始泛洪填充，只有与边缘连通的背景色像素才会被移除，产品内部的白色得以保留
+ * 2. 在前景边缘的羽化带内生成抗锯齿的半透明 alpha
+ * 3. 对半透明像素去除背景色溢出（去光晕）
+ */
+
+export const DEFAULT_MATTING_SETTINGS: MattingSettings = {
+  tolerance: 24,
+  feather: 2,
+  decontaminate: true,
+};
+
+// Background colour = average of near-white border pixels (falls back to pure white)
+const estimateBackground = (data: Uint8ClampedArray, width: number, height: number): [number, number, number] => {
+  let r = 0, g = 0, b = 0, count = 0;
+  const sample = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    if (data[i] > 200 && data[i + 1] > 200 && data[i + 2] > 200) {
+      r += data[i];
+      g += data[i + 1];
+      b += data[i + 2];
+      count++;
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    sample(x, 0);
+    sample(x, height - 1);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    sample(0, y);
+    sample(width - 1, y);
+  }
+  return count > 0 ? [r / count, g / count, b / count] : [255, 255, 255];
+};
+
+/**
+ * 对 RGBA 像素数据执行抠图（原地修改）
+ */
+export function computeMatte(
+  data: Uint8ClampedArray,
+  width: number,
+  height: number,
+  settings: MattingSettings = DEFAULT_MATTING_SETTINGS
+): Uint8ClampedArray {
+  const pixelCount = width * height;
+  if (pixelCount === 0) return data;
+
+  const [bgR, bgG, bgB] = estimateBackground(data, width, height);
+
+  // Per-pixel distance from the background colour (max channel difference)
+  const distance = new Uint8Array(pixelCount);
+  for (let p = 0; p < pixelCount; p++) {
+    const i = p * 4;
+    distance[p] = Math.max(Math.abs(data[i] - bgR), Math.abs(data[i + 1] - bgG), Math.abs(data[i + 2] - bgB));
+  }
+
+  // 1. Flood fill from the edges
+  const isBackground = new Uint8Array(pixelCount);
+  const stack = new Int32Array(pixelCount);
+  let top = 0;
+  const push = (p: number) => {
+    if (!isBackground[p] && distance[p] <= settings.tolerance) {
+      isBackground[p] = 1;
+      stack[top++] = p;
+    }
+  };
+  for (let x = 0; x < width; x++) {
+    push(x);
+    push((height - 1) * width + x);
+  }
+  for (let y = 0; y < height; y++) {
+    push(y * width);
+    push(y * width + width - 1);
+  }
+  while (top > 0) {
+    const p = stack[--top];
+    const x = p % width;
+    if (x > 0) push(p - 1);
+    if (x < width - 1) push(p + 1);
+    if (p >= width) push(p - width);
+    if (p < pixelCount - width) push(p + width);
+  }
+
+  // 2. Distance (in pixels) from each foreground pixel to the background, two-pass chamfer transform
+  const feather = Math.max(0, settings.feather);
+  const edgeDistance = new Float32Array(pixelCount);
+  if (feather > 0) {
+    const far = feather + 1;
+    for (let p = 0; p < pixelCount; p++) {
+      edgeDistance[p] = isBackground[p] ? 0 : far;
+    }
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const p = y * width + x;
+        let d = edgeDistance[p];
+        if (d === 0) continue;
+        if (x > 0) d = Math.min(d, edgeDistance[p - 1] + 1);
+        if (y > 0) {
+          d = Math.min(d, edgeDistance[p - width] + 1);
+          if (x > 0) d = Math.min(d, edgeDistance[p - width - 1] + Math.SQRT2);
+          if (x < width - 1) d = Math.min(d, edgeDistance[p - width + 1] + Math.SQRT2);
+        }
+        edgeDistance[p] = d;
+      }
+    }
+    for (let y = height - 1; y >= 0; y--) {
+      for (let x = width - 1; x >= 0; x--) {
+        const p = y * width + x;
+        let d = edgeDistance[p];
+        if (d === 0) continue;
+        if (x < width - 1) d = Math.min(d, edgeDistance[p + 1] + 1);
+        if (y < height - 1) {
+          d = Math.min(d, edgeDistance[p + width] + 1);
+          if (x < width - 1) d = Math.min(d, edgeDistance[p + width + 1] + Math.SQRT2);
+          if (x > 0) d = Math.min(d, edgeDistance[p + width - 1] + Math.SQRT2);
+        }
+        edgeDistance[p] = d;
+      }
+    }
+  }
+
+  for (let p = 0; p < pixelCount; p++) {
+    const i = p * 4;
+    if (isBackground[p]) {
+      data[i + 3] = 0;
+      continue;
+    }
+    if (feather === 0 || edgeDistance[p] > feather) continue;
+
+    // Inside the feather band: estimate coverage by comparing against the most
+    // product-like colour nearby, so anti-aliased edge pixels become semi-transparent
+    const x = p % width;
+    const y = (p - x) / width;
+    const radius = Math.ceil(feather) + 1;
+    let reference = 0;
+    for (let ny = Math.max(0, y - radius); ny <= Math.min(height - 1, y + radius); ny++) {
+      for (let nx = Math.max(0, x - radius); nx <= Math.min(width - 1, x + radius); nx++) {
+        reference = Math.max(reference, distance[ny * width + nx]);
+      }
+    }
+    const colourAlpha = reference > settings.tolerance
+      ? (distance[p] - settings.tolerance) / (reference - settings.tolerance)
+      : 0;
+    const rampAlpha = edgeDistance[p] / (feather + 1);
+    const alpha = Math.max(0, Math.min(1, Math.max(colourAlpha, rampAlpha)));
+    data[i + 3] = Math.round(data[i + 3] * alpha);
+
+    // 3. Unmix the background: observed = alpha * colour + (1 - alpha) * background
+    if (settings.decontaminate && alpha > 0 && alpha < 1) {
+      data[i] = (data[i] - (1 - alpha) * bgR) / alpha;
+      data[i + 1] = (data[i + 1] - (1 - alpha) * bgG) / alpha;
+      data[i + 2] = (data[i + 2] - (1 - alpha) * bgB) / alpha;
+    }
+  }
+
+  return data;
+}
+
+export interface MattingRequest {
+  id: number;
+  buffer: ArrayBuffer;
+  width: number;
+  height: number;
+  settings: MattingSettings;
+}
+
+export interface MattingResponse {
+  id: number;
+  buffer?: ArrayBuffer;
+  error?: string;
+}
+
+// Lazily created worker; null once it has failed so later calls use the main thread
+let worker: Worker | null | undefined;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (buffer: ArrayBuffer) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker | null => {
+  if (worker !== undefined) return worker;
+  try {
+    worker = new Worker(new URL('./matting.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<MattingResponse>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+      pending.delete(event.data.id);
+      if (event.data.buffer) {
+        request.resolve(event.data.buffer);
+      } else {
+        request.reject(new Error(event.data.error || 'Matting failed'));
+      }
+    };
+    worker.onerror = (event) => {
+      console.error('Matting worker failed, falling back to the main thread:', event.message);
+      worker?.terminate();
+      worker = null;
+      pending.forEach(request => request.reject(new Error('Matting worker failed')));
+      pending.clear();
+    };
+  } catch (error) {
+    console.error('Failed to start matting worker:', error);
+    worker = null;
+  }
+  return worker;
+};
+
+/**
+ * 抠图（优先在 Web Worker 中执行，避免大图阻塞界面）
+ */
+export async function matteImageData(imageData: ImageData, settings: MattingSettings): Promise<ImageData> {
+  const activeWorker = getWorker();
+  if (activeWorker) {
+    const id = nextRequestId++;
+    // Transfer a copy so the caller's ImageData stays usable if the worker fails
+    const buffer = imageData.data.slice().buffer;
+    try {
+      const result = await new Promise<ArrayBuffer>((resolve, reject) => {
+        pending.set(id, { resolve, reject });
+        activeWorker.postMessage(
+          { id, buffer, width: imageData.width, height: imageData.height, settings } as MattingRequest,
+          [buffer]
+        );
+      });
+      return new ImageData(new Uint8ClampedArray(result), imageData.width, imageData.height);
+    } catch (error) {
+      console.error('Matting in worker failed, retrying on the main thread:', error);
+    }
+  }
+
+  computeMatte(imageData.data, imageData.width, imageData.height, settings);
+  return imageData;
+}
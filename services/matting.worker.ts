@@ -0,0 +1,14 @@
+import { computeMatte, MattingRequest, MattingResponse } from './matting';
+
+/**
+ * 抠图 Worker：在后台线程处理像素，主线程只负责解码和编码图片
+ */
+self.onmessage = (event: MessageEvent<MattingRequest>) => {
+  const { id, buffer, width, height, settings } = event.data;
+  try {
+    computeMatte(new Uint8ClampedArray(buffer), width, height, settings);
+    self.postMessage({ id, buffer } as MattingResponse, { transfer: [buffer] });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) } as MattingResponse);
+  }
+};
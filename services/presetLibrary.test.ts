@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { ScenarioPreset } from '../types';
+import {
+  PRESET_LIBRARY_FORMAT,
+  PRESET_LIBRARY_VERSION,
+  PresetLibraryError,
+  createPresetLibraryFile,
+  describeMergeResult,
+  mergePresets,
+  parsePresetLibraryFile,
+} from './presetLibrary';
+
+const preset = (id: string, name = id.toUpperCase(), description = `${id} scene`): ScenarioPreset => ({
+  id,
+  name,
+  description,
+  quality: '8k',
+  tags: [],
+});
+
+const libraryFile = (presets: unknown[], extra: Record<string, unknown> = {}) =>
+  JSON.stringify({ format: PRESET_LIBRARY_FORMAT, version: PRESET_LIBRARY_VERSION, exportedAt: '2026-01-01T00:00:00.000Z', presets, ...extra });
+
+const parseError = (text: string): PresetLibraryError => {
+  try {
+    parsePresetLibraryFile(text);
+  } catch (error) {
+    expect(error).toBeInstanceOf(PresetLibraryError);
+    return error as PresetLibraryError;
+  }
+  throw new Error('Expected the file to be rejected');
+};
+
+describe('parsePresetLibraryFile', () => {
+  it('round-trips an exported library without recommendation flags', () => {
+    const file = createPresetLibraryFile(
+      [{ ...preset('desk'), tags: ['studio'], rationale: 'Work context', isRecommended: true }],
+      { expandPromptSystem: 'sys', expandPromptUserTemplate: 'user', generationPromptTemplate: 'gen', brandColors: 'red', marketplace: 'Amazon', aspectRatio: '1:1' },
+    );
+    const parsed = parsePresetLibraryFile(JSON.stringify(file));
+    expect(parsed.presets).toEqual([{ ...preset('desk'), tags: ['studio'], rationale: 'Work context' }]);
+    expect(parsed.promptSettings).toEqual(file.promptSettings);
+  });
+
+  it('drops unknown fields and tags', () => {
+    const parsed = parsePresetLibraryFile(libraryFile([{ ...preset('desk'), tags: ['lifestyle', 'bogus', 'studio'], isRecommended: true, extra: 1 }]));
+    expect(parsed.presets).toEqual([{ ...preset('desk'), tags: ['studio', 'lifestyle'] }]);
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(parseError('{"format": "amzgen-presets",').message).toBe('文件不是有效的 JSON。');
+  });
+
+  it('rejects files that are not preset libraries', () => {
+    expect(parseError(JSON.stringify({ presets: [] })).message).toBe('不是 AmzGen 预设库文件。');
+  });
+
+  it('rejects a file from a newer format version', () => {
+    const error = parseError(JSON.stringify({ format: PRESET_LIBRARY_FORMAT, version: PRESET_LIBRARY_VERSION + 1, presets: [preset('desk')] }));
+    expect(error.message).toContain(`格式版本 ${PRESET_LIBRARY_VERSION + 1}`);
+  });
+
+  it('rejects a missing or invalid version', () => {
+    expect(parseError(JSON.stringify({ format: PRESET_LIBRARY_FORMAT, presets: [preset('desk')] })).message).toBe('预设库文件缺少有效的版本号。');
+    expect(parseError(JSON.stringify({ format: PRESET_LIBRARY_FORMAT, version: 0.5, presets: [] })).message).toBe('预设库文件缺少有效的版本号。');
+  });
+
+  it('migrates a bare array (version 0) to the current format', () => {
+    const parsed = parsePresetLibraryFile(JSON.stringify([{ id: 'desk', name: 'Desk', description: 'A desk' }]));
+    expect(parsed).toEqual({
+      format: PRESET_LIBRARY_FORMAT,
+      version: PRESET_LIBRARY_VERSION,
+      exportedAt: '',
+      presets: [{ id: 'desk', name: 'Desk', description: 'A desk', quality: '', tags: [] }],
+    });
+  });
+
+  it('reports duplicate ids inside one file', () => {
+    const error = parseError(libraryFile([preset('desk'), preset('desk', 'Other desk')]));
+    expect(error.issues).toEqual(['预设 ID「desk」重复']);
+  });
+
+  it('reports every invalid preset instead of dropping it', () => {
+    const error = parseError(libraryFile([preset('ok'), { id: 'bad', name: '', description: 'x', quality: 3 }, 'text']));
+    expect(error.issues).toEqual([
+      'presets[1].name 缺失或不是文本',
+      'presets[1].quality 不是文本',
+      'presets[2] 不是对象',
+    ]);
+    expect(error.message).toContain('presets[1].name');
+  });
+
+  it('reports invalid prompt settings', () => {
+    const error = parseError(libraryFile([preset('desk')], { promptSettings: { brandColors: 5, marketplace: 'Etsy' } }));
+    expect(error.issues).toEqual(['promptSettings.brandColors 不是文本']);
+  });
+
+  it('accepts a file with only prompt settings and rejects an empty one', () => {
+    expect(parsePresetLibraryFile(libraryFile([], { promptSettings: { marketplace: 'Etsy' } })).promptSettings).toEqual({ marketplace: 'Etsy' });
+    expect(parseError(libraryFile([])).message).toBe('文件中没有可导入的预设或提示词设置。');
+  });
+});
+
+describe('mergePresets', () => {
+  const existing = [preset('desk', 'Desk', 'old desk'), preset('desk-copy', 'Desk copy')];
+  const incoming = [preset('desk', 'Desk', 'new desk'), preset('garden')];
+
+  it('skips presets whose id already exists', () => {
+    const result = mergePresets(existing, incoming, 'skip');
+    expect(result.presets).toEqual([...existing, preset('garden')]);
+    expect(result).toMatchObject({ added: 1, overwritten: 0, duplicated: 0, skipped: 1 });
+    expect(describeMergeResult(result)).toBe('新增 1 个，跳过 1 个');
+  });
+
+  it('overwrites presets in place', () => {
+    const result = mergePresets(existing, incoming, 'overwrite');
+    expect(result.presets).toEqual([preset('desk', 'Desk', 'new desk'), existing[1], preset('garden')]);
+    expect(result).toMatchObject({ added: 1, overwritten: 1, duplicated: 0, skipped: 0 });
+  });
+
+  it('saves conflicting presets as copies with unused ids', () => {
+    const result = mergePresets(existing, [...incoming, preset('desk', 'Desk', 'third desk')], 'duplicate');
+    expect(result.presets.map(({ id, name, description }) => ({ id, name, description }))).toEqual([
+      { id: 'desk', name: 'Desk', description: 'old desk' },
+      { id: 'desk-copy', name: 'Desk copy', description: 'desk-copy scene' },
+      // desk-copy is taken, so numbering starts at 2
+      { id: 'desk-copy-2', name: 'Desk（副本）', description: 'new desk' },
+      { id: 'garden', name: 'GARDEN', description: 'garden scene' },
+      { id: 'desk-copy-3', name: 'Desk（副本）', description: 'third desk' },
+    ]);
+    expect(result).toMatchObject({ added: 1, overwritten: 0, duplicated: 2, skipped: 0 });
+  });
+
+  it('does not modify the existing list', () => {
+    const before = structuredClone(existing);
+    mergePresets(existing, incoming, 'overwrite');
+    expect(existing).toEqual(before);
+  });
+});
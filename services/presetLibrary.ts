@@ -0,0 +1,266 @@
+import { GlobalPromptSettings, PresetTag, ScenarioPreset } from '../types';
+
+/**
+ * 场景预设库
+ * 预设标签、把 AI 推荐转换为库中预设，以及预设库文件的导入导出
+ */
+
+export const PRESET_TAGS: PresetTag[] = ['studio', 'lifestyle', 'seasonal', 'infographic'];
+
+export const PRESET_TAG_LABELS: Record<PresetTag, string> = {
+  studio: '棚拍',
+  lifestyle: '生活场景',
+  seasonal: '节日季节',
+  infographic: '信息图',
+};
+
+// Keywords used to pre-select tags for a recommendation; the user can change them before saving
+const TAG_KEYWORDS: Record<PresetTag, RegExp> = {
+  studio: /studio|backdrop|seamless|plinth|pedestal|sweep|摄影棚|背景纸|纯色背景/i,
+  lifestyle: /kitchen|living|bedroom|bathroom|desk|office|cafe|garden|park|picnic|outdoor|beach|home|厨房|客厅|卧室|浴室|书桌|户外|花园|生活/i,
+  seasonal: /christmas|holiday|halloween|easter|valentine|thanksgiving|new year|festive|winter|summer|autumn|spring|seasonal|圣诞|节日|春节|中秋|万圣|情人节|冬季|夏季|秋季|春季/i,
+  infographic: /infographic|callout|annotation|diagram|dimension|comparison|text overlay|icons?\b|信息图|标注|尺寸图|对比图/i,
+};
+
+/**
+ * 过滤未知标签并去重，按 PRESET_TAGS 的顺序返回
+ */
+export function normalizePresetTags(tags: unknown): PresetTag[] {
+  if (!Array.isArray(tags)) return [];
+  return PRESET_TAGS.filter(tag => tags.includes(tag));
+}
+
+/**
+ * 根据场景名称和描述推测标签
+ */
+export function suggestPresetTags(preset: Pick<ScenarioPreset, 'name' | 'description'>): PresetTag[] {
+  const text = `${preset.name} ${preset.description}`;
+  return PRESET_TAGS.filter(tag => TAG_KEYWORDS[tag].test(text));
+}
+
+/**
+ * 把 AI 推荐保存为库中的预设：使用新的 ID，去掉推荐标记
+ */
+export function recommendationToPreset(recommendation: ScenarioPreset, name: string, tags: PresetTag[]): ScenarioPreset {
+  const { isRecommended: _isRecommended, ...preset } = recommendation;
+  return {
+    ...preset,
+    id: Date.now().toString(),
+    name: name.trim() || recommendation.name,
+    tags: normalizePresetTags(tags),
+  };
+}
+
+export const PRESET_LIBRARY_FORMAT = 'amzgen-presets';
+// Bump when the file layout changes and add a step to migrateLibraryFile
+export const PRESET_LIBRARY_VERSION = 1;
+
+const PROMPT_SETTING_KEYS: (keyof GlobalPromptSettings)[] = [
+  'expandPromptSystem',
+  'expandPromptUserTemplate',
+  'generationPromptTemplate',
+  'brandColors',
+  'marketplace',
+  'aspectRatio',
+];
+
+export interface PresetLibraryFile {
+  format: typeof PRESET_LIBRARY_FORMAT;
+  version: number;
+  exportedAt: string;
+  presets: ScenarioPreset[];
+  // Older or hand-written files may carry only some of the settings
+  promptSettings?: Partial<GlobalPromptSettings>;
+}
+
+export type PresetConflictStrategy = 'skip' | 'overwrite' | 'duplicate';
+
+export const CONFLICT_STRATEGY_LABELS: Record<PresetConflictStrategy, string> = {
+  skip: '跳过',
+  overwrite: '覆盖',
+  duplicate: '另存副本',
+};
+
+export interface PresetMergeResult {
+  presets: ScenarioPreset[];
+  added: number;
+  overwritten: number;
+  duplicated: number;
+  skipped: number;
+}
+
+/**
+ * 预设库文件无法读取或未通过校验
+ */
+export class PresetLibraryError extends Error {
+  constructor(message: string, public readonly issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n${issues.slice(0, 5).map(issue => `- ${issue}`).join('\n')}${issues.length > 5 ? `\n- 另有 ${issues.length - 5} 个问题` : ''}` : message);
+    this.name = 'PresetLibraryError';
+  }
+}
+
+/**
+ * 生成可分享的预设库文件；promptSettings 为空时只导出预设
+ */
+export function createPresetLibraryFile(presets: ScenarioPreset[], promptSettings?: GlobalPromptSettings): PresetLibraryFile {
+  return {
+    format: PRESET_LIBRARY_FORMAT,
+    version: PRESET_LIBRARY_VERSION,
+    exportedAt: new Date().toISOString(),
+    // Recommendation-only fields stay behind; everything in the library is a regular preset
+    presets: presets.map(({ isRecommended: _isRecommended, ...preset }) => preset),
+    ...(promptSettings ? { promptSettings } : {}),
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Version 0 is a raw dump of localStorage['amzgen_presets']: a bare array of presets
+const migrateLibraryFile = (data: unknown): Record<string, unknown> => {
+  if (Array.isArray(data)) {
+    return { format: PRESET_LIBRARY_FORMAT, version: PRESET_LIBRARY_VERSION, exportedAt: '', presets: data };
+  }
+  if (!isRecord(data) || data.format !== PRESET_LIBRARY_FORMAT) {
+    throw new PresetLibraryError('不是 AmzGen 预设库文件。');
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    throw new PresetLibraryError('预设库文件缺少有效的版本号。');
+  }
+  if (data.version > PRESET_LIBRARY_VERSION) {
+    throw new PresetLibraryError(`文件由更新版本的 AmzGen 导出（格式版本 ${data.version}），请升级后再导入。`);
+  }
+  return data;
+};
+
+const validatePreset = (value: unknown, index: number, issues: string[]): ScenarioPreset | null => {
+  const at = `presets[${index}]`;
+  if (!isRecord(value)) {
+    issues.push(`${at} 不是对象`);
+    return null;
+  }
+  const before = issues.length;
+  for (const key of ['id', 'name', 'description'] as const) {
+    if (typeof value[key] !== 'string' || !value[key].trim()) issues.push(`${at}.${key} 缺失或不是文本`);
+  }
+  for (const key of ['quality', 'rationale'] as const) {
+    if (value[key] !== undefined && typeof value[key] !== 'string') issues.push(`${at}.${key} 不是文本`);
+  }
+  if (value.tags !== undefined && !Array.isArray(value.tags)) issues.push(`${at}.tags 不是数组`);
+  if (issues.length > before) return null;
+
+  // Copy known fields only, so a shared file can't smuggle extra state into the library
+  return {
+    id: (value.id as string).trim(),
+    name: (value.name as string).trim(),
+    description: value.description as string,
+    quality: (value.quality as string | undefined) ?? '',
+    ...(value.rationale ? { rationale: value.rationale as string } : {}),
+    tags: normalizePresetTags(value.tags),
+  };
+};
+
+const validatePromptSettings = (value: unknown, issues: string[]): Partial<GlobalPromptSettings> | undefined => {
+  if (value === undefined) return undefined;
+  if (!isRecord(value)) {
+    issues.push('promptSettings 不是对象');
+    return undefined;
+  }
+  const settings: Partial<GlobalPromptSettings> = {};
+  for (const key of PROMPT_SETTING_KEYS) {
+    if (value[key] === undefined) continue;
+    if (typeof value[key] !== 'string') {
+      issues.push(`promptSettings.${key} 不是文本`);
+      continue;
+    }
+    settings[key] = value[key] as string;
+  }
+  return Object.keys(settings).length > 0 ? settings : undefined;
+};
+
+/**
+ * 解析并校验预设库文件，旧版本文件会先迁移到当前格式；任何字段不合法时整个文件都不导入
+ */
+export function parsePresetLibraryFile(text: string): PresetLibraryFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PresetLibraryError('文件不是有效的 JSON。');
+  }
+  const file = migrateLibraryFile(data);
+
+  const issues: string[] = [];
+  if (!Array.isArray(file.presets)) {
+    issues.push('presets 缺失或不是数组');
+  }
+  const presets = (Array.isArray(file.presets) ? file.presets : [])
+    .map((preset, index) => validatePreset(preset, index, issues))
+    .filter((preset): preset is ScenarioPreset => preset !== null);
+  const seen = new Set<string>();
+  presets.forEach(preset => {
+    if (seen.has(preset.id)) issues.push(`预设 ID「${preset.id}」重复`);
+    seen.add(preset.id);
+  });
+  const promptSettings = validatePromptSettings(file.promptSettings, issues);
+
+  if (issues.length > 0) {
+    throw new PresetLibraryError('预设库文件未通过校验：', issues);
+  }
+  if (presets.length === 0 && !promptSettings) {
+    throw new PresetLibraryError('文件中没有可导入的预设或提示词设置。');
+  }
+  return {
+    format: PRESET_LIBRARY_FORMAT,
+    version: PRESET_LIBRARY_VERSION,
+    exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : '',
+    presets,
+    ...(promptSettings ? { promptSettings } : {}),
+  };
+}
+
+const uniqueId = (base: string, taken: Set<string>): string => {
+  let id = `${base}-copy`;
+  for (let n = 2; taken.has(id); n++) id = `${base}-copy-${n}`;
+  return id;
+};
+
+/**
+ * 把导入的预设合并进现有预设库；ID 冲突时按 strategy 跳过、覆盖或另存为副本
+ */
+export function mergePresets(existing: ScenarioPreset[], incoming: ScenarioPreset[], strategy: PresetConflictStrategy): PresetMergeResult {
+  const result: PresetMergeResult = { presets: [...existing], added: 0, overwritten: 0, duplicated: 0, skipped: 0 };
+  const taken = new Set(existing.map(preset => preset.id));
+
+  for (const preset of incoming) {
+    if (!taken.has(preset.id)) {
+      result.presets.push(preset);
+      taken.add(preset.id);
+      result.added++;
+    } else if (strategy === 'overwrite') {
+      result.presets = result.presets.map(current => current.id === preset.id ? preset : current);
+      result.overwritten++;
+    } else if (strategy === 'duplicate') {
+      const id = uniqueId(preset.id, taken);
+      result.presets.push({ ...preset, id, name: `${preset.name}（副本）` });
+      taken.add(id);
+      result.duplicated++;
+    } else {
+      result.skipped++;
+    }
+  }
+  return result;
+}
+
+/**
+ * 合并结果的简短说明，例如「新增 3 个，跳过 1 个」
+ */
+export function describeMergeResult(result: PresetMergeResult): string {
+  const parts = [
+    result.added > 0 && `新增 ${result.added} 个`,
+    result.overwritten > 0 && `覆盖 ${result.overwritten} 个`,
+    result.duplicated > 0 && `另存副本 ${result.duplicated} 个`,
+    result.skipped > 0 && `跳过 ${result.skipped} 个`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join('，') : '没有预设需要导入';
+}
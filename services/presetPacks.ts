@@ -0,0 +1,156 @@
+import { ScenarioPreset } from '../types';
+
+/**
+ * 内置预设包
+ * 随应用打包的精选场景，离线即可安装到预设库；ID 带 pack- 前缀，重复安装时按 ID 识别冲突
+ */
+
+export interface PresetPack {
+  id: string;
+  name: string;
+  description: string;
+  presets: ScenarioPreset[];
+}
+
+export const PRESET_PACKS: PresetPack[] = [
+  {
+    id: 'seasonal-holidays',
+    name: '节日季节',
+    description: '圣诞、春节、情人节和夏日主题，适合节日促销主图和 A+ 页面。',
+    presets: [
+      {
+        id: 'pack-seasonal-christmas',
+        name: '圣诞壁炉',
+        description: '温馨的圣诞场景：木质壁炉台上点缀松枝、暖白色串灯和少量红金色装饰球，背景柔和虚化，壁炉火光带来温暖的侧光。',
+        quality: '高质量，8k，商业摄影，暖色调，浅景深',
+        tags: ['seasonal', 'lifestyle'],
+      },
+      {
+        id: 'pack-seasonal-lunar-new-year',
+        name: '春节喜庆',
+        description: '红色与金色为主的春节桌面布置，搭配窗花剪纸、红包和柑橘，明亮均匀的灯光，画面喜庆但不杂乱。',
+        quality: '高质量，8k，商业摄影，明亮灯光，色彩饱满',
+        tags: ['seasonal'],
+      },
+      {
+        id: 'pack-seasonal-valentine',
+        name: '情人节礼物',
+        description: '浅粉色背景上散落玫瑰花瓣和缎带，旁边是打开的礼盒，柔和的逆光营造浪漫氛围。',
+        quality: '高质量，8k，商业摄影，柔和逆光，粉色调',
+        tags: ['seasonal', 'studio'],
+      },
+      {
+        id: 'pack-seasonal-summer',
+        name: '夏日海滩',
+        description: '阳光明媚的沙滩上，产品放在浅色木板或毛巾上，背景是虚化的海浪和蓝天，明亮的自然光和清晰的阴影。',
+        quality: '高质量，8k，商业摄影，自然光，高对比度',
+        tags: ['seasonal', 'lifestyle'],
+      },
+    ],
+  },
+  {
+    id: 'kitchen',
+    name: '厨房',
+    description: '厨具、餐具和小家电常用的厨房与餐桌场景。',
+    presets: [
+      {
+        id: 'pack-kitchen-marble',
+        name: '大理石台面',
+        description: '明亮的现代厨房，白色大理石台面，背景是虚化的浅色橱柜和绿植，窗外自然光从侧面照入。',
+        quality: '高质量，8k，商业摄影，自然光，干净通透',
+        tags: ['lifestyle'],
+      },
+      {
+        id: 'pack-kitchen-rustic',
+        name: '复古木桌',
+        description: '深色旧木餐桌上摆放亚麻餐巾、香草和新鲜食材，温暖的低角度侧光，质朴的乡村厨房氛围。',
+        quality: '高质量，8k，商业摄影，暖色调，质感细腻',
+        tags: ['lifestyle'],
+      },
+      {
+        id: 'pack-kitchen-breakfast',
+        name: '早餐餐桌',
+        description: '清晨的早餐餐桌，旁边有咖啡、面包和水果，柔和的晨光从窗户照入，画面轻松自然。',
+        quality: '高质量，8k，商业摄影，柔和晨光，浅景深',
+        tags: ['lifestyle'],
+      },
+      {
+        id: 'pack-kitchen-infographic',
+        name: '厨房卖点图',
+        description: '纯白背景上的产品居中摆放，四周留出空白用于卖点标注和尺寸说明，均匀的无影灯光。',
+        quality: '高质量，8k，商业摄影，纯白背景，均匀照明',
+        tags: ['infographic', 'studio'],
+      },
+    ],
+  },
+  {
+    id: 'outdoor',
+    name: '户外',
+    description: '露营、运动和旅行装备常用的户外场景。',
+    presets: [
+      {
+        id: 'pack-outdoor-camping',
+        name: '露营营地',
+        description: '森林营地中的折叠桌旁，背景是帐篷和虚化的树林，傍晚金色的阳光透过树叶洒下。',
+        quality: '高质量，8k，商业摄影，黄金时刻，浅景深',
+        tags: ['lifestyle'],
+      },
+      {
+        id: 'pack-outdoor-trail',
+        name: '山间步道',
+        description: '山间步道边的岩石上，远处是连绵的山脉和晴朗的天空，明亮的日光，画面开阔有活力。',
+        quality: '高质量，8k，商业摄影，自然光，广阔视野',
+        tags: ['lifestyle'],
+      },
+      {
+        id: 'pack-outdoor-lakeside',
+        name: '湖边码头',
+        description: '清晨湖边的木质码头上，湖面有薄雾，柔和的散射光，安静平和的氛围。',
+        quality: '高质量，8k，商业摄影，柔和散射光，清新色调',
+        tags: ['lifestyle'],
+      },
+      {
+        id: 'pack-outdoor-rugged',
+        name: '硬朗质感',
+        description: '深色岩石与粗糙石板组成的背景，戏剧性的侧光突出产品的耐用质感和细节。',
+        quality: '高质量，8k，商业摄影，戏剧性侧光，高对比度',
+        tags: ['studio'],
+      },
+    ],
+  },
+  {
+    id: 'beauty',
+    name: '美妆个护',
+    description: '护肤品、彩妆和个护产品常用的简洁、柔和场景。',
+    presets: [
+      {
+        id: 'pack-beauty-water',
+        name: '水波倒影',
+        description: '浅水面上的产品带有清晰倒影，周围有细小的水滴和涟漪，清爽的冷色调灯光。',
+        quality: '高质量，8k，商业摄影，冷色调，通透水感',
+        tags: ['studio'],
+      },
+      {
+        id: 'pack-beauty-vanity',
+        name: '梳妆台',
+        description: '浅色梳妆台上摆放镜子、鲜花和少量化妆工具，柔和的窗光，干净精致的生活氛围。',
+        quality: '高质量，8k，商业摄影，柔和窗光，浅景深',
+        tags: ['lifestyle'],
+      },
+      {
+        id: 'pack-beauty-pastel',
+        name: '马卡龙色台座',
+        description: '马卡龙色渐变背景前的圆柱形台座，产品置于台座上，柔和的漫射光和淡淡的投影。',
+        quality: '高质量，8k，商业摄影，柔和漫射光，粉彩色调',
+        tags: ['studio'],
+      },
+      {
+        id: 'pack-beauty-ingredients',
+        name: '成分展示',
+        description: '产品旁边摆放与其成分相关的植物、果片或花瓣，白色背景留出标注空间，用于说明核心成分。',
+        quality: '高质量，8k，商业摄影，明亮均匀灯光，细节清晰',
+        tags: ['infographic'],
+      },
+    ],
+  },
+];
@@ -0,0 +1,48 @@
+import { ProductProfile } from './llm';
+
+/**
+ * 产品画像缓存
+ * 以产品图内容的哈希为键保存分析结果，同一张图重新上传时无需再次调用模型
+ */
+
+const STORAGE_KEY = 'amzgen_product_profiles';
+const MAX_ENTRIES = 200; // Oldest entries are dropped to keep localStorage small
+
+interface CachedProfile {
+  profile: ProductProfile;
+  model?: string;
+  timestamp: number;
+}
+
+/**
+ * 图片内容的 SHA-256 哈希（十六进制）
+ */
+export async function hashImage(dataUrl: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(dataUrl));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const loadCache = (): Record<string, CachedProfile> => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return {};
+  try {
+    const cache = JSON.parse(saved);
+    return cache && typeof cache === 'object' && !Array.isArray(cache) ? cache : {};
+  } catch (error) {
+    console.error('Failed to load product profiles from localStorage:', error);
+    return {};
+  }
+};
+
+export function loadCachedProfile(imageHash: string): ProductProfile | undefined {
+  return loadCache()[imageHash]?.profile;
+}
+
+export function saveCachedProfile(imageHash: string, profile: ProductProfile, model?: string): void {
+  const cache = loadCache();
+  cache[imageHash] = { profile, model, timestamp: Date.now() };
+  const entries = Object.entries(cache)
+    .sort(([, a], [, b]) => b.timestamp - a.timestamp)
+    .slice(0, MAX_ENTRIES);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(entries)));
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { GlobalPromptSettings, ScenarioPreset } from '../types';
+import {
+  MAX_VERSIONS,
+  VersionHistory,
+  changedPromptSettings,
+  currentPresetVersion,
+  currentPromptSettingsVersion,
+  recordPresetVersions,
+  recordPromptSettingsVersion,
+} from './promptVersions';
+
+const EMPTY: VersionHistory = { presets: {}, promptSettings: [] };
+
+const SETTINGS: GlobalPromptSettings = {
+  expandPromptSystem: 'sys',
+  expandPromptUserTemplate: '{{basePrompt}}',
+  generationPromptTemplate: '{{prompt}}',
+  brandColors: '',
+  marketplace: '',
+  aspectRatio: '',
+};
+
+const preset = (description: string, quality = '8k', name = 'Desk'): ScenarioPreset => ({ id: 'desk', name, description, quality });
+
+describe('recordPresetVersions', () => {
+  it('numbers versions per preset starting at 1', () => {
+    let history = recordPresetVersions(EMPTY, [preset('v1'), { ...preset('garden'), id: 'garden' }]);
+    history = recordPresetVersions(history, [preset('v2')]);
+    history = recordPresetVersions(history, [preset('v2', 'sharp')]);
+    expect(history.presets.desk.map(v => [v.version, v.description, v.quality])).toEqual([
+      [1, 'v1', '8k'],
+      [2, 'v2', '8k'],
+      [3, 'v2', 'sharp'],
+    ]);
+    expect(currentPresetVersion(history, 'garden')?.version).toBe(1);
+  });
+
+  it('returns the same history when nothing changed', () => {
+    const history = recordPresetVersions(EMPTY, [preset('v1')]);
+    expect(recordPresetVersions(history, [preset('v1')])).toBe(history);
+    // Renaming alone doesn't change what gets rendered
+    expect(recordPresetVersions(history, [preset('v1', '8k', 'Renamed')])).toBe(history);
+  });
+
+  it('treats a missing quality as empty', () => {
+    const history = recordPresetVersions(EMPTY, [{ id: 'desk', name: 'Desk', description: 'v1' } as ScenarioPreset]);
+    expect(recordPresetVersions(history, [preset('v1', '')])).toBe(history);
+  });
+
+  it('keeps the newest versions and keeps counting after trimming', () => {
+    let history = EMPTY;
+    for (let i = 1; i <= MAX_VERSIONS + 5; i++) {
+      history = recordPresetVersions(history, [preset(`v${i}`)]);
+    }
+    const versions = history.presets.desk;
+    expect(versions).toHaveLength(MAX_VERSIONS);
+    expect(versions[0].version).toBe(6);
+    expect(versions[versions.length - 1]).toMatchObject({ version: MAX_VERSIONS + 5, description: `v${MAX_VERSIONS + 5}` });
+  });
+});
+
+describe('recordPromptSettingsVersion', () => {
+  it('records a version for every change', () => {
+    let history = recordPromptSettingsVersion(EMPTY, SETTINGS);
+    history = recordPromptSettingsVersion(history, { ...SETTINGS, marketplace: 'Etsy' });
+    expect(history.promptSettings.map(v => v.version)).toEqual([1, 2]);
+    expect(currentPromptSettingsVersion(history)?.settings.marketplace).toBe('Etsy');
+    expect(changedPromptSettings(history.promptSettings[0].settings, history.promptSettings[1].settings)).toEqual(['marketplace']);
+  });
+
+  it('returns the same history when nothing changed', () => {
+    const history = recordPromptSettingsVersion(EMPTY, SETTINGS);
+    expect(recordPromptSettingsVersion(history, { ...SETTINGS })).toBe(history);
+  });
+
+  it('stores a copy of the settings', () => {
+    const settings = { ...SETTINGS };
+    const history = recordPromptSettingsVersion(EMPTY, settings);
+    settings.brandColors = 'red';
+    expect(history.promptSettings[0].settings.brandColors).toBe('');
+  });
+
+  it('keeps the newest versions and keeps counting after trimming', () => {
+    let history = EMPTY;
+    for (let i = 1; i <= MAX_VERSIONS + 1; i++) {
+      history = recordPromptSettingsVersion(history, { ...SETTINGS, brandColors: `#${i}` });
+    }
+    expect(history.promptSettings).toHaveLength(MAX_VERSIONS);
+    expect(history.promptSettings[0].version).toBe(2);
+    expect(currentPromptSettingsVersion(history)?.version).toBe(MAX_VERSIONS + 1);
+  });
+});
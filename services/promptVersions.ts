@@ -0,0 +1,129 @@
+import { ABVariant, GlobalPromptSettings, ScenarioPreset } from '../types';
+
+/**
+ * 预设与提示词设置的版本记录
+ * 预设的描述或质量标签、以及提示词设置每次变化都记为一个新版本；生成结果记下所用的版本号，A/B 对比按版本重跑
+ */
+
+const STORAGE_KEY = 'amzgen_prompt_versions';
+// Oldest versions are dropped beyond this; version numbers keep counting up.
+// Results carry a snapshot of what they were rendered with, so they don't depend on trimmed versions.
+export const MAX_VERSIONS = 50;
+
+export interface PresetVersion {
+  version: number;
+  createdAt: number;
+  name: string;
+  description: string;
+  quality: string;
+}
+
+export interface PromptSettingsVersion {
+  version: number;
+  createdAt: number;
+  settings: GlobalPromptSettings;
+}
+
+export interface VersionHistory {
+  presets: Record<string, PresetVersion[]>; // By preset ID, oldest first
+  promptSettings: PromptSettingsVersion[]; // Oldest first
+}
+
+export interface ABTestArm {
+  variant: ABVariant;
+  presetVersion: PresetVersion;
+  promptVersion: PromptSettingsVersion;
+}
+
+export interface ABTestPlan {
+  presetId: string;
+  arms: [ABTestArm, ABTestArm];
+}
+
+export const PROMPT_SETTING_LABELS: Record<keyof GlobalPromptSettings, string> = {
+  expandPromptSystem: '系统指令',
+  expandPromptUserTemplate: '扩展模板',
+  generationPromptTemplate: '生成模板',
+  brandColors: '品牌色',
+  marketplace: '目标平台',
+  aspectRatio: '画面比例',
+};
+
+const EMPTY_HISTORY: VersionHistory = { presets: {}, promptSettings: [] };
+
+export function loadVersionHistory(): VersionHistory {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return EMPTY_HISTORY;
+  try {
+    const history = JSON.parse(saved);
+    return {
+      presets: history?.presets && typeof history.presets === 'object' ? history.presets : {},
+      promptSettings: Array.isArray(history?.promptSettings) ? history.promptSettings : [],
+    };
+  } catch (error) {
+    console.error('Failed to load prompt versions from localStorage:', error);
+    return EMPTY_HISTORY;
+  }
+}
+
+export function saveVersionHistory(history: VersionHistory): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  } catch (error) {
+    // Quota errors shouldn't break editing; the versions stay in memory for this session
+    console.warn('Failed to save prompt versions to localStorage:', error);
+  }
+}
+
+const append = <T extends { version: number }>(versions: T[], next: Omit<T, 'version'>): T[] => {
+  const version = (versions[versions.length - 1]?.version ?? 0) + 1;
+  return [...versions, { ...next, version } as T].slice(-MAX_VERSIONS);
+};
+
+/**
+ * 为描述或质量标签有变化的预设追加版本；没有变化时返回原对象，便于跳过状态更新
+ */
+export function recordPresetVersions(history: VersionHistory, presets: ScenarioPreset[]): VersionHistory {
+  let changed: Record<string, PresetVersion[]> | null = null;
+  for (const preset of presets) {
+    const versions = history.presets[preset.id] ?? [];
+    const latest = versions[versions.length - 1];
+    const quality = preset.quality ?? '';
+    if (latest && latest.description === preset.description && latest.quality === quality) continue;
+    changed ??= { ...history.presets };
+    changed[preset.id] = append(versions, { createdAt: Date.now(), name: preset.name, description: preset.description, quality });
+  }
+  return changed ? { ...history, presets: changed } : history;
+}
+
+/**
+ * 提示词设置有变化时追加版本；没有变化时返回原对象
+ */
+export function recordPromptSettingsVersion(history: VersionHistory, settings: GlobalPromptSettings): VersionHistory {
+  const latest = history.promptSettings[history.promptSettings.length - 1];
+  if (latest && changedPromptSettings(latest.settings, settings).length === 0) return history;
+  return { ...history, promptSettings: append(history.promptSettings, { createdAt: Date.now(), settings: { ...settings } }) };
+}
+
+export function currentPresetVersion(history: VersionHistory, presetId: string): PresetVersion | undefined {
+  const versions = history.presets[presetId];
+  return versions?.[versions.length - 1];
+}
+
+export function currentPromptSettingsVersion(history: VersionHistory): PromptSettingsVersion | undefined {
+  return history.promptSettings[history.promptSettings.length - 1];
+}
+
+/**
+ * 用指定版本的描述和质量标签替换预设内容
+ */
+export function applyPresetVersion(preset: ScenarioPreset, version: PresetVersion): ScenarioPreset {
+  return { ...preset, description: version.description, quality: version.quality };
+}
+
+/**
+ * 两个提示词设置版本之间不同的字段
+ */
+export function changedPromptSettings(a: GlobalPromptSettings, b: GlobalPromptSettings): (keyof GlobalPromptSettings)[] {
+  return (Object.keys(PROMPT_SETTING_LABELS) as (keyof GlobalPromptSettings)[]).filter(key => (a[key] ?? '') !== (b[key] ?? ''));
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BudgetSettings } from '../types';
+import {
+  BudgetExceededError,
+  UsageRecord,
+  assertWithinBudget,
+  dayKey,
+  formatCost,
+  formatTotalsCost,
+  getBudgetStatus,
+  groupUsage,
+  loadUsageRecords,
+  recordUsage,
+  sumUsage,
+} from './usageLedger';
+
+const NOW = new Date(2026, 2, 15, 12, 0).getTime();
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+let recordCount = 0;
+const record = (overrides: Partial<UsageRecord> = {}): UsageRecord => ({
+  id: `r${++recordCount}`,
+  timestamp: NOW,
+  task: 'generate',
+  providerId: 'openrouter',
+  model: 'image-model',
+  promptTokens: 100,
+  completionTokens: 50,
+  totalTokens: 150,
+  cost: 0.04,
+  ...overrides,
+});
+
+const budget = (overrides: Partial<BudgetSettings> = {}): BudgetSettings => ({ enabled: true, limit: 1, period: 'day', ...overrides });
+
+beforeEach(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+    removeItem: (key: string) => { storage.delete(key); },
+  });
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('sumUsage', () => {
+  it('adds tokens and reported costs', () => {
+    expect(sumUsage([record(), record({ cost: 0.06, promptTokens: 10, completionTokens: 0, totalTokens: 10 })])).toEqual({
+      calls: 2,
+      promptTokens: 110,
+      completionTokens: 50,
+      totalTokens: 160,
+      cost: 0.1,
+      unpricedCalls: 0,
+    });
+  });
+
+  it('counts calls without a cost as unknown rather than free', () => {
+    const totals = sumUsage([record({ cost: undefined }), record({ cost: null as unknown as number }), record({ cost: 0 })]);
+    expect(totals).toMatchObject({ calls: 3, cost: 0, unpricedCalls: 2 });
+  });
+});
+
+describe('groupUsage', () => {
+  const records = [
+    record({ batchId: '1', productName: 'Bottle', timestamp: NOW - 2 * DAY }),
+    record({ batchId: '1', productName: 'Lamp', timestamp: NOW - 2 * DAY + HOUR, cost: undefined }),
+    record({ batchId: '2', productName: 'Bottle', cost: 0.1 }),
+    record({ task: 'expand', cost: 0.01 }),
+  ];
+
+  it('groups by batch and skips records without one', () => {
+    const byBatch = groupUsage(records, r => r.batchId);
+    expect([...byBatch.keys()]).toEqual(['1', '2']);
+    expect(byBatch.get('1')).toMatchObject({ calls: 2, cost: 0.04, unpricedCalls: 1 });
+    expect(byBatch.get('2')).toMatchObject({ calls: 1, cost: 0.1 });
+  });
+
+  it('groups by local day', () => {
+    const byDay = groupUsage(records, r => dayKey(r.timestamp));
+    expect([...byDay.keys()]).toEqual(['2026-03-13', '2026-03-15']);
+    expect(byDay.get('2026-03-15')).toMatchObject({ calls: 2, cost: 0.11 });
+  });
+
+  it('groups by product', () => {
+    const byProduct = groupUsage(records, r => r.productName);
+    expect(byProduct.get('Bottle')).toMatchObject({ calls: 2, cost: 0.14 });
+    expect(byProduct.get('Lamp')).toMatchObject({ calls: 1, cost: 0, unpricedCalls: 1 });
+  });
+});
+
+describe('getBudgetStatus', () => {
+  const records = [
+    record({ cost: 0.5, timestamp: NOW - DAY }), // Yesterday, same month
+    record({ cost: 0.3 }),
+    record({ cost: 0.2, timestamp: NOW - HOUR }),
+    record({ cost: undefined }),
+  ];
+
+  it('only counts the current day or month', () => {
+    expect(getBudgetStatus(records, budget(), NOW)).toEqual({ spent: 0.5, limit: 1, exceeded: false, unpricedCalls: 1 });
+    expect(getBudgetStatus(records, budget({ period: 'month' }), NOW)).toMatchObject({ spent: 1, exceeded: true });
+  });
+
+  it('is exceeded once spending reaches the limit', () => {
+    expect(getBudgetStatus(records, budget({ limit: 0.5 }), NOW).exceeded).toBe(true);
+  });
+
+  it('is never exceeded while the budget is disabled', () => {
+    expect(getBudgetStatus(records, budget({ enabled: false, limit: 0 }), NOW)).toMatchObject({ spent: 0.5, exceeded: false });
+  });
+});
+
+describe('recordUsage', () => {
+  const usage = { providerId: 'openrouter', model: 'image-model', promptTokens: 1, completionTokens: 1, totalTokens: 2, cost: 0.6 };
+
+  it('persists records with their context', () => {
+    recordUsage(usage, { task: 'generate', batchId: '42', productName: 'Bottle' });
+    expect(loadUsageRecords()).toEqual([expect.objectContaining({ ...usage, task: 'generate', batchId: '42', productName: 'Bottle', timestamp: NOW })]);
+  });
+
+  it('keeps an unknown cost unknown after a round trip', () => {
+    recordUsage({ ...usage, cost: undefined }, { task: 'generate' });
+    expect(sumUsage(loadUsageRecords())).toMatchObject({ cost: 0, unpricedCalls: 1 });
+  });
+
+  it('drops records older than the retention period', () => {
+    recordUsage(usage, { task: 'generate' });
+    vi.setSystemTime(NOW + 91 * DAY);
+    const records = recordUsage(usage, { task: 'expand' });
+    expect(records.map(r => r.task)).toEqual(['expand']);
+  });
+
+  it('lets assertWithinBudget stop a batch once recorded spending hits the limit', () => {
+    expect(() => assertWithinBudget(budget())).not.toThrow();
+    recordUsage(usage, { task: 'generate' });
+    recordUsage(usage, { task: 'generate' });
+    expect(() => assertWithinBudget(budget())).toThrow(BudgetExceededError);
+    expect(() => assertWithinBudget(budget({ enabled: false }))).not.toThrow();
+  });
+});
+
+describe('formatTotalsCost', () => {
+  it('marks unknown and partly unknown costs', () => {
+    expect(formatTotalsCost({ calls: 2, cost: 0, unpricedCalls: 2 })).toBe('费用未知');
+    expect(formatTotalsCost({ calls: 3, cost: 0.25, unpricedCalls: 1 })).toBe('$0.25+');
+    expect(formatTotalsCost({ calls: 1, cost: 0.004, unpricedCalls: 0 })).toBe('$0.0040');
+    expect(formatTotalsCost({ calls: 0, cost: 0, unpricedCalls: 0 })).toBe(formatCost(0));
+  });
+});
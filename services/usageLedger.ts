@@ -0,0 +1,162 @@
+import { BudgetSettings } from '../types';
+import { LLMTask, LLMUsage } from './llm';
+
+/**
+ * 用量账本
+ * 记录每一次 LLM 调用的 token 用量与费用（包括失败或被取消的生成中已经计费的调用），
+ * 用于按批次 / 按天 / 按产品统计花费，以及预算上限检查
+ */
+
+const STORAGE_KEY = 'amzgen_usage_ledger';
+const RETENTION_DAYS = 90; // Older records are dropped to keep localStorage small
+
+export const DEFAULT_BUDGET_SETTINGS: BudgetSettings = {
+  enabled: false,
+  limit: 5,
+  period: 'day',
+};
+
+export interface UsageRecord extends LLMUsage {
+  id: string;
+  timestamp: number;
+  task: LLMTask;
+  batchId?: string;
+  productId?: string;
+  productName?: string;
+}
+
+export type UsageContext = Pick<UsageRecord, 'task' | 'batchId' | 'productId' | 'productName'>;
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number; // USD of the calls with a reported cost only
+  unpricedCalls: number; // Calls without a reported cost (e.g. the Gemini SDK); their cost is unknown, not 0
+}
+
+export interface BudgetStatus {
+  spent: number; // Reported cost only
+  limit: number;
+  exceeded: boolean;
+  unpricedCalls: number; // Calls in this period whose cost is unknown and therefore not in spent
+}
+
+/**
+ * 预算用尽时阻止新任务
+ */
+export class BudgetExceededError extends Error {
+  constructor(status: BudgetStatus) {
+    super(`已达到预算上限（$${status.spent.toFixed(2)} / $${status.limit.toFixed(2)}），新的任务未执行。`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export function loadUsageRecords(): UsageRecord[] {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (!saved) return [];
+  try {
+    const records = JSON.parse(saved);
+    return Array.isArray(records) ? records : [];
+  } catch (error) {
+    console.error('Failed to load usage ledger from localStorage:', error);
+    return [];
+  }
+}
+
+/**
+ * 追加一条用量记录并返回更新后的完整账本
+ */
+export function recordUsage(usage: LLMUsage, context: UsageContext): UsageRecord[] {
+  const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const record: UsageRecord = {
+    ...usage,
+    ...context,
+    id: Date.now().toString() + Math.random().toString().slice(2, 8),
+    timestamp: Date.now(),
+  };
+  const records = [...loadUsageRecords().filter(r => r.timestamp >= cutoff), record];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records));
+  } catch (error) {
+    console.error('Failed to save usage ledger to localStorage:', error);
+  }
+  return records;
+}
+
+export function clearUsageRecords(): void {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+/**
+ * 汇总用量。未返回费用的调用不按 0 计入 cost，而是计入 unpricedCalls
+ */
+export function sumUsage(records: LLMUsage[]): UsageTotals {
+  return records.reduce<UsageTotals>((totals, record) => {
+    // JSON has no undefined, so older or hand-edited records may carry null
+    const priced = typeof record.cost === 'number';
+    return {
+      calls: totals.calls + 1,
+      promptTokens: totals.promptTokens + record.promptTokens,
+      completionTokens: totals.completionTokens + record.completionTokens,
+      totalTokens: totals.totalTokens + record.totalTokens,
+      cost: totals.cost + (priced ? record.cost! : 0),
+      unpricedCalls: totals.unpricedCalls + (priced ? 0 : 1),
+    };
+  }, { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, unpricedCalls: 0 });
+}
+
+/**
+ * 按 key 分组汇总，key 返回 undefined 的记录不参与分组
+ */
+export function groupUsage(records: UsageRecord[], keyOf: (record: UsageRecord) => string | undefined): Map<string, UsageTotals> {
+  const groups = new Map<string, UsageRecord[]>();
+  records.forEach(record => {
+    const key = keyOf(record);
+    if (key === undefined) return;
+    groups.set(key, [...(groups.get(key) || []), record]);
+  });
+  return new Map(Array.from(groups, ([key, group]) => [key, sumUsage(group)]));
+}
+
+/**
+ * 本地时区的日期 key（YYYY-MM-DD）
+ */
+export const dayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const periodStart = (period: BudgetSettings['period'], now: number): number => {
+  const date = new Date(now);
+  return period === 'day'
+    ? new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime()
+    : new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+};
+
+export function getBudgetStatus(records: UsageRecord[], settings: BudgetSettings, now: number = Date.now()): BudgetStatus {
+  const start = periodStart(settings.period, now);
+  const { cost: spent, unpricedCalls } = sumUsage(records.filter(r => r.timestamp >= start));
+  return { spent, limit: settings.limit, exceeded: settings.enabled && spent >= settings.limit, unpricedCalls };
+}
+
+/**
+ * 预算已用尽时抛出 BudgetExceededError（读取最新的账本，批量任务中途也能生效）
+ */
+export function assertWithinBudget(settings: BudgetSettings): void {
+  if (!settings.enabled) return;
+  const status = getBudgetStatus(loadUsageRecords(), settings);
+  if (status.exceeded) throw new BudgetExceededError(status);
+}
+
+export const formatCost = (cost: number): string =>
+  `$${cost < 0.01 && cost > 0 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+/**
+ * 显示汇总费用：全部调用都没有费用时为「费用未知」，部分未知时在金额后加「+」
+ */
+export function formatTotalsCost(totals: Pick<UsageTotals, 'calls' | 'cost' | 'unpricedCalls'>): string {
+  if (totals.calls > 0 && totals.unpricedCalls === totals.calls) return '费用未知';
+  return totals.unpricedCalls > 0 ? `${formatCost(totals.cost)}+` : formatCost(totals.cost);
+}
@@ -1,8 +1,12 @@
+import type { LLMUsage, ProductProfile, RecommendationDiversity } from './services/llm/types';
+
 export enum LLMProvider {
   GEMINI_3_PRO_IMAGE_PREVIEW = 'Nano Banana Pro',
   GEMINI_3_PRO_PREVIEW = 'Gemini 3 Pro Preview',
 }
 
+export type PresetTag = 'studio' | 'lifestyle' | 'seasonal' | 'infographic';
+
 export interface ScenarioPreset {
   id: string;
   name: string;
@@ -10,6 +14,8 @@ export interface ScenarioPreset {
   quality: string; // Quality/Style tags (e.g. "4k, photorealistic")
   icon?: string;
   isRecommended?: boolean;
+  rationale?: string; // Why the model suggested this scene (presets that came from a recommendation)
+  tags?: PresetTag[];
 }
 
 export interface GeneratedImage {
@@ -18,6 +24,53 @@ export interface GeneratedImage {
   prompt: string;
   vibe: string; // Changed from enum to string to support custom names
   timestamp: number;
+  presetId?: string; // Preset that produced this image (absent for edits of older records)
+  sourceImage?: string; // Product image (data URL) the scene was generated from
+  batchId?: string;
+  variationIndex?: number; // 0-based index when a preset produced several variations
+  seed?: number;
+  model?: string; // Model that rendered the image
+  productId?: string;
+  sku?: string;
+  productTitle?: string;
+  parentId?: string; // Version this image was derived from (edit or revert)
+  rootId?: string; // First version of the lineage; absent on the root itself
+  edit?: ImageEdit; // Set when this version was produced by an inpainting edit
+  revertedFromId?: string; // Set when this version restores an earlier one
+  usage?: ImageUsage; // Tokens and cost of the calls that produced this image
+  presetVersion?: number; // Preset version (description + quality) the image was rendered from
+  promptVersion?: number; // Prompt settings version the image was rendered with
+  // What those versions contained; the version history is capped, so results keep their own copy
+  presetSnapshot?: { description: string; quality: string };
+  promptSettingsSnapshot?: GlobalPromptSettings;
+  abTestId?: string; // Set on both arms of an A/B comparison
+  abVariant?: ABVariant;
+}
+
+export type ABVariant = 'A' | 'B';
+
+// An expansion shared by several variations appears on each of them; the usage ledger counts it once
+export interface ImageUsage {
+  expand?: LLMUsage;
+  generate?: LLMUsage;
+  edit?: LLMUsage;
+}
+
+export interface ImageEdit {
+  instruction: string;
+  mask: string; // Mask PNG data URL (white = edited area)
+  model?: string;
+}
+
+export interface CatalogProduct {
+  id: string;
+  file: File;
+  previewUrl: string; // Original upload as a data URL
+  sku: string;
+  title: string;
+  category: string; // Free-text category, available to prompt templates as {{category}}
+  imageHash?: string; // SHA-256 of the upload; keys the cached product analysis
+  profile?: ProductProfile; // Result of the product analysis, when available
 }
 
 export interface ProcessingState {
@@ -25,8 +78,77 @@ export interface ProcessingState {
   message: string;
 }
 
+export type GenerationJobStatus = 'queued' | 'expanding' | 'awaiting_review' | 'rendering' | 'done' | 'failed' | 'cancelled' | 'skipped';
+
+export interface GenerationJob {
+  id: string;
+  batchId: string;
+  productId: string;
+  productName: string; // SKU or title shown on the pending card
+  presetId: string;
+  presetName: string;
+  variationIndex: number;
+  status: GenerationJobStatus;
+  error?: string;
+  streamedPrompt?: string; // Expanded prompt as it streams in
+  abVariant?: ABVariant;
+}
+
+export interface VariationSettings {
+  variationCount: number; // Images per selected preset
+  temperature: number | null; // null = backend default
+  seed: number | null; // Base seed; variation i uses seed + i. null = random
+  reexpandPerVariation: boolean; // Expand a fresh prompt for every variation instead of sharing one
+  reviewPrompts: boolean; // Hold each expanded prompt for approval before rendering
+}
+
+// An expanded prompt waiting for approval; jobs that share the expansion wait on the same review
+export interface PromptReview {
+  id: string;
+  batchId: string;
+  presetName: string;
+  productName?: string; // Set when the expansion belongs to a single product
+  jobCount: number; // Images that will render from this prompt
+  prompt: string;
+  status: 'pending' | 'regenerating';
+  error?: string; // Why the last regeneration failed; the previous prompt is kept
+}
+
+export type PromptReviewDecision =
+  | { action: 'approve'; prompt: string }
+  | { action: 'regenerate' }
+  | { action: 'skip' };
+
 export interface GlobalPromptSettings {
   expandPromptSystem: string;
   expandPromptUserTemplate: string;
   generationPromptTemplate: string;
+  // Brand context available to the templates as {{brandColors}}, {{marketplace}} and {{aspectRatio}}
+  brandColors: string;
+  marketplace: string;
+  aspectRatio: string;
+}
+
+export interface ExportSettings {
+  profileId: string;
+  fileNameTemplate: string;
+  asin: string;
+  sku: string;
+}
+
+export interface RecommendationSettings {
+  count: number; // Scenes per recommendation request (1-8)
+  diversity: RecommendationDiversity;
+}
+
+export interface BudgetSettings {
+  enabled: boolean;
+  limit: number; // USD
+  period: 'day' | 'month';
+}
+
+export interface MattingSettings {
+  tolerance: number; // Max colour distance (0-255) from the background that still counts as background
+  feather: number; // Width of the soft alpha edge in pixels
+  decontaminate: boolean; // Remove background colour spill from semi-transparent edge pixels
 }
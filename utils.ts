@@ -1,49 +1,51 @@
+import { MattingSettings } from './types';
+import { DEFAULT_MATTING_SETTINGS, matteImageData } from './services/matting';
+
+const loadImageFile = (file: File): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = (error) => {
+      URL.revokeObjectURL(url);
+      reject(error);
+    };
+    img.src = url;
+  });
+};
+
 /**
- * Simple client-side white background removal heuristic.
- * Converts white pixels to transparent.
+ * Client-side white background removal.
+ * Flood-fills the background from the image edges (interior whites survive),
+ * feathers the edge and removes white halos. Runs in a Web Worker when available.
+ * @param maxSize Downscale so the longest side is at most this many pixels (used for previews)
  */
-export const removeWhiteBackground = (
+export const removeWhiteBackground = async (
   file: File,
-  threshold: number = 240
+  settings: MattingSettings = DEFAULT_MATTING_SETTINGS,
+  maxSize?: number
 ): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const img = new Image();
-      img.onload = () => {
-        const canvas = document.createElement('canvas');
-        canvas.width = img.width;
-        canvas.height = img.height;
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-            resolve(event.target?.result as string);
-            return;
-        }
+  const img = await loadImageFile(file);
+  const scale = maxSize ? Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight)) : 1;
 
-        ctx.drawImage(img, 0, 0);
-        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-        const data = imageData.data;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return fileToBase64(file);
+  }
 
-        for (let i = 0; i < data.length; i += 4) {
-          const r = data[i];
-          const g = data[i + 1];
-          const b = data[i + 2];
-          
-          // Check if pixel is near white
-          if (r > threshold && g > threshold && b > threshold) {
-            data[i + 3] = 0; // Set alpha to 0
-          }
-        }
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  // Feather is defined in full-resolution pixels
+  const matted = await matteImageData(imageData, { ...settings, feather: settings.feather * scale });
 
-        ctx.putImageData(imageData, 0, 0);
-        resolve(canvas.toDataURL('image/png'));
-      };
-      img.onerror = reject;
-      img.src = event.target?.result as string;
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
-  });
+  ctx.putImageData(matted, 0, 0);
+  return canvas.toDataURL('image/png');
 };
 
 export const fileToBase64 = (file: File): Promise<string> => {
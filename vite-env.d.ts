@@ -7,6 +7,9 @@ interface ImportMetaEnv {
   readonly VITE_OPENAI_API_KEY?: string;
   readonly VITE_ANTHROPIC_API_KEY?: string;
   readonly VITE_DEEPSEEK_API_KEY?: string;
+  readonly VITE_LLM_MOCK?: string; // "true" routes every task to the offline mock provider
+  readonly VITE_LLM_MOCK_LATENCY_MS?: string;
+  readonly VITE_LLM_MOCK_FAILURE_RATE?: string; // 0-1
   // 更多环境变量...
 }
 